@@ -1,12 +1,43 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { fetchMarketData, EnhancedMarketData } from './services/dataService';
-import { getModelValues } from './services/modelEngine';
-import { MarketData, MarketStatus } from './types';
+import { getAssetModels, getModelValues } from './services/modelEngine';
+import { calculateIndicators } from './services/indicators';
+import { createFngLookup } from './services/fngHistory';
+import { InsightRule, loadInsightRules, TREND_WINDOWS } from './services/insights';
+import { AnalysisSettings, createAnalysisProvider, loadAnalysisSettings, runAnalysis } from './services/analysisBackend';
+import { AlertContext, AlertEvent, processAlerts, deliverAlert, loadAlertLog, clearAlertLog } from './services/alerts';
+import { createPriceStream, getStreamUrl, parseBinanceTrade, StreamStatus } from './services/priceStream';
+import { createRefreshScheduler, REFRESH_INTERVALS } from './services/refreshScheduler';
+import { DisplayCurrency, DISPLAY_CURRENCIES, loadDisplayCurrency, saveDisplayCurrency, convertUsd, formatCurrencyValue, createFxLookup, calcKimchiPremium } from './services/currency';
+import { ImportResult } from './services/dataTransfer';
+import { ChartRange, ChartSettings, CHART_RANGES, PROJECTION_HORIZONS, loadChartSettings, saveChartSettings } from './services/chartSettings';
+import { loadSnapshots, saveSnapshots, clearSnapshots } from './services/snapshotStore';
+import { backfillSnapshots, formatSnapshotDate } from './services/snapshotScheduler';
+import { getStatusLabel } from './services/marketStatus';
+import { PortfolioTrade, loadTrades, saveTrades, buildPositionSeries } from './services/portfolio';
+import { OnchainDataset, computeMvrvSeries, createMvrvLookup, syncOnchainDataset } from './services/onchainMetrics';
+import { loadEnsembles, saveEnsembles, loadActiveEnsembleId, saveActiveEnsembleId } from './services/ensembleSettings';
+import { fitModelCoefficients, FitMethod } from './services/modelFitting';
+import { ProjectionFan, simulateProjectionFan } from './services/projectionFan';
+import { SNAPSHOT_FLAG_LABELS } from './services/dataQuality';
+import { HalvingSchedule, loadHalvingSchedule, syncHalvingSchedule, getHalvingLabel } from './services/halving';
+import { AssetConfig, AssetId, ASSETS, DEFAULT_ASSET_ID, getAsset, getAssetEvents, loadAssetId, saveAssetId } from './services/assets';
+import { AIAnalysis, MarketData, ModelEnsemble, ModelId, Snapshot } from './types';
 import StageCard from './components/StageCard';
-import { STAGES, CHART_START_DATE } from './constants';
+import EnsembleSettings from './components/EnsembleSettings';
+import BacktestPanel from './components/BacktestPanel';
+import OnchainSettings from './components/OnchainSettings';
+import AlertManager from './components/AlertManager';
+import PortfolioPanel from './components/PortfolioPanel';
+import PlannerPanel from './components/PlannerPanel';
+import DataTransferBar from './components/DataTransferBar';
+import InsightRulesEditor, { SEVERITY_STYLES } from './components/InsightRulesEditor';
+import AnalysisSettingsPanel from './components/AnalysisSettingsPanel';
+import DataHealthPanel, { describeSourceError } from './components/DataHealthPanel';
+import IndicatorHistoryChart, { IndicatorPoint } from './components/IndicatorHistoryChart';
 import { 
-  XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ComposedChart, Line, ReferenceLine, Label
+  XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ComposedChart, Line, Area, ReferenceLine, Label, Brush, type AxisDomainItem
 } from 'recharts';
 
 const COLORS = {
@@ -17,44 +48,62 @@ const COLORS = {
   halving: '#f59e0b',
   riskUp: '#ef4444', 
   riskDown: '#3b82f6', 
+  position: '#0ea5e9',
+  fan: '#6366f1',
+  buy: '#059669',
+  sell: '#e11d48',
 };
 
-const HALVING_DATES = [
-  { date: '2012-11-28', label: '1st Halving' },
-  { date: '2016-07-09', label: '2nd Halving' },
-  { date: '2020-05-11', label: '3rd Halving' },
-  { date: '2024-04-20', label: '4th Halving' },
-  { date: '2028-03-27', label: '5th Halving (Est.)' },
+const MODEL_COLORS: Record<ModelId, string> = {
+  standard: '#7c3aed',
+  decaying: '#0891b2',
+  cycle: '#c026d3',
+  stockToFlow: '#65a30d',
+  rainbow: '#ea580c',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatAge = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 60) return `${minutes}분`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}시간`;
+  return `${Math.floor(hours / 24)}일`;
+};
+
+type ModelMode = 'pinned' | FitMethod;
+
+const MODEL_MODES: { mode: ModelMode; label: string }[] = [
+  { mode: 'pinned', label: 'Pinned' },
+  { mode: 'ols', label: 'OLS' },
+  { mode: 'quantile', label: 'LAD' },
 ];
 
+// 저장된 모델 모드 (알 수 없는 값이면 고정 계수)
+const loadModelMode = (): ModelMode => {
+  const saved = localStorage.getItem('btc_compass_model_mode');
+  return MODEL_MODES.find(m => m.mode === saved)?.mode ?? 'pinned';
+};
+
 const Space = () => <span className="text-[0.6em]">&nbsp;</span>;
 
-interface Snapshot {
-  id: number;
-  date: string;
-  timestamp: number;
-  status: MarketStatus;
-  oscillator: number;
-  fng: number;
-  mvrv: number;
-  price: number;
-  fair: number;
-}
-
-interface DateInsight {
-  time: string;
-  insight: string;
-}
-
-interface AIAnalysis {
-  summary: string;
-  insights: DateInsight[];
-}
-
-const CustomTooltip = ({ active, payload, label }: any) => {
+/**
+ * 표시 통화 금액 (sats는 단위를 뒤에 표기)
+ */
+const FxAmount = ({ value, currency }: { value: number; currency: DisplayCurrency }) => {
+  const info = DISPLAY_CURRENCIES[currency];
+  if (currency === 'SATS') return <>{formatCurrencyValue(value, currency)}<Space /><span className="text-[0.85em] italic opacity-60">{info.symbol}</span></>;
+  return <><span className="text-[0.85em] italic opacity-60">{info.symbol}</span><Space />{formatCurrencyValue(value, currency)}</>;
+};
+
+const CustomTooltip = ({ active, payload, label, convert, currency }: any) => {
   if (active && payload && payload.length) {
     const dateStr = new Date(label).toISOString().split('T')[0];
-    const sortedItems = [...payload].sort((a, b) => (b.value || 0) - (a.value || 0));
+    // 포지션 계열은 값이 있는 날짜만 표시 (가격 공백은 예측 구간 표기)
+    // 팬(범위) 계열은 상단값 기준으로 정렬
+    const sortValue = (item: any) => Array.isArray(item.value) ? item.value[1] : (item.value || 0);
+    const sortedItems = [...payload].filter(item => item.value != null || item.dataKey === 'price').sort((a, b) => sortValue(b) - sortValue(a));
     return (
       <div className="bg-white/95 backdrop-blur-md border border-slate-300 p-3 rounded-xl shadow-2xl text-slate-800 min-w-[180px]">
         <p className="text-xs font-black text-slate-500 uppercase tracking-widest mb-2 border-b border-slate-200 pb-1.5 mono">
@@ -68,16 +117,24 @@ const CustomTooltip = ({ active, payload, label }: any) => {
             if (item.name === "하단 밴드") markerColor = COLORS.lower;
             if (item.name === "시장 가격") markerColor = COLORS.price;
 
+            // 과거 시점은 해당일 환율(sats는 해당일 가격)로 환산
+            const converted = item.value && convert ? convert(item.value, label, item.payload?.price ?? null) : null;
+
             return (
-              <div key={index} className="flex justify-between items-center">
+              <div key={index} className="flex justify-between items-center gap-3">
                 <div className="flex items-center gap-1.5">
                   <div className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: markerColor }}></div>
                   <span className="text-xs font-bold text-slate-600">{item.name}</span>
                 </div>
-                <span className="text-xs font-black mono italic text-slate-900">
-                  {item.value ? (
+                <span className="text-xs font-black mono italic text-slate-900 text-right">
+                  {Array.isArray(item.value) ? (
+                    <>
+                      <span className="opacity-60 text-[0.85em] italic">$</span><Space />{Math.round(item.value[0]).toLocaleString()} ~ {Math.round(item.value[1]).toLocaleString()}
+                    </>
+                  ) : item.value ? (
                     <>
                       <span className="opacity-60 text-[0.85em] italic">$</span><Space />{Math.round(item.value).toLocaleString()}
+                      {converted !== null && <span className="block text-[10px] font-bold text-slate-500"><FxAmount value={converted} currency={currency} /></span>}
                     </>
                   ) : 'PREDICT'}
                 </span>
@@ -96,228 +153,445 @@ const App: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [showHistory, setShowHistory] = useState(false);
   const [history, setHistory] = useState<Snapshot[]>([]);
+  const [historyReady, setHistoryReady] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [aiAnalysis, setAiAnalysis] = useState<AIAnalysis | null>(null);
-  const [expandedDate, setExpandedDate] = useState<string | null>(null);
+  const [expandedTimestamp, setExpandedTimestamp] = useState<number | null>(null);
   const [isMounted, setIsMounted] = useState(false); 
+  const [modelMode, setModelMode] = useState<ModelMode>(loadModelMode);
+  const [ensembles, setEnsembles] = useState<ModelEnsemble[]>(loadEnsembles);
+  const [activeEnsembleId, setActiveEnsembleId] = useState<string>(loadActiveEnsembleId);
+  const [showEnsembleSettings, setShowEnsembleSettings] = useState(false);
+  const [alertLog, setAlertLog] = useState<AlertEvent[]>(loadAlertLog);
+  const [showAlerts, setShowAlerts] = useState(false);
+  const [onchainDataset, setOnchainDataset] = useState<OnchainDataset | null>(null);
+  const [showOnchainSettings, setShowOnchainSettings] = useState(false);
+  const [refreshMinutes, setRefreshMinutes] = useState<number>(() => parseInt(localStorage.getItem('btc_compass_refresh_minutes') || '0') || 0);
+  const [liveMode, setLiveMode] = useState(() => localStorage.getItem('btc_compass_live_mode') === '1');
+  const [livePrice, setLivePrice] = useState<number | null>(null);
+  const [streamStatus, setStreamStatus] = useState<StreamStatus>('closed');
+  const [trades, setTrades] = useState<PortfolioTrade[]>(loadTrades);
+  const [displayCurrency, setDisplayCurrency] = useState<DisplayCurrency>(loadDisplayCurrency);
+  const [chartSettings, setChartSettings] = useState<ChartSettings>(loadChartSettings);
+  const [customRange, setCustomRange] = useState<{ startIndex: number; endIndex: number } | null>(null);
+  const [halvingSchedule, setHalvingSchedule] = useState<HalvingSchedule>(loadHalvingSchedule);
+  const [projectionFan, setProjectionFan] = useState<ProjectionFan | null>(null);
+  const [insightRules, setInsightRules] = useState<InsightRule[]>(loadInsightRules);
+  const [showInsightRules, setShowInsightRules] = useState(false);
+  const [analysisSettings, setAnalysisSettings] = useState<AnalysisSettings>(loadAnalysisSettings);
+  const [showAnalysisSettings, setShowAnalysisSettings] = useState(false);
+  const [showDataHealth, setShowDataHealth] = useState(false);
+  const [analysisSource, setAnalysisSource] = useState<{ label: string; fallbackReason?: string } | null>(null);
+  const [asset, setAsset] = useState<AssetConfig>(() => getAsset(loadAssetId()));
   
+  // 비동기 조회 완료 시점의 선택 자산 (조회 중 자산이 바뀌면 이전 결과를 버리기 위함)
+  const activeAsset = useRef(asset);
   const lastClearTimestamp = useRef<number>(0);
+  const analysisController = useRef<AbortController | null>(null);
+  const savingSnapshots = useRef(false);
 
-  const init = async () => {
-    setLoading(true);
-    const result = await fetchMarketData();
+  // silent: 자동 새로고침 시 로딩 화면 없이 데이터만 교체
+  const init = async (silent = false) => {
+    if (!silent) setLoading(true);
+    const target = activeAsset.current;
+    const result = await fetchMarketData(target);
+    // 조회 중 자산이 바뀌었으면 이전 자산의 결과는 버림
+    if (target !== activeAsset.current) return;
     setData(result);
     setLoading(false);
   };
 
+  const loadHistory = (target: AssetConfig) => {
+    setHistoryReady(false);
+    loadSnapshots(target.id).then(snapshots => {
+      if (target !== activeAsset.current) return;
+      setHistory(snapshots);
+      setHistoryReady(true);
+    });
+  };
+
   useEffect(() => { 
     init();
+    syncOnchainDataset().then(setOnchainDataset);
+    syncHalvingSchedule().then(setHalvingSchedule);
     setTimeout(() => setIsMounted(true), 150);
-    const saved = localStorage.getItem('btc_compass_history');
-    if (saved) {
-      try {
-        setHistory(JSON.parse(saved));
-      } catch (e) {
-        setHistory([]);
-      }
-    }
+    loadHistory(activeAsset.current);
   }, []);
 
-  const calculateIndicators = (price: number, date: Date, fng: number) => {
-    const model = getModelValues(date);
-    const oscillator = price > 0 ? Math.log(price / model.weighted) : 0;
-    const priceRisk = Math.max(0, Math.min(100, ((oscillator + 0.5) / 1.0) * 100));
-    const mvrvEst = (oscillator * 6.5) + 2.5;
-    const riskPercent = (priceRisk * 0.6) + (fng * 0.2) + ((Math.max(0, Math.min(100, (mvrvEst / 6) * 100))) * 0.2);
+  // 주기적 자동 새로고침
+  useEffect(() => {
+    if (refreshMinutes <= 0) return;
+    const scheduler = createRefreshScheduler(() => init(true), refreshMinutes * 60000);
+    return () => scheduler.stop();
+  }, [refreshMinutes]);
+
+  // 실시간 체결가 스트림: 현재가만 갱신하며 캔들(history)은 다시 받지 않음
+  useEffect(() => {
+    if (!liveMode) {
+      setLivePrice(null);
+      return;
+    }
+    const stream = createPriceStream({
+      url: getStreamUrl(asset.markets.binance),
+      parse: parseBinanceTrade,
+      onPrice: setLivePrice,
+      onStatus: setStreamStatus,
+    });
+    return () => stream.stop();
+  }, [liveMode, asset]);
+
+  const changeRefreshMinutes = (minutes: number) => {
+    localStorage.setItem('btc_compass_refresh_minutes', String(minutes));
+    setRefreshMinutes(minutes);
+  };
 
-    let status = MarketStatus.STABLE;
-    if (riskPercent < 35) status = MarketStatus.ACCUMULATE;
-    else if (riskPercent > 70) status = MarketStatus.SELL;
+  // 자산 전환: 시세와 스냅샷 로그를 해당 자산 것으로 다시 불러옴
+  const changeAsset = (id: AssetId) => {
+    const next = getAsset(id);
+    saveAssetId(next.id);
+    activeAsset.current = next;
+    setAsset(next);
+    analysisController.current?.abort();
+    setData(null);
+    setHistory([]);
+    setAiAnalysis(null);
+    setAnalysisSource(null);
+    setExpandedTimestamp(null);
+    setProjectionFan(null);
+    setCustomRange(null);
+    setLivePrice(null);
+    init();
+    loadHistory(next);
+  };
 
-    return { model, oscillator, mvrvEst, status, riskPercent };
+  const toggleLiveMode = () => {
+    localStorage.setItem('btc_compass_live_mode', liveMode ? '0' : '1');
+    setLiveMode(!liveMode);
   };
 
-  const formatDate = (date: Date) => {
-    const m = date.getMonth() + 1;
-    const d = date.getDate();
-    const h = date.getHours();
-    return `${m}.${d}.${h}h`;
+  const currentPrice = livePrice ?? data?.currentPrice ?? 0;
+
+  // 고정 계수 또는 로드된 history 기반 적합 계수
+  const modelFit = useMemo(() => {
+    if (modelMode === 'pinned' || !data || data.history.length === 0) return null;
+    try {
+      return fitModelCoefficients(asset, data.history, { method: modelMode });
+    } catch (e) {
+      console.warn("Model fit failed:", e);
+      return null;
+    }
+  }, [data, modelMode, asset]);
+
+  const coefficients = modelFit?.coefficients ?? asset.coefficients;
+  const assetModels = getAssetModels(asset);
+  // 알림 규칙과 보유 포지션은 기본 자산(BTC) 기준으로만 관리
+  const isDefaultAsset = asset.id === DEFAULT_ASSET_ID;
+  // sats 환산은 BTC 가격 기준이므로 다른 자산에서는 기본 표시 통화로 대체
+  const currency: DisplayCurrency = displayCurrency === 'SATS' && !isDefaultAsset ? 'KRW' : displayCurrency;
+
+  const changeModelMode = (mode: ModelMode) => {
+    localStorage.setItem('btc_compass_model_mode', mode);
+    setModelMode(mode);
   };
 
+  const activeEnsemble = ensembles.find(e => e.id === activeEnsembleId) || ensembles[0];
+  const weights = activeEnsemble.weights;
+
+  const selectEnsemble = (id: string) => {
+    saveActiveEnsembleId(id);
+    setActiveEnsembleId(id);
+  };
+
+  const saveEnsemble = (ensemble: ModelEnsemble) => {
+    const next = ensembles.some(e => e.id === ensemble.id)
+      ? ensembles.map(e => e.id === ensemble.id ? ensemble : e)
+      : [...ensembles, ensemble];
+    saveEnsembles(next);
+    setEnsembles(next);
+    selectEnsemble(ensemble.id);
+  };
+
+  const deleteEnsemble = (id: string) => {
+    const next = ensembles.filter(e => e.id !== id);
+    saveEnsembles(next);
+    setEnsembles(next);
+    if (id === activeEnsembleId) selectEnsemble(next[0].id);
+  };
+
+  const runAlerts = (contexts: AlertContext[]) => {
+    if (contexts.length === 0 || !isDefaultAsset) return;
+    const events = processAlerts(contexts);
+    if (events.length === 0) return;
+    events.forEach(deliverAlert);
+    setAlertLog(loadAlertLog());
+  };
+
+  const changeDisplayCurrency = (currency: DisplayCurrency) => {
+    saveDisplayCurrency(currency);
+    setDisplayCurrency(currency);
+  };
+
+  const updateChartSettings = (patch: Partial<ChartSettings>) => {
+    const next = { ...chartSettings, ...patch };
+    saveChartSettings(next);
+    setChartSettings(next);
+  };
+
+  const selectChartRange = (range: ChartRange) => {
+    setCustomRange(null);
+    updateChartSettings({ range });
+  };
+
+  const toggleChartModel = (id: ModelId) => {
+    const models = chartSettings.models.includes(id) ? chartSettings.models.filter(m => m !== id) : [...chartSettings.models, id];
+    updateChartSettings({ models });
+  };
+
+  const handleTradesChange = (next: PortfolioTrade[]) => {
+    saveTrades(next);
+    setTrades(loadTrades());
+  };
+
+  const handleClearAlertLog = () => {
+    clearAlertLog();
+    setAlertLog([]);
+  };
+
+  // 실측 MVRV Z-Score (온체인 데이터가 없거나 오래되면 null → 추정치 사용)
+  const mvrvLookup = useMemo(() => {
+    const series = asset.onchain && onchainDataset && data ? computeMvrvSeries(onchainDataset.points, data.history) : [];
+    return createMvrvLookup(series);
+  }, [onchainDataset, data, asset]);
+
   const stats = useMemo(() => {
     if (!data) return null;
-    return calculateIndicators(data.currentPrice, new Date(), data.fngValue);
-  }, [data]);
+    return calculateIndicators(asset, currentPrice, new Date(), data.fngValue, coefficients, weights, mvrvLookup(new Date().toISOString()), halvingSchedule);
+  }, [data, currentPrice, coefficients, weights, mvrvLookup, halvingSchedule, asset]);
 
-  // 로컬 알고리즘 기반 퀀트 분석 엔진
-  const runLocalQuantAnalysis = (historyData: Snapshot[]) => {
-    if (historyData.length < 1) return;
-    setIsAnalyzing(true);
-    
-    setTimeout(() => {
-      const latest = historyData[0];
-      const prev = historyData.length > 1 ? historyData[1] : null;
-      const oldest = historyData[Math.min(historyData.length - 1, 5)];
-
-      // 1. 흐름 및 정적 상태 분석
-      let summary = "";
-      
-      if (latest.oscillator > 0.4) {
-        summary = "경고: 현재 가격이 모델 상단 임계치에 도달했습니다. 역사적으로 이 구간은 강력한 매도 압력이 발생하는 '과열 국면'입니다. 신규 진입보다는 리스크 관리에 집중해야 할 시점입니다.";
-      } else if (latest.oscillator < -0.4) {
-        summary = "기회: 시장이 통계적 저점 구간에 진입했습니다. 공포 지수가 높고 모델 하단에 위치한 현재 상태는 장기 투자자에게 '매집의 최적기'임을 시사합니다. 분할 매수 전략이 유효합니다.";
-      } else if (prev) {
-        // 데이터가 2개 이상일 때 추세 분석
-        const oscDelta = latest.oscillator - prev.oscillator;
-        const fngDelta = latest.fng - prev.fng;
-        const mvrvDelta = latest.mvrv - prev.mvrv;
-        const trend = oscDelta + (fngDelta / 100) + (mvrvDelta / 5);
-
-        if (trend > 0.05) {
-          summary = `추세 상승: 주요 지표들이 동반 우상향하며 긍정적인 모멘텀을 형성하고 있습니다. 가격이 적정 가치(${Math.round(latest.fair).toLocaleString()})를 상회하려는 시도가 관찰되며, 투심 회복에 따른 추가 상승 가능성이 높습니다.`;
-        } else if (trend < -0.05) {
-          summary = `추세 둔화: 지표의 단기 하락 전환이 관찰됩니다. 시장의 열기가 식어가는 과정이며, 지지선 확인을 위한 조정 가능성이 존재합니다. 무리한 추격 매수보다는 관망하며 가격 안착을 확인하십시오.`;
-        } else {
-          summary = "균형 유지: 시장이 뚜렷한 방향성 없이 적정 가치 궤도 내에서 안정적으로 움직이고 있습니다. 큰 변동성보다는 박스권 흐름이 예상되며, 지표의 급격한 변화를 주시하며 평단가 관리에 힘쓰십시오.";
-        }
-      } else {
-        // 데이터가 1개뿐일 때 정적 상태 분석
-        summary = `스냅샷 분석: 현재 비트코인은 적정 가치(${Math.round(latest.fair).toLocaleString()}) 대비 약 ${Math.abs(Math.round((latest.price / latest.fair - 1) * 100))}% ${latest.price > latest.fair ? '상회' : '하회'} 중입니다. 뚜렷한 추세 형성을 판단하기 위해 추가 로그 기록이 필요하지만, 현재 위치는 통계적으로 '평균 회귀' 가능성이 있는 구간입니다.`;
-      }
+  // 과거 시점의 심리 지수: 지수 발표 이전은 중립(50), 스냅샷은 시계열이 없을 때만 현재 값 사용
+  const historicalFng = useMemo(() => createFngLookup(data?.fngHistory ?? []), [data]);
+  const fxLookup = useMemo(() => createFxLookup(data?.fxHistory ?? [], data?.fxRates ?? {}), [data]);
+  const convertHistorical = (usd: number, timestamp: number, btcPrice: number | null) =>
+    convertUsd(usd, currency, fxLookup(new Date(timestamp).toISOString()), btcPrice);
+  const snapshotFng = useMemo(() => createFngLookup(data?.fngHistory ?? [], data?.fngValue), [data]);
 
-      // 3. 개별 시점 인사이트 생성
-      const insights: DateInsight[] = historyData.map((h, i) => {
-        const nextH = historyData[i + 1];
-        if (!nextH) {
-          // 마지막 로그(또는 유일한 로그)에 대한 상태 코멘트
-          if (h.fng > 70) return { time: h.date, insight: "극단적 탐욕 구간입니다. 가격 상승세가 강력하나 단기 조정에 주의하십시오." };
-          if (h.fng < 30) return { time: h.date, insight: "극심한 공포가 지배하는 구간입니다. 역발상적 관점에서 매수 기회를 검토할 수 있습니다." };
-          return { time: h.date, insight: "지표가 중립 범위에 머물고 있습니다. 시장의 방향성이 결정되기를 기다리는 시기입니다." };
-        }
-        
-        const dOsc = h.oscillator - nextH.oscillator;
-        const dFng = h.fng - nextH.fng;
-        
-        let msg = "";
-        if (Math.abs(dOsc) < 0.01 && Math.abs(dFng) < 2) msg = "지표가 정체 상태이며 에너지를 응축 중입니다.";
-        else if (dOsc > 0 && dFng > 0) msg = "가격 회복과 투심 개선이 동시에 나타나는 긍정적 신호입니다.";
-        else if (dOsc < 0 && dFng < 0) msg = "가격 이탈과 공포 확산이 관찰되는 리스크 확대 구간입니다.";
-        else if (dOsc > 0 && dFng < 0) msg = "가격은 오르나 투심은 위축된 '약세 다이버전스' 가능성이 있습니다.";
-        else msg = "시장 내 매수-매도세가 팽팽하게 맞서며 변동성을 준비하고 있습니다.";
-        
-        return { time: h.date, insight: msg };
-      });
+  // 스냅샷 로그 분석 (기본 로컬 규칙 엔진, 원격 백엔드는 실패 시 로컬로 대체). 새 요청이 이전 요청을 중단
+  const runSnapshotAnalysis = async (historyData: Snapshot[], rules: InsightRule[] = insightRules, settings: AnalysisSettings = analysisSettings) => {
+    if (historyData.length < 1 || !stats) return;
+    analysisController.current?.abort();
+    const controller = new AbortController();
+    analysisController.current = controller;
+    const provider = createAnalysisProvider(settings);
+    if (provider.id !== 'local') {
+      setAiAnalysis(null);
+      setIsAnalyzing(true);
+    }
+    try {
+      const outcome = await runAnalysis({ asset, snapshots: historyData, model: stats.model, rules }, provider, { timeoutMs: settings.timeoutMs, signal: controller.signal });
+      setAiAnalysis(outcome.analysis);
+      setAnalysisSource({ label: outcome.label, fallbackReason: outcome.fallbackReason });
+    } catch (e) {
+      if (!controller.signal.aborted) console.error("Snapshot analysis failed:", e);
+    } finally {
+      if (analysisController.current === controller) setIsAnalyzing(false);
+    }
+  };
+
+  const handleInsightRulesChange = (rules: InsightRule[]) => {
+    setInsightRules(rules);
+    runSnapshotAnalysis(history, rules);
+  };
 
-      setAiAnalysis({ summary, insights });
-      setIsAnalyzing(false);
-    }, 400);
+  const handleAnalysisSettingsChange = (settings: AnalysisSettings) => {
+    setAnalysisSettings(settings);
+    runSnapshotAnalysis(history, insightRules, settings);
   };
 
   useEffect(() => {
-    if (showHistory && history.length >= 1 && !aiAnalysis) {
-      runLocalQuantAnalysis(history);
+    if (showHistory && history.length >= 1 && !aiAnalysis && !isAnalyzing) {
+      runSnapshotAnalysis(history);
     }
   }, [showHistory, history]);
 
+  // 스냅샷 백필과 알림은 시세 조회(data)마다 한 번만 실행 (실시간 체결가로 stats가 바뀔 때마다 실행하지 않음)
   useEffect(() => {
-    if (data && stats && data.intraday.length > 0) {
+    if (data && stats && historyReady && data.intraday.length > 0) {
       const now = Date.now();
       if (now - lastClearTimestamp.current < 60000) return;
+      // 이전 저장이 끝나기 전이면 history[0]이 갱신되지 않았으므로 건너뜀 (다음 조회 때 채움)
+      if (savingSnapshots.current) return;
 
-      const LOG_INTERVAL = 4 * 60 * 60 * 1000; 
-      const savedHistory = localStorage.getItem('btc_compass_history');
-      let updated: Snapshot[] = [];
-      try { updated = savedHistory ? JSON.parse(savedHistory) : []; } catch(e) { updated = []; }
-      
-      const lastEntry = updated[0];
-      const backfilledLogs: Snapshot[] = [];
-      
-      const startTimeForBackfill = lastEntry ? lastEntry.timestamp : (now - 4 * 60 * 60 * 1000);
-      let cursor = startTimeForBackfill;
-
-      while (true) {
-        cursor += LOG_INTERVAL;
-        if (cursor > now) break;
-
-        const closestPoint = data.intraday.reduce((prev, curr) => {
-          const prevDiff = Math.abs(new Date(prev.date).getTime() - cursor);
-          const currDiff = Math.abs(new Date(curr.date).getTime() - cursor);
-          return currDiff < prevDiff ? curr : prev;
-        });
-
-        const isRecent = Math.abs(new Date(closestPoint.date).getTime() - cursor) < 3600000;
-        const targetPrice = isRecent ? closestPoint.price : data.currentPrice;
-        const targetDate = new Date(cursor);
-        const s = calculateIndicators(targetPrice, targetDate, data.fngValue);
-
-        backfilledLogs.push({
-          id: cursor,
-          timestamp: cursor,
-          date: formatDate(targetDate),
-          status: s.status,
-          oscillator: s.oscillator,
-          fng: data.fngValue,
-          mvrv: s.mvrvEst,
-          price: targetPrice,
-          fair: s.model.weighted
-        });
-      }
+      // 마지막 스냅샷 이후 4시간 슬롯을 채움 (가격이 없는 슬롯은 건너뜀)
+      const { snapshots: backfilledLogs, alertContexts } = backfillSnapshots({
+        asset,
+        lastTimestamp: history[0]?.timestamp ?? null,
+        prices: { intraday: data.intraday, history: data.history, currentPrice, now, health: data.health },
+        fngAt: snapshotFng,
+        mvrvAt: mvrvLookup,
+        coef: coefficients,
+        weights,
+        halvings: halvingSchedule
+      });
+
+      // 스냅샷 시점마다 알림 규칙 평가 (시간순, 캐시·대체 데이터는 제외)
+      if (!data.stale && data.dataSource !== 'Fallback') runAlerts(alertContexts);
 
       if (backfilledLogs.length > 0) {
-        const finalHistory = [...backfilledLogs.reverse(), ...updated].slice(0, 100);
-        localStorage.setItem('btc_compass_history', JSON.stringify(finalHistory));
-        setHistory(finalHistory);
+        const target = asset;
+        savingSnapshots.current = true;
+        saveSnapshots(history, backfilledLogs, target.id)
+          .then(next => { if (target === activeAsset.current) setHistory(next); })
+          .finally(() => { savingSnapshots.current = false; });
       }
     }
-  }, [data, stats]);
+  }, [data, historyReady]);
+
+  // 새로고침마다 현재 시점으로 알림 규칙 평가 (스냅샷 평가 이후 실행되도록 선언 순서 유지)
+  useEffect(() => {
+    if (!data || !stats || data.stale || data.dataSource === 'Fallback') return;
+    runAlerts([{
+      timestamp: Date.now(),
+      price: currentPrice,
+      fair: stats.model.weighted,
+      upper: stats.model.upper,
+      lower: stats.model.lower,
+      oscillator: stats.oscillator,
+      status: stats.status,
+      fng: data.fngValue
+    }]);
+  }, [data]);
 
   const chartData = useMemo(() => {
     if (!data || !data.history) return [];
-    const historical = data.history.filter(h => new Date(h.date) >= CHART_START_DATE).map(h => {
-      const m = getModelValues(new Date(h.date));
-      return { timestamp: new Date(h.date).getTime(), price: h.price, fair: m.weighted, upper: m.upper, lower: m.lower };
+    // 보유 포지션: 평균 매입가(USD) 및 거래일 매수/매도 체결가(USD)
+    const assetTrades = isDefaultAsset ? trades : [];
+    const avgCostByDate = new Map(buildPositionSeries(assetTrades, data.history).map(p => [p.date, p.avgCost]));
+    const tradeMarks = new Map<string, { buy?: number; sell?: number }>();
+    assetTrades.forEach(t => {
+      const priceUsd = t.currency === 'USD' ? t.price : t.price / t.usdKrw;
+      tradeMarks.set(t.date, { ...tradeMarks.get(t.date), [t.side]: priceUsd });
+    });
+    // 개별 모델 적정가는 model_<id> 키로 포함 (표시 여부는 차트 설정에서 선택)
+    const componentFairs = (m: ReturnType<typeof getModelValues>) =>
+      Object.fromEntries(assetModels.map(def => [`model_${def.id}`, m.components[def.id]!.fair]));
+    // 과거 구간은 일별 지표(오실레이터·리스크·심리·국면)를 함께 계산하여 지표 차트와 공유
+    const historical = data.history.filter(h => new Date(h.date) >= asset.chartStartDate).map(h => {
+      const fng = historicalFng(h.date);
+      const ind = calculateIndicators(asset, h.price, new Date(h.date), fng, coefficients, weights, mvrvLookup(h.date), halvingSchedule);
+      const m = ind.model;
+      return {
+        timestamp: new Date(h.date).getTime(), price: h.price, fair: m.weighted, upper: m.upper, lower: m.lower,
+        ...componentFairs(m), avgCost: avgCostByDate.get(h.date) ?? null, ...tradeMarks.get(h.date),
+        indicator: { oscillator: ind.oscillator, riskPercent: ind.riskPercent, fng, status: ind.status }
+      };
     });
     const lastDate = new Date(data.history[data.history.length-1].date);
     const predictions = [];
-    for(let i=1; i<=365; i++) {
+    for(let i=1; i<=chartSettings.horizonDays; i++) {
       const futureDate = new Date(lastDate);
       futureDate.setDate(futureDate.getDate() + i);
-      const m = getModelValues(futureDate);
-      predictions.push({ timestamp: futureDate.getTime(), price: null, fair: m.weighted, upper: m.upper, lower: m.lower });
+      const m = getModelValues(asset, futureDate, coefficients, weights, halvingSchedule);
+      predictions.push({ timestamp: futureDate.getTime(), price: null, fair: m.weighted, upper: m.upper, lower: m.lower, ...componentFairs(m) });
     }
     return [...historical, ...predictions];
-  }, [data]);
+  }, [data, coefficients, weights, trades, chartSettings.horizonDays, historicalFng, mvrvLookup, halvingSchedule, asset]);
+
+  // 차트 표시 이벤트 (BTC 반감기, ETH 네트워크 업그레이드 등)
+  const assetEvents = useMemo(() => getAssetEvents(asset, halvingSchedule.events.map(hv => ({
+    timestamp: hv.timestamp, label: getHalvingLabel(hv), estimated: hv.estimated,
+  }))), [asset, halvingSchedule]);
+
+  const indicatorPoints = useMemo((): IndicatorPoint[] =>
+    chartData.flatMap(p => 'indicator' in p && p.indicator ? [{ timestamp: p.timestamp, ...p.indicator }] : []),
+  [chartData]);
+
+  // 범위 프리셋 → 브러시 인덱스 (예측 구간은 항상 끝까지 포함)
+  const chartWindow = useMemo(() => {
+    const endIndex = Math.max(0, chartData.length - 1);
+    if (chartSettings.range === 'custom' && customRange) {
+      return { startIndex: Math.min(customRange.startIndex, endIndex), endIndex: Math.min(customRange.endIndex, endIndex) };
+    }
+    if (!data || data.history.length === 0 || chartSettings.range === 'all') return { startIndex: 0, endIndex };
+    const lastTs = new Date(data.history[data.history.length - 1].date).getTime();
+    const fromTs = chartSettings.range === '1y'
+      ? lastTs - 365 * DAY_MS
+      : Math.max(0, ...assetEvents.map(ev => ev.timestamp).filter(t => t <= lastTs));
+    const startIndex = Math.max(0, chartData.findIndex(p => p.timestamp >= fromTs));
+    return { startIndex, endIndex };
+  }, [chartData, chartSettings.range, customRange, data, assetEvents]);
 
   const projections = useMemo(() => {
     return [3, 5, 7, 10, 15].map(y => {
       const d = new Date(); d.setFullYear(d.getFullYear() + y);
-      const m = getModelValues(d);
-      return { label: `${y}Y`, date: d.toISOString().split('T')[0], ...m };
+      const m = getModelValues(asset, d, coefficients, weights, halvingSchedule);
+      return { label: `${y}Y`, date: d.toISOString().split('T')[0], timestamp: d.getTime(), ...m };
     });
-  }, []);
+  }, [coefficients, weights, halvingSchedule, asset]);
+
+  // 몬테카를로 전망 팬: 마지막 일봉 기준으로 Worker에서 시뮬레이션 (실시간 가격 변동에는 재계산하지 않음)
+  useEffect(() => {
+    if (!data || data.history.length === 0 || indicatorPoints.length === 0) return;
+    let cancelled = false;
+    const startDate = new Date(data.history[data.history.length - 1].date);
+    simulateProjectionFan({
+      asset,
+      residuals: indicatorPoints.map(p => ({ timestamp: p.timestamp, residual: p.oscillator })),
+      startDate,
+      chartHorizonDays: chartSettings.horizonDays,
+      targetDays: projections.map(p => Math.round((p.timestamp - startDate.getTime()) / DAY_MS)),
+      coef: coefficients,
+      weights,
+      halvings: halvingSchedule,
+    }).then(fan => { if (!cancelled) setProjectionFan(fan); });
+    return () => { cancelled = true; };
+  }, [indicatorPoints, projections, chartSettings.horizonDays]);
+
+  const fanByDay = useMemo(() => new Map((projectionFan?.points ?? []).map(p => [p.day, p])), [projectionFan]);
+
+  // 차트 행에 팬 범위를 병합 (예측 구간 i일차 = 팬 i일차, 마지막 일봉에서 시작)
+  const chartRows = useMemo(() => {
+    if (!chartSettings.showFan || fanByDay.size === 0) return chartData;
+    const base = chartData.findIndex(p => p.price === null) - 1;
+    if (base < 0) return chartData;
+    return chartData.map((row, i) => {
+      if (i === base && row.price !== null) return { ...row, fanOuter: [row.price, row.price], fanInner: [row.price, row.price], fanMedian: row.price };
+      const fan = fanByDay.get(i - base);
+      if (!fan) return row;
+      return { ...row, fanOuter: [fan.prices[5], fan.prices[95]], fanInner: [fan.prices[25], fan.prices[75]], fanMedian: fan.prices[50] };
+    });
+  }, [chartData, fanByDay, chartSettings.showFan]);
+
+  // 보이는 구간·표시 중인 계열 기준 Y축 범위
+  const yDomain = useMemo((): [AxisDomainItem, AxisDomainItem] => {
+    const keys = ['price', 'fair', 'upper', 'lower', 'avgCost', 'fanOuter', ...chartSettings.models.map(id => `model_${id}`)];
+    let min = Infinity;
+    let max = -Infinity;
+    chartRows.slice(chartWindow.startIndex, chartWindow.endIndex + 1).forEach((p: Record<string, any>) => {
+      keys.flatMap(k => p[k]).forEach(v => {
+        if (typeof v !== 'number' || !(v > 0)) return;
+        if (v < min) min = v;
+        if (v > max) max = v;
+      });
+    });
+    if (!Number.isFinite(min)) return ['auto', 'auto'];
+    return chartSettings.scale === 'log' ? [min / 1.2, max * 1.2] : [0, max * 1.05];
+  }, [chartRows, chartWindow, chartSettings.models, chartSettings.scale]);
 
-  const getStatusLabel = (status: MarketStatus) => {
-    if (status === MarketStatus.ACCUMULATE) return { 
-      text: '저평가 매집 국면', 
-      desc: '통계적 저점 형성 및 매집 우위 구간', 
-      headline: '가치 하단 임계점 진입: 장기 관점의 분할 매수가 통계적으로 유리한 구간입니다.', 
-      color: 'text-emerald-400', 
-      bg: 'bg-emerald-500/10' 
-    };
-    if (status === MarketStatus.SELL) return { 
-      text: '고평가 과열 국면', 
-      desc: '심리적 과열 및 리스크 관리 구간', 
-      headline: '가치 상단 임계점 진입: 과열된 심리에 따른 변동성 확대가 우려됩니다.', 
-      color: 'text-rose-400', 
-      bg: 'bg-rose-500/10' 
-    };
-    return { 
-      text: '가치 균형 구간', 
-      desc: '중립적 추세 유지 및 관망 구간', 
-      headline: '모델 균형 가격대 안착: 적정 가치 궤도 내에서의 안정적 움직임이 예상됩니다.', 
-      color: 'text-amber-400', 
-      bg: 'bg-amber-500/10' 
-    };
+  // 가져온 스냅샷/알림 반영 및 설정 재적용
+  const handleImported = (result: ImportResult) => {
+    setHistory(result.snapshots);
+    setAiAnalysis(null);
+    setAlertLog(loadAlertLog());
+    if (result.settingsApplied === 0) return;
+    setModelMode(loadModelMode());
+    setEnsembles(loadEnsembles());
+    setActiveEnsembleId(loadActiveEnsembleId());
+    setDisplayCurrency(loadDisplayCurrency());
+    setChartSettings(loadChartSettings());
+    setInsightRules(loadInsightRules());
+    setAnalysisSettings(loadAnalysisSettings());
+    setRefreshMinutes(parseInt(localStorage.getItem('btc_compass_refresh_minutes') || '0') || 0);
+    setLiveMode(localStorage.getItem('btc_compass_live_mode') === '1');
   };
 
   const clearHistory = (e: React.MouseEvent) => {
@@ -325,32 +599,43 @@ const App: React.FC = () => {
     e.stopPropagation();
     if (window.confirm('모든 로그 기록을 삭제하시겠습니까?')) {
       lastClearTimestamp.current = Date.now();
-      localStorage.removeItem('btc_compass_history');
+      clearSnapshots(asset.id);
       setHistory([]);
       setAiAnalysis(null);
-      setExpandedDate(null);
+      setExpandedTimestamp(null);
     }
   };
 
-  const renderPriceWithKrw = (usd: number, colorClass: string = "text-white") => {
+  const fxFallback = data?.sources.fx === 'Fallback';
+
+  const renderPriceWithFx = (usd: number, colorClass: string = "text-white") => {
     if (!data) return null;
-    const krw = Math.round(usd * data.usdKrw);
+    const converted = convertUsd(usd, currency, data.fxRates, currentPrice);
     return (
       <div className="flex flex-col items-end">
         <p className={`mono font-black italic ${colorClass} text-nowrap`}>
           <span className="opacity-60 text-[0.85em] italic">$</span><Space />{Math.round(usd).toLocaleString()}
         </p>
-        <p className="text-[12px] text-slate-500 font-bold opacity-70 mono italic whitespace-nowrap mt-0.5">
-          <span className="text-[0.85em] italic">₩</span><Space />{krw.toLocaleString()}
-        </p>
+        {converted !== null && (
+          <p className={`text-[12px] font-bold opacity-70 mono italic whitespace-nowrap mt-0.5 ${fxFallback ? 'text-amber-500' : 'text-slate-500'}`} title={fxFallback ? '대체 환율 적용' : undefined}>
+            <FxAmount value={converted} currency={currency} />{fxFallback && '*'}
+          </p>
+        )}
       </div>
     );
   };
 
   if (loading || !data || !stats) return <div className="min-h-screen flex items-center justify-center bg-slate-950 text-amber-500 font-black uppercase tracking-widest animate-pulse">Synchronizing...</div>;
 
-  const deviationKrw = (data.currentPrice - stats.model.weighted) * data.usdKrw;
+  const recentAlertCount = alertLog.filter(ev => Date.now() - ev.timestamp < 24 * 60 * 60 * 1000).length;
+  // SATS 표시는 가격 자체가 항상 1억 sats이므로 1 USD당 sats(모스크바 타임)를 표시
+  const heroSecondary = convertUsd(currency === 'SATS' ? 1 : currentPrice, currency, data.fxRates, currentPrice);
+  const deviation = convertUsd(currentPrice - stats.model.weighted, currency, data.fxRates, currentPrice);
+  const kimchiPremium = data.krwSpot !== null ? calcKimchiPremium(data.krwSpot, currentPrice, data.usdKrw) : null;
   const label = getStatusLabel(stats.status);
+  const fatalErrors = data.errors.filter(e => e.fatal);
+  const dataErrors = data.health.issues.filter(issue => issue.level === 'error').length + fatalErrors.length;
+  const healthCount = data.health.issues.length + data.errors.length;
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-300 font-sans text-left relative overflow-x-hidden">
@@ -359,18 +644,34 @@ const App: React.FC = () => {
           <div className="bg-slate-900 w-full max-w-6xl max-h-[95vh] rounded-[2rem] border border-white/10 flex flex-col overflow-hidden shadow-2xl" onClick={e => e.stopPropagation()}>
             <div className="px-5 py-5 border-b border-white/5 flex justify-between items-center bg-slate-900/50">
               <h3 className="text-base font-black italic uppercase tracking-widest text-white">Neural Snapshot Log</h3>
-              <button onClick={() => setShowHistory(false)} className="p-2 hover:bg-white/5 rounded-full transition-colors active:scale-90">
-                <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"></path></svg>
-              </button>
+              <div className="flex items-center gap-2">
+                <button onClick={() => setShowAnalysisSettings(true)} className="px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-white/5 text-indigo-400 hover:bg-white/10 transition-colors active:scale-95">Engine</button>
+                <button onClick={() => setShowInsightRules(true)} className="px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-white/5 text-indigo-400 hover:bg-white/10 transition-colors active:scale-95">Insight Rules</button>
+                <button onClick={() => setShowHistory(false)} className="p-2 hover:bg-white/5 rounded-full transition-colors active:scale-90">
+                  <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"></path></svg>
+                </button>
+              </div>
             </div>
             <div className="flex-1 overflow-y-auto px-1 md:px-4 py-6 custom-scrollbar">
               {aiAnalysis ? (
                 <div className="mb-8 bg-indigo-500/10 border border-indigo-500/30 rounded-3xl p-6 text-[14px] md:text-[15px] leading-relaxed italic text-indigo-100 shadow-2xl mx-1">
                   <div className="flex items-center gap-2 mb-4">
                     <span className="w-2.5 h-2.5 bg-indigo-400 rounded-full animate-pulse"></span>
-                    <span className="font-black uppercase tracking-widest text-indigo-400 text-[11px]">Edge Quant Strategy Synthesis (Local Engine)</span>
+                    <span className="font-black uppercase tracking-widest text-indigo-400 text-[11px]">Edge Quant Strategy Synthesis ({analysisSource?.label ?? 'Local Engine'})</span>
+                    {aiAnalysis.severity && <span className={`px-2 py-0.5 rounded-md not-italic text-[10px] font-black uppercase tracking-widest ${SEVERITY_STYLES[aiAnalysis.severity]}`}>{aiAnalysis.severity}</span>}
                   </div>
+                  {analysisSource?.fallbackReason && (
+                    <p className="mb-3 not-italic text-[11px] font-bold text-amber-500/80 break-all" title={analysisSource.fallbackReason}>원격 분석 실패로 로컬 엔진 결과를 표시합니다 · {analysisSource.fallbackReason}</p>
+                  )}
                   <div className="whitespace-pre-line leading-relaxed">{aiAnalysis.summary}</div>
+                  {aiAnalysis.trends && Object.keys(aiAnalysis.trends).length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-4 not-italic">
+                      {TREND_WINDOWS.filter(w => aiAnalysis.trends?.[w] !== undefined).map(w => {
+                        const v = aiAnalysis.trends![w]!;
+                        return <span key={w} className={`px-2 py-0.5 rounded-md bg-black/20 text-[11px] font-black mono ${v > 0 ? 'text-rose-400' : v < 0 ? 'text-sky-400' : 'text-slate-400'}`}>{w.toUpperCase()} {v >= 0 ? '+' : ''}{v.toFixed(3)}</span>;
+                      })}
+                    </div>
+                  )}
                 </div>
               ) : (
                 <div className="mb-8 mx-1">
@@ -396,8 +697,10 @@ const App: React.FC = () => {
                 {history.length === 0 ? <div className="py-24 text-center opacity-20 text-[12px] uppercase font-black tracking-widest italic">No Data</div> : 
                   history.map((h, idx) => {
                     const hStyle = getStatusLabel(h.status);
-                    const insight = aiAnalysis?.insights.find(i => i.time === h.date)?.insight;
-                    const isExpanded = expandedDate === h.date;
+                    const insightEntry = aiAnalysis?.insights.find(i => i.timestamp === h.timestamp);
+                    const insight = insightEntry?.insight;
+                    const isExpanded = expandedTimestamp === h.timestamp;
+                    const dateLabel = formatSnapshotDate(new Date(h.timestamp));
                     const devVal = h.price - h.fair;
                     const nextH = history[idx + 1];
 
@@ -414,11 +717,14 @@ const App: React.FC = () => {
                         <div 
                           onClick={(e) => {
                              e.preventDefault();
-                             if (insight) setExpandedDate(isExpanded ? null : h.date);
+                             if (insight) setExpandedTimestamp(isExpanded ? null : h.timestamp);
                           }} 
                           className={`grid grid-cols-[1.1fr_1.8fr_1fr_0.8fr_0.8fr_0.8fr] md:grid-cols-[1.5fr_3fr_2fr_1.5fr_1fr_2fr] gap-0.5 md:gap-1 px-1 md:px-3 py-5 rounded-2xl text-[10px] md:text-[11px] items-center transition-all cursor-pointer select-none active:bg-white/20 touch-manipulation border border-transparent ${isExpanded ? 'bg-white/10 border-white/10 ring-1 ring-white/10 shadow-lg' : 'hover:bg-white/5'}`}
                         >
-                          <div className="font-bold mono text-slate-400 whitespace-nowrap pl-0.5">{h.date}</div>
+                          <div className="font-bold mono text-slate-400 whitespace-nowrap pl-0.5">
+                            {dateLabel}
+                            {h.flags && <span className="ml-1 text-amber-500 font-black" title={h.flags.map(f => SNAPSHOT_FLAG_LABELS[f]).join('\n')}>!</span>}
+                          </div>
                           <div className="text-center"><span className={`px-1 py-0.5 rounded-md font-black text-[7.5px] md:text-[9px] ${hStyle.bg} ${hStyle.color} tracking-tighter uppercase whitespace-nowrap`}>{hStyle.text}</span></div>
                           <div className="text-right mono italic" style={{ color: getIndicatorColor(devVal, nextH ? (nextH.price - nextH.fair) : undefined, 'dev') }}>{devVal >= 0 ? '+' : ''}{Math.round(devVal).toLocaleString()}</div>
                           <div className="text-right mono" style={{ color: getIndicatorColor(h.oscillator, nextH?.oscillator, 'osc') }}>{h.oscillator.toFixed(2)}</div>
@@ -429,7 +735,8 @@ const App: React.FC = () => {
                           <div className="px-4 py-5 bg-indigo-500/10 border-l-4 border-indigo-500 mt-1 mb-4 text-[13px] md:text-[14px] text-indigo-200 font-bold italic leading-relaxed animate-in fade-in slide-in-from-top-2 duration-300 rounded-r-xl">
                             <div className="flex items-center gap-2 mb-2">
                                 <svg className="w-3.5 h-3.5 text-indigo-400" fill="currentColor" viewBox="0 0 20 20"><path d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-11a1 1 0 10-2 0v2H7a1 1 0 100 2h2v2a1 1 0 102 0v-2h2a1 1 0 100-2h-2V7z"></path></svg>
-                                <span className="uppercase tracking-widest text-[9px] text-indigo-400 not-italic">Quant Insight for {h.date}</span>
+                                <span className="uppercase tracking-widest text-[9px] text-indigo-400 not-italic">Quant Insight for {dateLabel}</span>
+                                {insightEntry?.severity && <span className={`px-1.5 py-0.5 rounded text-[9px] not-italic uppercase tracking-widest ${SEVERITY_STYLES[insightEntry.severity]}`}>{insightEntry.severity}</span>}
                             </div>
                             {insight}
                           </div>
@@ -440,22 +747,77 @@ const App: React.FC = () => {
                 }
               </div>
             </div>
-            <div className="p-5 bg-slate-950/50 border-t border-white/5 flex justify-between items-center">
+            <div className="p-5 bg-slate-950/50 border-t border-white/5 flex flex-wrap gap-3 justify-between items-center">
               <span className="text-[10px] font-black text-slate-600 uppercase tracking-widest italic tracking-wider">Quant Engine v15.1 (Edge)</span>
+              <DataTransferBar snapshots={history} assetId={asset.id} onImported={handleImported} />
               <button onClick={clearHistory} className="px-5 py-2.5 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-rose-500 transition-all bg-white/5 hover:bg-rose-500/10 rounded-xl border border-white/5 shadow-inner active:scale-95">Clear Logs</button>
             </div>
           </div>
         </div>
       )}
 
+      {showDataHealth && (
+        <DataHealthPanel report={data.health} errors={data.errors} onClose={() => setShowDataHealth(false)} />
+      )}
+
+      {showAnalysisSettings && (
+        <AnalysisSettingsPanel settings={analysisSettings} onChange={handleAnalysisSettingsChange} onClose={() => setShowAnalysisSettings(false)} />
+      )}
+      {showInsightRules && (
+        <InsightRulesEditor onChange={handleInsightRulesChange} onClose={() => setShowInsightRules(false)} />
+      )}
+
+      {showAlerts && (
+        <AlertManager log={alertLog} onClearLog={handleClearAlertLog} onClose={() => setShowAlerts(false)} />
+      )}
+
+      {showOnchainSettings && (
+        <OnchainSettings dataset={onchainDataset} onChange={setOnchainDataset} halvingSchedule={halvingSchedule} onHalvingChange={setHalvingSchedule} onClose={() => setShowOnchainSettings(false)} />
+      )}
+
+      {showEnsembleSettings && (
+        <EnsembleSettings
+          ensembles={ensembles}
+          activeId={activeEnsemble.id}
+          onSelect={selectEnsemble}
+          onSave={saveEnsemble}
+          onDelete={deleteEnsemble}
+          onClose={() => setShowEnsembleSettings(false)}
+        />
+      )}
+
       <header className="max-w-screen-2xl mx-auto px-4 py-3 flex justify-between items-center border-b border-white/5 bg-slate-950/80 backdrop-blur-md sticky top-0 z-50">
         <h1 className="text-lg font-black text-white tracking-tighter italic uppercase flex items-baseline gap-1.5">BIT COMPASS <span className="text-amber-500">PRO</span> <span className="text-[12px] font-bold text-slate-700 tracking-widest not-italic">v15.1</span></h1>
         <div className="flex items-center gap-2">
+          <select value={asset.id} onChange={e => changeAsset(e.target.value as AssetId)} title="Asset" className="px-2 py-1.5 bg-slate-900/50 rounded-xl border border-white/5 text-[11px] font-black uppercase tracking-widest text-slate-400 outline-none">
+            {ASSETS.map(a => <option key={a.id} value={a.id}>{a.id}</option>)}
+          </select>
+          <button onClick={toggleLiveMode} title={liveMode ? `Stream: ${streamStatus}` : 'Live price stream off'} className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-900/50 hover:bg-white/5 rounded-xl border border-white/5 transition-colors active:scale-95">
+            <span className={`w-2 h-2 rounded-full ${!liveMode ? 'bg-slate-700' : streamStatus === 'open' ? 'bg-emerald-400 animate-pulse' : 'bg-amber-500'}`}></span>
+            <span className={`text-[11px] font-black uppercase tracking-widest ${liveMode ? 'text-white' : 'text-slate-400'}`}>Live</span>
+          </button>
+          <select value={currency} onChange={e => changeDisplayCurrency(e.target.value as DisplayCurrency)} title="Display currency" className="px-2 py-1.5 bg-slate-900/50 rounded-xl border border-white/5 text-[11px] font-black uppercase tracking-widest text-slate-400 outline-none">
+            {(Object.keys(DISPLAY_CURRENCIES) as DisplayCurrency[]).filter(c => isDefaultAsset || c !== 'SATS').map(c => <option key={c} value={c}>{DISPLAY_CURRENCIES[c].label}</option>)}
+          </select>
+          <select value={refreshMinutes} onChange={e => changeRefreshMinutes(parseInt(e.target.value))} title="Auto refresh" className="px-2 py-1.5 bg-slate-900/50 rounded-xl border border-white/5 text-[11px] font-black uppercase tracking-widest text-slate-400 outline-none">
+            {REFRESH_INTERVALS.map(i => <option key={i.minutes} value={i.minutes}>{i.minutes === 0 ? 'Auto Off' : `Auto ${i.label}`}</option>)}
+          </select>
+          <button onClick={() => setShowAlerts(true)} className="relative flex items-center gap-1.5 px-3 py-1.5 bg-slate-900/50 hover:bg-white/5 rounded-xl border border-white/5 transition-colors active:scale-95">
+            <svg className="w-4 h-4 text-amber-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9"></path></svg>
+            <span className="text-[11px] font-black uppercase tracking-widest text-slate-400">Alerts</span>
+            {recentAlertCount > 0 && (
+              <span className="absolute -top-1.5 -right-1.5 min-w-[18px] h-[18px] px-1 rounded-full bg-rose-500 text-white text-[10px] font-black flex items-center justify-center">{recentAlertCount}</span>
+            )}
+          </button>
+          <button onClick={() => setShowOnchainSettings(true)} className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-900/50 hover:bg-white/5 rounded-xl border border-white/5 transition-colors active:scale-95">
+            <svg className="w-4 h-4 text-amber-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M4 7c0-1.657 3.582-3 8-3s8 1.343 8 3-3.582 3-8 3-8-1.343-8-3zm0 0v10c0 1.657 3.582 3 8 3s8-1.343 8-3V7m-16 5c0 1.657 3.582 3 8 3s8-1.343 8-3"></path></svg>
+            <span className="text-[11px] font-black uppercase tracking-widest text-slate-400">Chain</span>
+          </button>
           <button onClick={() => setShowHistory(true)} className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-900/50 hover:bg-white/5 rounded-xl border border-white/5 transition-colors active:scale-95">
             <svg className="w-4 h-4 text-amber-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
             <span className="text-[11px] font-black uppercase tracking-widest text-slate-400">Log</span>
           </button>
-          <button onClick={init} className="p-2 bg-slate-900/50 hover:bg-white/5 rounded-lg border border-white/5 transition-colors active:scale-95"><svg className="w-5 h-5 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357-2H15"></path></svg></button>
+          <button onClick={() => init()} className="p-2 bg-slate-900/50 hover:bg-white/5 rounded-lg border border-white/5 transition-colors active:scale-95"><svg className="w-5 h-5 text-slate-500" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357-2H15"></path></svg></button>
         </div>
       </header>
 
@@ -463,11 +825,45 @@ const App: React.FC = () => {
         <section className="bg-gradient-to-br from-slate-900/60 to-slate-950 border border-white/5 rounded-[3rem] p-6 md:p-10 shadow-2xl overflow-hidden relative group">
           <div className="space-y-10">
             <div className="space-y-4">
-              <h2 className="text-6xl font-black text-white italic mono tracking-tighter leading-none"><span className="opacity-50 text-3xl italic">$</span><Space />{data.currentPrice.toLocaleString()}</h2>
-              <div className="flex items-baseline gap-3">
-                <p className="text-xl text-slate-500 font-bold italic mono"><span className="text-[0.8em] italic opacity-60">₩</span><Space />{Math.round(data.currentPrice * data.usdKrw).toLocaleString()}</p>
-                <p className={`text-xl font-bold mono italic ${deviationKrw >= 0 ? 'text-rose-500' : 'text-emerald-400'}`}>({deviationKrw >= 0 ? '+' : '-'} <span className="text-[0.8em] italic opacity-60">₩</span><Space />{Math.abs(Math.round(deviationKrw)).toLocaleString()})</p>
+              <h2 className="text-6xl font-black text-white italic mono tracking-tighter leading-none"><span className="opacity-50 text-3xl italic">$</span><Space />{currentPrice.toLocaleString()}</h2>
+              <div className="flex flex-wrap items-baseline gap-3">
+                {heroSecondary !== null && (
+                  <p className="text-xl text-slate-500 font-bold italic mono">
+                    {currency === 'SATS' && <span className="text-[0.8em] opacity-60">$1 = </span>}
+                    <FxAmount value={heroSecondary} currency={currency} />
+                  </p>
+                )}
+                {deviation !== null && (
+                  <p className={`text-xl font-bold mono italic ${deviation >= 0 ? 'text-rose-500' : 'text-emerald-400'}`}>({deviation >= 0 ? '+' : '-'} <FxAmount value={Math.abs(deviation)} currency={currency} />)</p>
+                )}
+                {fxFallback && currency !== 'SATS' && (
+                  <span className="px-2 py-0.5 rounded-md bg-amber-500/10 text-amber-500 text-[10px] font-black uppercase tracking-widest" title="환율 조회에 실패하여 캐시 또는 기본 환율을 사용 중입니다.">FX Fallback</span>
+                )}
               </div>
+              {kimchiPremium !== null && (
+                <p className="text-[12px] font-bold mono italic text-slate-500">
+                  Kimchi Premium <span className={kimchiPremium >= 0 ? 'text-rose-400' : 'text-emerald-400'}>{kimchiPremium >= 0 ? '+' : ''}{(kimchiPremium * 100).toFixed(2)}%</span>
+                  <span className="ml-2 opacity-70">{data.sources.krwSpot} ₩{Math.round(data.krwSpot!).toLocaleString()}</span>
+                  {fxFallback && <span className="ml-2 text-amber-500">(대체 환율 기준)</span>}
+                </p>
+              )}
+              <p
+                className="text-[11px] font-black uppercase tracking-widest text-slate-600 italic"
+                title={`Ticker: ${data.sources.ticker} / History: ${data.sources.history} / Intraday: ${data.sources.intraday} / F&G: ${data.sources.fng} / FX: ${data.sources.fx} / KRW Spot: ${data.sources.krwSpot}`}
+              >
+                Source · {data.dataSource}
+                {data.stale && data.cachedAt !== null && (
+                  <span className="ml-2 text-amber-500">Offline Cache · {formatAge(Date.now() - data.cachedAt)} 전</span>
+                )}
+                <button onClick={() => setShowDataHealth(true)} className={`ml-2 uppercase tracking-widest italic hover:text-white transition-colors ${dataErrors > 0 ? 'text-rose-500' : healthCount > 0 ? 'text-amber-500' : 'text-emerald-500/70'}`}>
+                  Data Health · {healthCount === 0 ? 'OK' : `${healthCount} Issues`}
+                </button>
+              </p>
+              {fatalErrors.length > 0 && (
+                <button onClick={() => setShowDataHealth(true)} className="block text-left text-[11px] font-bold text-rose-400/80 hover:text-rose-300 transition-colors">
+                  {fatalErrors.slice(0, 2).map(describeSourceError).join(' · ')}{fatalErrors.length > 2 && ` 외 ${fatalErrors.length - 2}건`}
+                </button>
+              )}
             </div>
             <div className="bg-white/5 backdrop-blur-sm p-5 md:p-8 rounded-[2.5rem] border border-white/10 space-y-8">
               <div className="flex items-center gap-3 border-b border-white/5 pb-5">
@@ -493,36 +889,107 @@ const App: React.FC = () => {
         </section>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-          <StageCard title="OSCILLATOR" displayValue={`${stats.oscillator >= 0 ? '+' : ''}${stats.oscillator.toFixed(2)}`} subLabel="" stages={STAGES.OSCILLATOR} currentVal={stats.oscillator} />
-          <StageCard title="SENTIMENT" displayValue={data.fngValue} subLabel="" stages={STAGES.FNG} currentVal={data.fngValue} />
-          <StageCard title="MVRV Z-SCORE" displayValue={stats.mvrvEst.toFixed(2)} subLabel="" stages={STAGES.MVRV} currentVal={stats.mvrvEst} />
+          <StageCard title="OSCILLATOR" displayValue={`${stats.oscillator >= 0 ? '+' : ''}${stats.oscillator.toFixed(2)}`} subLabel="" stages={asset.stages.OSCILLATOR} currentVal={stats.oscillator} />
+          <StageCard title="SENTIMENT" displayValue={data.fngValue} subLabel="" stages={asset.stages.FNG} currentVal={data.fngValue} />
+          <StageCard title="MVRV Z-SCORE" displayValue={stats.mvrv.toFixed(2)} subLabel="" badge={stats.mvrvIsEstimate ? 'Estimated' : 'On-Chain'} stages={asset.stages.MVRV} currentVal={stats.mvrv} />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-2 -mb-6">
+          {CHART_RANGES.map(r => (
+            <button key={r.range} onClick={() => selectChartRange(r.range)} className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors ${chartSettings.range === r.range ? 'bg-amber-500 text-black' : 'bg-white/5 text-slate-500 hover:bg-white/10'}`}>{r.label}</button>
+          ))}
+          {chartSettings.range === 'custom' && <span className="px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest bg-amber-500/20 text-amber-500">Custom</span>}
+          <span className="w-px h-4 bg-white/10 mx-1"></span>
+          {(['log', 'linear'] as const).map(sc => (
+            <button key={sc} onClick={() => updateChartSettings({ scale: sc })} className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors ${chartSettings.scale === sc ? 'bg-amber-500 text-black' : 'bg-white/5 text-slate-500 hover:bg-white/10'}`}>{sc}</button>
+          ))}
+          <span className="w-px h-4 bg-white/10 mx-1"></span>
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-600">Projection</span>
+          {PROJECTION_HORIZONS.map(h => (
+            <button key={h.days} onClick={() => updateChartSettings({ horizonDays: h.days })} className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors ${chartSettings.horizonDays === h.days ? 'bg-amber-500 text-black' : 'bg-white/5 text-slate-500 hover:bg-white/10'}`}>{h.label}</button>
+          ))}
+          <button onClick={() => updateChartSettings({ showFan: !chartSettings.showFan })} className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors ${chartSettings.showFan ? 'bg-white/15 text-white' : 'bg-white/5 text-slate-500 hover:bg-white/10'}`}>
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS.fan }}></span>MC Fan
+          </button>
+          <span className="w-px h-4 bg-white/10 mx-1"></span>
+          {assetModels.map(m => (
+            <button key={m.id} onClick={() => toggleChartModel(m.id)} className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors ${chartSettings.models.includes(m.id) ? 'bg-white/15 text-white' : 'bg-white/5 text-slate-500 hover:bg-white/10'}`}>
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: MODEL_COLORS[m.id] }}></span>{m.label}
+            </button>
+          ))}
         </div>
 
         <section className="bg-slate-300 p-2 rounded-[3.5rem] border border-slate-400 shadow-2xl relative overflow-hidden h-[450px] md:h-[650px] min-h-[450px] w-full min-w-0">
           {isMounted && (
             <ResponsiveContainer width="99%" height="100%" debounce={50}>
-              <ComposedChart data={chartData} margin={{ top: 30, right: 10, left: 10, bottom: 30 }}>
+              <ComposedChart data={chartRows} syncId="market" syncMethod="value" margin={{ top: 30, right: 10, left: 10, bottom: 30 }}>
                 <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#cbd5e1" />
-                <XAxis dataKey="timestamp" type="number" domain={[new Date('2017-07-01').getTime(), 'dataMax']} hide={true} />
-                <YAxis type="number" domain={[2000, 500000]} scale="log" hide={true} />
-                <Tooltip content={<CustomTooltip />} cursor={{stroke: '#64748b', strokeWidth: 1}} />
-                {HALVING_DATES.map((hv, idx) => (
-                  <ReferenceLine key={idx} x={new Date(hv.date).getTime()} stroke={COLORS.halving} strokeWidth={1} strokeDasharray="5 5">
-                    <Label value={hv.label} position="top" fill={COLORS.halving} fontSize={10} fontWeight="900" offset={10} />
+                <XAxis dataKey="timestamp" type="number" domain={['dataMin', 'dataMax']} hide={true} />
+                <YAxis type="number" domain={yDomain} scale={chartSettings.scale} allowDataOverflow={true} hide={true} />
+                <Tooltip content={<CustomTooltip convert={convertHistorical} currency={currency} />} cursor={{stroke: '#64748b', strokeWidth: 1}} />
+                {assetEvents.map(ev => (
+                  <ReferenceLine key={ev.timestamp} x={ev.timestamp} stroke={COLORS.halving} strokeWidth={1} strokeDasharray="5 5">
+                    <Label value={ev.label} position="top" fill={COLORS.halving} fontSize={10} fontWeight="900" offset={10} />
                   </ReferenceLine>
                 ))}
                 <Line name="상단 밴드" dataKey="upper" stroke={COLORS.upper} strokeWidth={1} dot={false} strokeDasharray="4 4" />
                 <Line name="하단 밴드" dataKey="lower" stroke={COLORS.lower} strokeWidth={1} dot={false} strokeDasharray="4 4" />
+                {assetModels.filter(m => chartSettings.models.includes(m.id)).map(m => (
+                  <Line key={m.id} name={m.label} dataKey={`model_${m.id}`} stroke={MODEL_COLORS[m.id]} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                ))}
+                {chartSettings.showFan && projectionFan && <Area name="MC 5~95%" dataKey="fanOuter" stroke="none" fill={COLORS.fan} fillOpacity={0.12} connectNulls={true} isAnimationActive={false} />}
+                {chartSettings.showFan && projectionFan && <Area name="MC 25~75%" dataKey="fanInner" stroke="none" fill={COLORS.fan} fillOpacity={0.22} connectNulls={true} isAnimationActive={false} />}
+                {chartSettings.showFan && projectionFan && <Line name="MC 중앙값" dataKey="fanMedian" stroke={COLORS.fan} strokeWidth={1.5} strokeDasharray="2 3" dot={false} connectNulls={true} isAnimationActive={false} />}
                 <Line name="적정 가치" dataKey="fair" stroke={COLORS.fair} strokeWidth={2.5} dot={false} />
                 <Line name="시장 가격" dataKey="price" stroke={COLORS.price} strokeWidth={4} dot={false} connectNulls={true} />
+                {isDefaultAsset && trades.length > 0 && <Line name="평균 매입가" dataKey="avgCost" stroke={COLORS.position} strokeWidth={2} dot={false} type="stepAfter" isAnimationActive={false} />}
+                {isDefaultAsset && trades.length > 0 && <Line name="매수" dataKey="buy" stroke="none" dot={{ r: 5, fill: COLORS.buy, stroke: '#fff', strokeWidth: 1.5 }} activeDot={false} isAnimationActive={false} />}
+                {isDefaultAsset && trades.length > 0 && <Line name="매도" dataKey="sell" stroke="none" dot={{ r: 5, fill: COLORS.sell, stroke: '#fff', strokeWidth: 1.5 }} activeDot={false} isAnimationActive={false} />}
+                <Brush
+                  dataKey="timestamp" height={22} stroke="#64748b" fill="#e2e8f0" travellerWidth={8}
+                  startIndex={chartWindow.startIndex} endIndex={chartWindow.endIndex}
+                  tickFormatter={(t) => new Date(t).getFullYear().toString()}
+                  onChange={(range) => {
+                    if (range.startIndex === undefined || range.endIndex === undefined) return;
+                    setCustomRange({ startIndex: range.startIndex, endIndex: range.endIndex });
+                    if (chartSettings.range !== 'custom') updateChartSettings({ range: 'custom' });
+                  }}
+                />
               </ComposedChart>
             </ResponsiveContainer>
           )}
         </section>
 
+        {chartData.length > 0 && (
+          <IndicatorHistoryChart
+            points={indicatorPoints}
+            stages={asset.stages.OSCILLATOR}
+            domain={[chartData[chartWindow.startIndex].timestamp, chartData[chartWindow.endIndex].timestamp]}
+            syncId="market"
+          />
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-10 text-left">
           <div className="bg-slate-900/40 rounded-[2.5rem] border border-white/5 overflow-hidden">
-            <div className="px-8 py-5 border-b border-white/5"><h4 className="text-[12px] font-black tracking-widest text-amber-500 uppercase italic">Model Convergence</h4></div>
+            <div className="px-8 py-5 border-b border-white/5 flex justify-between items-center gap-4">
+              <h4 className="text-[12px] font-black tracking-widest text-amber-500 uppercase italic">Model Convergence</h4>
+              <div className="flex gap-1">
+                <button onClick={() => setShowEnsembleSettings(true)} className="px-2.5 py-1 mr-2 rounded-lg text-[10px] font-black uppercase tracking-widest bg-white/5 text-amber-500 hover:bg-white/10 transition-colors">{activeEnsemble.name}</button>
+                {MODEL_MODES.map(m => (
+                  <button key={m.mode} onClick={() => changeModelMode(m.mode)} className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors ${modelMode === m.mode ? 'bg-amber-500 text-black' : 'bg-white/5 text-slate-500 hover:bg-white/10'}`}>{m.label}</button>
+                ))}
+              </div>
+            </div>
+            {modelFit && (
+              <div className="px-8 py-3 border-b border-white/5 grid grid-cols-2 gap-4 text-[11px] font-bold mono italic text-slate-500">
+                {[{ n: 'STD', f: modelFit.standard }, { n: 'DECAY', f: modelFit.decaying }].map(({ n, f }) => (
+                  <div key={n}>
+                    <p className="text-slate-400">{n} · A {f.a.toExponential(2)} · B {f.b.toFixed(3)}</p>
+                    <p>R² {f.r2.toFixed(3)} · σ {f.sigma.toFixed(3)} · B 95% [{f.ci95.b[0].toFixed(3)}, {f.ci95.b[1].toFixed(3)}]</p>
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="overflow-x-auto">
               <table className="w-full text-[13px] table-fixed min-w-[500px]">
                 <thead className="bg-black/20 text-slate-600 font-black uppercase text-[11px] italic">
@@ -530,16 +997,17 @@ const App: React.FC = () => {
                 </thead>
                 <tbody className="divide-y divide-white/5">
                   {[
-                    { n: 'HYBRID', v: stats.model.weighted, u: stats.model.upper, l: stats.model.lower },
-                    { n: 'DECAYING', v: stats.model.decaying, u: stats.model.decaying * 1.6, l: stats.model.decaying * 0.6 },
-                    { n: 'CYCLE', v: stats.model.cycle, u: stats.model.cycle * 1.6, l: stats.model.cycle * 0.6 },
-                    { n: 'STANDARD', v: stats.model.standard, u: stats.model.standard * 1.6, l: stats.model.standard * 0.6 },
+                    { n: activeEnsemble.name, v: stats.model.weighted, u: stats.model.upper, l: stats.model.lower },
+                    ...assetModels.map(m => {
+                      const c = stats.model.components[m.id]!;
+                      return { n: m.label, v: c.fair, u: c.upper, l: c.lower };
+                    }),
                   ].map((r, i) => (
                     <tr key={i} className="hover:bg-white/[0.02]">
                       <td className="px-8 py-8 font-black italic text-slate-400">{r.n}</td>
-                      <td className="px-8 py-8 text-right">{renderPriceWithKrw(r.u, "text-rose-500")}</td>
-                      <td className="px-8 py-8 text-right">{renderPriceWithKrw(r.v, "text-amber-500 font-black")}</td>
-                      <td className="px-8 py-8 text-right">{renderPriceWithKrw(r.l, "text-emerald-500")}</td>
+                      <td className="px-8 py-8 text-right">{renderPriceWithFx(r.u, "text-rose-500")}</td>
+                      <td className="px-8 py-8 text-right">{renderPriceWithFx(r.v, "text-amber-500 font-black")}</td>
+                      <td className="px-8 py-8 text-right">{renderPriceWithFx(r.l, "text-emerald-500")}</td>
                     </tr>
                   ))}
                 </tbody>
@@ -547,26 +1015,75 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="bg-slate-900/40 rounded-[2.5rem] border border-white/5 overflow-hidden">
-            <div className="px-8 py-5 border-b border-white/5"><h4 className="text-[12px] font-black tracking-widest text-emerald-500 uppercase italic">Growth Projection</h4></div>
+            <div className="px-8 py-5 border-b border-white/5 flex flex-wrap justify-between items-center gap-2">
+              <h4 className="text-[12px] font-black tracking-widest text-emerald-500 uppercase italic">Growth Projection</h4>
+              {projectionFan && (
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-600">
+                  MC {projectionFan.paths.toLocaleString()} paths · {projectionFan.method} · half-life {Math.round(projectionFan.summary.halfLifeDays)}d
+                </span>
+              )}
+            </div>
             <div className="overflow-x-auto">
-              <table className="w-full text-[13px] table-fixed min-w-[500px]">
+              <table className="w-full text-[13px] table-fixed min-w-[720px]">
                 <thead className="bg-black/20 text-slate-600 font-black uppercase text-[11px] italic">
-                  <tr><th className="px-8 py-5 text-left">Target</th><th className="px-8 py-5 text-right">Peak</th><th className="px-8 py-5 text-right">Fair</th><th className="px-8 py-5 text-right">Bottom</th></tr>
+                  <tr><th className="px-8 py-5 text-left">Target</th><th className="px-8 py-5 text-right">Peak</th><th className="px-8 py-5 text-right">Fair</th><th className="px-8 py-5 text-right">Bottom</th><th className="px-8 py-5 text-right">MC P5 · P50 · P95</th></tr>
                 </thead>
                 <tbody className="divide-y divide-white/5">
-                  {projections.map((p, i) => (
-                    <tr key={i} className="hover:bg-white/[0.02]">
-                      <td className="px-8 py-8 font-black italic text-slate-400">{p.label} ('{p.date.slice(2,4)})</td>
-                      <td className="px-8 py-8 text-right">{renderPriceWithKrw(p.upper, "text-rose-500")}</td>
-                      <td className="px-8 py-8 text-right">{renderPriceWithKrw(p.weighted, "text-amber-500 font-black")}</td>
-                      <td className="px-8 py-8 text-right">{renderPriceWithKrw(p.lower, "text-emerald-500")}</td>
-                    </tr>
-                  ))}
+                  {projections.map((p, i) => {
+                    const fan = projectionFan?.points.find(f => Math.abs(f.timestamp - p.timestamp) < DAY_MS);
+                    return (
+                      <tr key={i} className="hover:bg-white/[0.02]">
+                        <td className="px-8 py-8 font-black italic text-slate-400">{p.label} ('{p.date.slice(2,4)})</td>
+                        <td className="px-8 py-8 text-right">{renderPriceWithFx(p.upper, "text-rose-500")}</td>
+                        <td className="px-8 py-8 text-right">{renderPriceWithFx(p.weighted, "text-amber-500 font-black")}</td>
+                        <td className="px-8 py-8 text-right">{renderPriceWithFx(p.lower, "text-emerald-500")}</td>
+                        <td className="px-8 py-8 text-right">
+                          {fan ? (
+                            <>
+                              {renderPriceWithFx(fan.prices[50], "text-indigo-400")}
+                              <p className="text-[11px] mono italic text-slate-500 whitespace-nowrap mt-1">${Math.round(fan.prices[5]).toLocaleString()} ~ ${Math.round(fan.prices[95]).toLocaleString()}</p>
+                              <p className="text-[11px] font-bold mono italic whitespace-nowrap" title="기간 내 밴드 도달 확률">
+                                <span className="text-rose-500">↑{(fan.touchUpper * 100).toFixed(0)}%</span> <span className="text-amber-500">={(fan.touchFair * 100).toFixed(0)}%</span> <span className="text-emerald-500">↓{(fan.touchLower * 100).toFixed(0)}%</span>
+                              </p>
+                            </>
+                          ) : <span className="text-[11px] font-black uppercase tracking-widest text-slate-700">—</span>}
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
           </div>
         </div>
+
+        <PlannerPanel
+          asset={asset}
+          history={data.history}
+          price={currentPrice}
+          oscillator={stats.oscillator}
+          riskPercent={stats.riskPercent}
+          usdKrw={data.usdKrw}
+          coefficients={coefficients}
+          weights={weights}
+          halvings={halvingSchedule}
+          getFng={historicalFng}
+          getMvrvZ={mvrvLookup}
+        />
+
+        {isDefaultAsset && (
+          <PortfolioPanel
+            trades={trades}
+            onChange={handleTradesChange}
+            price={currentPrice}
+            usdKrw={data.usdKrw}
+            fair={stats.model.weighted}
+            upper={stats.model.upper}
+            lower={stats.model.lower}
+          />
+        )}
+
+        <BacktestPanel asset={asset} history={data.history} coefficients={coefficients} weights={weights} halvings={halvingSchedule} getFng={historicalFng} getMvrvZ={mvrvLookup} />
       </main>
       <footer className="pt-4 pb-16 text-center opacity-20"><p className="text-[12px] font-black uppercase tracking-[0.45em] text-slate-500 italic">Statistical Truth over Emotional Noise.</p></footer>
     </div>
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { MarketStatus } from '../types';
+import { STAGES } from '../constants';
+import {
+  AlertCondition, AlertEvent, AlertRule, BandKey, CrossDirection, ALERT_PRESETS,
+  describeCondition, loadAlertRules, saveAlertRules, requestNotificationPermission, canNotify
+} from '../services/alerts';
+
+interface AlertManagerProps {
+  log: AlertEvent[];
+  onClearLog: () => void;
+  onClose: () => void;
+}
+
+type ConditionKind = AlertCondition['kind'];
+
+const KIND_LABELS: Record<ConditionKind, string> = {
+  priceBand: 'PRICE × BAND',
+  oscillator: 'OSCILLATOR',
+  status: 'STATUS',
+  fng: 'FEAR & GREED',
+};
+
+const OSC_THRESHOLDS = STAGES.OSCILLATOR.map(s => s.threshold).filter(Number.isFinite);
+const FNG_THRESHOLDS = STAGES.FNG.map(s => s.threshold).filter(t => t > 0);
+
+const selectClass = "bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[12px] font-black text-white outline-none focus:border-amber-500";
+
+const AlertManager: React.FC<AlertManagerProps> = ({ log, onClearLog, onClose }) => {
+  const [rules, setRules] = useState<AlertRule[]>(loadAlertRules);
+  const [permission, setPermission] = useState<string>(canNotify() ? Notification.permission : 'unsupported');
+  const [kind, setKind] = useState<ConditionKind>('priceBand');
+  const [band, setBand] = useState<BandKey>('upper');
+  const [direction, setDirection] = useState<CrossDirection>('above');
+  const [oscThreshold, setOscThreshold] = useState(OSC_THRESHOLDS[0]);
+  const [fngThreshold, setFngThreshold] = useState(25);
+  const [status, setStatus] = useState<MarketStatus>(MarketStatus.SELL);
+  const [cooldown, setCooldown] = useState(240);
+
+  const update = (next: AlertRule[]) => {
+    saveAlertRules(next);
+    setRules(next);
+  };
+
+  const addRule = (condition: AlertCondition) => {
+    update([...rules, { id: `rule-${Date.now()}`, enabled: true, cooldownMinutes: cooldown, condition }]);
+  };
+
+  const buildCondition = (): AlertCondition => {
+    if (kind === 'priceBand') return { kind, band, direction };
+    if (kind === 'oscillator') return { kind, threshold: oscThreshold, direction };
+    if (kind === 'fng') return { kind, threshold: fngThreshold, direction };
+    return { kind, status };
+  };
+
+  const askPermission = async () => setPermission(await requestNotificationPermission());
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-2 md:p-4 bg-black/95 backdrop-blur-md" onClick={onClose}>
+      <div className="bg-slate-900 w-full max-w-3xl max-h-[95vh] rounded-[2rem] border border-white/10 flex flex-col overflow-hidden shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="px-5 py-5 border-b border-white/5 flex justify-between items-center bg-slate-900/50">
+          <h3 className="text-base font-black italic uppercase tracking-widest text-white">Alert Rules</h3>
+          <div className="flex items-center gap-2">
+            {permission !== 'granted' && (
+              <button onClick={askPermission} disabled={permission === 'unsupported' || permission === 'denied'} className="px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest bg-amber-500 text-black disabled:opacity-30 active:scale-95">
+                {permission === 'denied' ? 'Notifications Blocked' : permission === 'unsupported' ? 'Not Supported' : 'Enable Notifications'}
+              </button>
+            )}
+            <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors active:scale-90">
+              <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"></path></svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-6 space-y-8">
+          {/* 규칙 추가 */}
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2">
+              <select value={kind} onChange={e => setKind(e.target.value as ConditionKind)} className={selectClass}>
+                {(Object.keys(KIND_LABELS) as ConditionKind[]).map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+              </select>
+              {kind === 'priceBand' && (
+                <select value={band} onChange={e => setBand(e.target.value as BandKey)} className={selectClass}>
+                  <option value="upper">UPPER</option>
+                  <option value="fair">FAIR</option>
+                  <option value="lower">LOWER</option>
+                </select>
+              )}
+              {kind === 'oscillator' && (
+                <select value={oscThreshold} onChange={e => setOscThreshold(parseFloat(e.target.value))} className={selectClass}>
+                  {OSC_THRESHOLDS.map(t => <option key={t} value={t}>{t >= 0 ? '+' : ''}{t}</option>)}
+                </select>
+              )}
+              {kind === 'fng' && (
+                <select value={fngThreshold} onChange={e => setFngThreshold(parseInt(e.target.value))} className={selectClass}>
+                  {FNG_THRESHOLDS.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+              )}
+              {kind === 'status' ? (
+                <select value={status} onChange={e => setStatus(e.target.value as MarketStatus)} className={selectClass}>
+                  {Object.values(MarketStatus).map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              ) : (
+                <select value={direction} onChange={e => setDirection(e.target.value as CrossDirection)} className={selectClass}>
+                  <option value="above">CROSS ABOVE</option>
+                  <option value="below">CROSS BELOW</option>
+                </select>
+              )}
+              <div className="flex items-center gap-1.5">
+                <input type="number" min={0} value={cooldown} onChange={e => setCooldown(Math.max(0, parseInt(e.target.value) || 0))} className={`${selectClass} w-20 mono`} />
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-600">min cooldown</span>
+              </div>
+              <button onClick={() => addRule(buildCondition())} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-amber-500 text-black active:scale-95">Add</button>
+            </div>
+            <div className="flex flex-wrap gap-1.5">
+              {ALERT_PRESETS.map((p, i) => (
+                <button key={i} onClick={() => addRule(p)} className="px-2.5 py-1 rounded-lg text-[11px] font-bold bg-white/5 text-slate-400 hover:bg-white/10">+ {describeCondition(p)}</button>
+              ))}
+            </div>
+          </div>
+
+          {/* 규칙 목록 */}
+          <div className="space-y-2">
+            {rules.length === 0 ? <div className="py-10 text-center opacity-20 text-[12px] uppercase font-black tracking-widest italic">No Rules</div> :
+              rules.map(rule => (
+                <div key={rule.id} className="flex items-center justify-between gap-3 px-4 py-3 rounded-2xl bg-white/5 border border-white/5">
+                  <button onClick={() => update(rules.map(r => r.id === rule.id ? { ...r, enabled: !r.enabled } : r))} className={`w-9 h-5 rounded-full relative transition-colors ${rule.enabled ? 'bg-amber-500' : 'bg-slate-700'}`}>
+                    <span className={`absolute top-0.5 w-4 h-4 rounded-full bg-white transition-all ${rule.enabled ? 'left-[18px]' : 'left-0.5'}`}></span>
+                  </button>
+                  <div className="flex-1 text-[13px] font-bold text-slate-300">
+                    {describeCondition(rule.condition)}
+                    <span className="ml-2 text-[11px] text-slate-600 mono">{rule.cooldownMinutes}m</span>
+                  </div>
+                  <span className="text-[11px] mono text-slate-600">{rule.lastTriggeredAt ? new Date(rule.lastTriggeredAt).toLocaleString('ko-KR') : '-'}</span>
+                  <button onClick={() => update(rules.filter(r => r.id !== rule.id))} className="px-2 text-slate-600 hover:text-rose-500 text-[14px] font-black">×</button>
+                </div>
+              ))
+            }
+          </div>
+
+          {/* 알림 기록 */}
+          <div>
+            <p className="text-[11px] font-black uppercase tracking-widest text-slate-600 mb-3">History</p>
+            <div className="space-y-1">
+              {log.length === 0 ? <div className="py-6 text-center opacity-20 text-[12px] uppercase font-black tracking-widest italic">No Alerts</div> :
+                log.map(ev => (
+                  <div key={ev.id} className="grid grid-cols-[1.4fr_2fr_1fr] gap-2 px-4 py-2 text-[12px] mono italic text-slate-400 border-b border-white/[0.03]">
+                    <span>{new Date(ev.timestamp).toLocaleString('ko-KR')}</span>
+                    <span className="not-italic font-bold text-slate-300">{ev.message}</span>
+                    <span className="text-right">${Math.round(ev.price).toLocaleString()}</span>
+                  </div>
+                ))
+              }
+            </div>
+          </div>
+        </div>
+
+        <div className="p-5 bg-slate-950/50 border-t border-white/5 flex justify-end">
+          <button onClick={onClearLog} className="px-5 py-2.5 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-rose-500 transition-all bg-white/5 hover:bg-rose-500/10 rounded-xl border border-white/5 active:scale-95">Clear History</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertManager;
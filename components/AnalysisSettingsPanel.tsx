@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import {
+  AnalysisProviderId, AnalysisSettings, ANALYSIS_PROVIDERS,
+  getAnalysisApiKey, setAnalysisApiKey, saveAnalysisSettings, hasGeminiKey
+} from '../services/analysisBackend';
+
+interface AnalysisSettingsPanelProps {
+  settings: AnalysisSettings;
+  onChange: (settings: AnalysisSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[12px] text-white mono outline-none focus:border-amber-500";
+
+const AnalysisSettingsPanel: React.FC<AnalysisSettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const [draft, setDraft] = useState<AnalysisSettings>(settings);
+  const [apiKey, setApiKey] = useState(getAnalysisApiKey);
+
+  const patch = (next: Partial<AnalysisSettings>) => setDraft(prev => ({ ...prev, ...next }));
+
+  const apply = () => {
+    saveAnalysisSettings(draft);
+    setAnalysisApiKey(apiKey);
+    onChange(draft);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-2 md:p-4 bg-black/95 backdrop-blur-md" onClick={onClose}>
+      <div className="bg-slate-900 w-full max-w-xl rounded-[2rem] border border-white/10 flex flex-col overflow-hidden shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="px-5 py-5 border-b border-white/5 flex justify-between items-center bg-slate-900/50">
+          <h3 className="text-base font-black italic uppercase tracking-widest text-white">Analysis Engine</h3>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors active:scale-90">
+            <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"></path></svg>
+          </button>
+        </div>
+
+        <div className="px-5 py-6 space-y-6">
+          <div className="grid grid-cols-2 gap-2">
+            {ANALYSIS_PROVIDERS.map(p => (
+              <button key={p.id} onClick={() => patch({ provider: p.id as AnalysisProviderId })} className={`px-3 py-2.5 rounded-xl text-[11px] font-black uppercase tracking-widest transition-all ${draft.provider === p.id ? 'bg-amber-500 text-black' : 'bg-white/5 text-slate-400 hover:bg-white/10'}`}>
+                {p.label}
+              </button>
+            ))}
+          </div>
+
+          {draft.provider === 'local' && (
+            <p className="text-[12px] text-slate-500 leading-relaxed">Insight Rules의 규칙으로 기기 안에서 분석합니다. 네트워크를 사용하지 않습니다.</p>
+          )}
+
+          {draft.provider === 'gemini' && (
+            <div className="space-y-2">
+              <p className="text-[11px] font-black uppercase tracking-widest text-slate-500">Model</p>
+              <input value={draft.geminiModel} onChange={e => patch({ geminiModel: e.target.value })} className={inputClass} />
+              <p className={`text-[11px] font-bold ${hasGeminiKey() ? 'text-emerald-400' : 'text-rose-400'}`}>
+                {hasGeminiKey() ? 'GEMINI_API_KEY 설정됨 (.env.local)' : 'GEMINI_API_KEY가 없어 로컬 엔진으로 대체됩니다 (.env.local에 설정 후 재빌드)'}
+              </p>
+            </div>
+          )}
+
+          {draft.provider === 'openai' && (
+            <div className="space-y-2">
+              <p className="text-[11px] font-black uppercase tracking-widest text-slate-500">Base URL</p>
+              <input value={draft.openaiUrl} onChange={e => patch({ openaiUrl: e.target.value })} placeholder="http://localhost:11434/v1" className={inputClass} />
+              <p className="text-[11px] font-black uppercase tracking-widest text-slate-500 pt-2">Model</p>
+              <input value={draft.openaiModel} onChange={e => patch({ openaiModel: e.target.value })} className={inputClass} />
+              <p className="text-[11px] font-black uppercase tracking-widest text-slate-500 pt-2">API Key (Optional)</p>
+              <input type="password" value={apiKey} onChange={e => setApiKey(e.target.value)} className={inputClass} />
+              <p className="text-[11px] text-slate-600 leading-relaxed">API 키는 이 브라우저에만 저장되며 백업 파일에 포함되지 않습니다.</p>
+            </div>
+          )}
+
+          {draft.provider === 'mock' && (
+            <p className="text-[12px] text-slate-500 leading-relaxed">네트워크 없이 로컬 결과에 [Mock] 표식을 붙여 반환합니다. 원격 응답 처리 흐름 확인용입니다.</p>
+          )}
+
+          {draft.provider !== 'local' && (
+            <div className="space-y-2">
+              <p className="text-[11px] font-black uppercase tracking-widest text-slate-500">Timeout · {Math.round(draft.timeoutMs / 1000)}s</p>
+              <input type="range" min={5000} max={60000} step={5000} value={draft.timeoutMs} onChange={e => patch({ timeoutMs: parseInt(e.target.value) })} className="w-full accent-amber-500" />
+              <p className="text-[11px] text-slate-600 leading-relaxed">오류, 시간 초과, 형식이 맞지 않는 응답은 로컬 엔진 결과로 대체합니다.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-5 bg-slate-950/50 border-t border-white/5 flex justify-end">
+          <button onClick={apply} className="px-5 py-2.5 text-[10px] font-black uppercase tracking-widest text-black bg-amber-500 hover:bg-amber-400 rounded-xl transition-all active:scale-95">Apply</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisSettingsPanel;
@@ -0,0 +1,166 @@
+import React, { useMemo, useState } from 'react';
+import { ModelCoefficients, ModelWeights, PriceData } from '../types';
+import { BacktestResult, BacktestStrategy, runAllStrategies, STRATEGY_LABELS } from '../services/backtest';
+import { AssetConfig } from '../services/assets';
+import { HalvingSchedule } from '../services/halving';
+import { XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line, Legend } from 'recharts';
+
+interface BacktestPanelProps {
+  asset: AssetConfig;
+  history: PriceData[];
+  coefficients: ModelCoefficients;
+  weights: ModelWeights;
+  halvings: HalvingSchedule;
+  getFng?: (date: string) => number;
+  getMvrvZ?: (date: string) => number | null;
+}
+
+const STRATEGY_COLORS: Record<BacktestStrategy, string> = {
+  dca: '#94a3b8',
+  riskDca: '#f59e0b',
+  signal: '#6366f1',
+};
+
+const START_PRESETS = [
+  { label: 'ALL', value: '' },
+  { label: '2017~', value: '2017-01-01' },
+  { label: '2020~', value: '2020-01-01' },
+  { label: '2022~', value: '2022-01-01' },
+];
+
+const PERIODS = [
+  { label: 'DAILY', value: 1 },
+  { label: 'WEEKLY', value: 7 },
+  { label: 'MONTHLY', value: 30 },
+];
+
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+const BacktestPanel: React.FC<BacktestPanelProps> = ({ asset, history, coefficients, weights, halvings, getFng, getMvrvZ }) => {
+  const [contribution, setContribution] = useState(100);
+  const [periodDays, setPeriodDays] = useState(7);
+  const [startDate, setStartDate] = useState('2017-01-01');
+  const [results, setResults] = useState<BacktestResult[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<BacktestStrategy>('signal');
+
+  const run = () => {
+    try {
+      setResults(runAllStrategies(history, { asset, contribution, periodDays, startDate: startDate || undefined, coefficients, weights, halvings, getFng, getMvrvZ }));
+      setError(null);
+    } catch (e) {
+      setResults(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  // 전략별 시간가중 수익 지수를 날짜 기준으로 병합 (차트 부하를 줄이기 위해 주 단위로 샘플링)
+  const curveData = useMemo(() => {
+    if (!results) return [];
+    const base = results[0].equityCurve;
+    return base
+      .map((pt, i) => {
+        const row: Record<string, number> = { timestamp: new Date(pt.date).getTime() };
+        results.forEach(r => { row[r.strategy] = r.equityCurve[i].index; });
+        return row;
+      })
+      .filter((_, i) => i % 7 === 0 || i === base.length - 1);
+  }, [results]);
+
+  const selectedResult = results?.find(r => r.strategy === selected);
+
+  return (
+    <div className="bg-slate-900/40 rounded-[2.5rem] border border-white/5 overflow-hidden">
+      <div className="px-8 py-5 border-b border-white/5 flex flex-wrap justify-between items-center gap-4">
+        <h4 className="text-[12px] font-black tracking-widest text-indigo-400 uppercase italic">Signal Backtest</h4>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="number" min={1} value={contribution}
+            onChange={e => setContribution(Math.max(1, parseFloat(e.target.value) || 1))}
+            className="w-24 bg-white/5 border border-white/10 rounded-lg px-2.5 py-1 text-[11px] font-black mono text-white outline-none focus:border-indigo-400"
+          />
+          {PERIODS.map(p => (
+            <button key={p.value} onClick={() => setPeriodDays(p.value)} className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors ${periodDays === p.value ? 'bg-indigo-500 text-white' : 'bg-white/5 text-slate-500 hover:bg-white/10'}`}>{p.label}</button>
+          ))}
+          {START_PRESETS.map(p => (
+            <button key={p.label} onClick={() => setStartDate(p.value)} className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors ${startDate === p.value ? 'bg-indigo-500 text-white' : 'bg-white/5 text-slate-500 hover:bg-white/10'}`}>{p.label}</button>
+          ))}
+          <button onClick={run} className="px-4 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest bg-amber-500 text-black hover:bg-amber-400 active:scale-95 transition-all">Run</button>
+        </div>
+      </div>
+
+      {error && <div className="px-8 py-6 text-[12px] font-bold text-rose-400">{error}</div>}
+
+      {results && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-[13px] table-fixed min-w-[700px]">
+              <thead className="bg-black/20 text-slate-600 font-black uppercase text-[11px] italic">
+                <tr>
+                  <th className="px-8 py-4 text-left">Strategy</th>
+                  <th className="px-4 py-4 text-right">CAGR</th>
+                  <th className="px-4 py-4 text-right">Max DD</th>
+                  <th className="px-4 py-4 text-right">Sharpe</th>
+                  <th className="px-4 py-4 text-right">In Market</th>
+                  <th className="px-4 py-4 text-right">Invested</th>
+                  <th className="px-8 py-4 text-right">Equity</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5 mono italic">
+                {results.map(r => (
+                  <tr key={r.strategy} onClick={() => setSelected(r.strategy)} className={`cursor-pointer ${selected === r.strategy ? 'bg-white/5' : 'hover:bg-white/[0.02]'}`}>
+                    <td className="px-8 py-5 font-black not-italic" style={{ color: STRATEGY_COLORS[r.strategy] }}>{STRATEGY_LABELS[r.strategy]}</td>
+                    <td className={`px-4 py-5 text-right font-black ${r.cagr >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{pct(r.cagr)}</td>
+                    <td className="px-4 py-5 text-right text-rose-400">-{pct(r.maxDrawdown)}</td>
+                    <td className="px-4 py-5 text-right text-slate-300">{r.sharpe.toFixed(2)}</td>
+                    <td className="px-4 py-5 text-right text-slate-400">{pct(r.timeInMarket)}</td>
+                    <td className="px-4 py-5 text-right text-slate-400">${Math.round(r.invested).toLocaleString()}</td>
+                    <td className="px-8 py-5 text-right text-white font-black">${Math.round(r.finalEquity).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="h-[320px] px-2 py-6">
+            <ResponsiveContainer width="99%" height="100%" debounce={50}>
+              <LineChart data={curveData} margin={{ top: 10, right: 20, left: 10, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#1e293b" />
+                <XAxis dataKey="timestamp" type="number" domain={['dataMin', 'dataMax']} tickFormatter={(t) => new Date(t).getFullYear().toString()} stroke="#475569" fontSize={10} />
+                <YAxis scale="log" domain={['auto', 'auto']} tickFormatter={(v) => `${v.toFixed(1)}x`} stroke="#475569" fontSize={10} width={50} />
+                <Tooltip
+                  labelFormatter={(t) => new Date(t as number).toISOString().split('T')[0]}
+                  formatter={(v, name) => [`${Number(v).toFixed(2)}x`, STRATEGY_LABELS[name as BacktestStrategy]]}
+                  contentStyle={{ background: '#0f172a', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 12, fontSize: 11 }}
+                />
+                <Legend formatter={(name) => STRATEGY_LABELS[name as BacktestStrategy]} wrapperStyle={{ fontSize: 10, fontWeight: 900 }} />
+                {results.map(r => (
+                  <Line key={r.strategy} dataKey={r.strategy} stroke={STRATEGY_COLORS[r.strategy]} strokeWidth={2} dot={false} />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          {selectedResult && (
+            <div className="border-t border-white/5 max-h-[320px] overflow-y-auto">
+              <div className="px-8 py-3 text-[11px] font-black uppercase tracking-widest text-slate-600 italic sticky top-0 bg-slate-900">
+                Trades · {STRATEGY_LABELS[selectedResult.strategy]} ({selectedResult.trades.length}, latest 200)
+              </div>
+              {selectedResult.trades.slice(-200).reverse().map((t, i) => (
+                <div key={i} className="grid grid-cols-[1.2fr_0.8fr_1.2fr_1.2fr_1.2fr] px-8 py-2 text-[11px] mono italic text-slate-400 border-b border-white/[0.03]">
+                  <span>{t.date}</span>
+                  <span className={`font-black not-italic ${t.side === 'BUY' ? 'text-emerald-400' : 'text-rose-400'}`}>{t.side}</span>
+                  <span className="text-right">${Math.round(t.price).toLocaleString()}</span>
+                  <span className="text-right">{t.btc.toFixed(6)} BTC</span>
+                  <span className="text-right">${Math.round(t.usd).toLocaleString()}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BacktestPanel;
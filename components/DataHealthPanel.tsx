@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { DataPiece, FetchErrorKind, SourceError } from '../types';
+import { DataHealthReport, DataIssueKind, DATA_ISSUE_LABELS, groupDateRanges } from '../services/dataQuality';
+
+interface DataHealthPanelProps {
+  report: DataHealthReport;
+  errors: SourceError[];
+  onClose: () => void;
+}
+
+const PIECE_LABELS: Record<DataPiece, string> = {
+  ticker: 'Ticker',
+  history: 'Daily',
+  weekly: 'Weekly',
+  intraday: 'Intraday',
+  fng: 'F&G',
+  fngHistory: 'F&G History',
+  fx: 'FX',
+  fxHistory: 'FX History',
+  krwSpot: 'KRW Spot',
+};
+
+const KIND_LABELS: Record<FetchErrorKind, string> = {
+  network: '연결 불가',
+  http: 'HTTP 오류',
+  rate_limit: '요청 한도 초과',
+  schema: '응답 형식 불일치',
+};
+
+/**
+ * 오류 한 줄 요약 (예: "Ticker · Binance 요청 한도 초과 (HTTP 429, 60초 후 재시도)")
+ */
+export const describeSourceError = (e: SourceError): string => {
+  const detail = [e.status !== undefined && e.kind !== 'schema' ? `HTTP ${e.status}` : null, e.retryAfter !== undefined ? `${e.retryAfter}초 후 재시도` : null].filter(Boolean).join(', ');
+  return `${PIECE_LABELS[e.piece]} · ${e.provider ?? 'Network'} ${KIND_LABELS[e.kind]}${detail ? ` (${detail})` : ''}`;
+};
+
+const LEVEL_STYLES = {
+  warning: 'text-amber-400 bg-amber-500/10',
+  error: 'text-rose-400 bg-rose-500/10',
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString('ko-KR', { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+const DataHealthPanel: React.FC<DataHealthPanelProps> = ({ report, errors, onClose }) => {
+  const [filter, setFilter] = useState<DataIssueKind | 'all'>('all');
+  const counts = report.issues.reduce((acc, issue) => ({ ...acc, [issue.kind]: (acc[issue.kind] ?? 0) + 1 }), {} as Partial<Record<DataIssueKind, number>>);
+  const visible = report.issues.filter(issue => filter === 'all' || issue.kind === filter);
+  const gapCount = groupDateRanges(report.interpolatedDates).length;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-2 md:p-4 bg-black/95 backdrop-blur-md" onClick={onClose}>
+      <div className="bg-slate-900 w-full max-w-3xl max-h-[95vh] rounded-[2rem] border border-white/10 flex flex-col overflow-hidden shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="px-5 py-5 border-b border-white/5 flex justify-between items-center bg-slate-900/50">
+          <h3 className="text-base font-black italic uppercase tracking-widest text-white">Data Health</h3>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors active:scale-90">
+            <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"></path></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-6 space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+            <div className="bg-white/5 rounded-2xl p-4">
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Interpolated Days</p>
+              <p className="text-xl font-black mono text-white">{report.interpolatedDates.length.toLocaleString()}</p>
+              <p className="text-[11px] font-bold text-slate-600">{gapCount}개 구간</p>
+            </div>
+            <div className="bg-white/5 rounded-2xl p-4">
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Ticker</p>
+              <p className={`text-xl font-black ${report.tickerStale ? 'text-amber-400' : 'text-emerald-400'}`}>{report.tickerStale ? 'STALE' : 'LIVE'}</p>
+              <p className="text-[11px] font-bold text-slate-600">{formatTime(report.checkedAt)} 검사</p>
+            </div>
+            <div className="bg-white/5 rounded-2xl p-4">
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-500">Suspect Points</p>
+              <p className="text-xl font-black mono text-white">{report.suspectTimestamps.length}</p>
+              <p className="text-[11px] font-bold text-slate-600">5분봉 이상치</p>
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="space-y-1.5">
+              <p className="text-[11px] font-black uppercase tracking-widest text-slate-500">Source Errors</p>
+              {errors.map((e, i) => (
+                <div key={i} className="flex items-start gap-3 px-4 py-3 rounded-2xl bg-white/5">
+                  <span className={`px-2 py-0.5 shrink-0 rounded-md text-[9px] font-black uppercase tracking-widest ${e.fatal ? LEVEL_STYLES.error : LEVEL_STYLES.warning}`}>{e.kind.replace('_', ' ')}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[12px] font-bold text-slate-300 leading-relaxed">{describeSourceError(e)}</p>
+                    <p className="text-[10px] font-bold mono text-slate-600 break-all">{e.message}{e.fatal ? ' · 대체값/캐시 사용' : ' · 다음 제공자로 대체됨'}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-1.5">
+            <button onClick={() => setFilter('all')} className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest ${filter === 'all' ? 'bg-amber-500 text-black' : 'bg-white/5 text-slate-400 hover:bg-white/10'}`}>All {report.issues.length}</button>
+            {(Object.keys(DATA_ISSUE_LABELS) as DataIssueKind[]).filter(kind => counts[kind]).map(kind => (
+              <button key={kind} onClick={() => setFilter(kind)} className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest ${filter === kind ? 'bg-amber-500 text-black' : 'bg-white/5 text-slate-400 hover:bg-white/10'}`}>{DATA_ISSUE_LABELS[kind]} {counts[kind]}</button>
+            ))}
+          </div>
+
+          {visible.length === 0 ? (
+            <p className="py-12 text-center text-[12px] font-black uppercase tracking-widest text-emerald-400/60">No Issues Detected</p>
+          ) : (
+            <div className="space-y-1.5">
+              {visible.map((issue, i) => (
+                <div key={i} className="flex items-start gap-3 px-4 py-3 rounded-2xl bg-white/5">
+                  <span className={`px-2 py-0.5 shrink-0 rounded-md text-[9px] font-black uppercase tracking-widest ${LEVEL_STYLES[issue.level]}`}>{DATA_ISSUE_LABELS[issue.kind]}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[12px] font-bold text-slate-300 leading-relaxed">{issue.message}</p>
+                    {issue.timestamp !== undefined && <p className="text-[10px] font-bold mono text-slate-600">{formatTime(issue.timestamp)}</p>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <p className="text-[11px] text-slate-600 leading-relaxed">
+            누락일은 직전 종가로 채워 차트와 모델에 사용되며, 근접 5분봉이 없어 일봉 종가나 갱신되지 않은 현재가로 만든 스냅샷은 로그에 표시(!)됩니다. 표시된 스냅샷 중 이상치·갱신 안 된 현재가 기반은 알림을 발생시키지 않습니다.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataHealthPanel;
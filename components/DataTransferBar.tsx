@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { Snapshot } from '../types';
+import { loadAlertLog } from '../services/alerts';
+import { AssetId, DEFAULT_ASSET_ID } from '../services/assets';
+import {
+  ImportResult, buildExportBundle, snapshotsToCsv, alertLogToCsv, downloadText, parseImportFile, applyImport
+} from '../services/dataTransfer';
+
+interface DataTransferBarProps {
+  snapshots: Snapshot[];
+  assetId: AssetId;
+  onImported: (result: ImportResult) => void;
+}
+
+const buttonClass = "px-3 py-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white transition-all bg-white/5 hover:bg-white/10 rounded-xl border border-white/5 active:scale-95";
+
+const DataTransferBar: React.FC<DataTransferBarProps> = ({ snapshots, assetId, onImported }) => {
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const stamp = () => new Date().toISOString().split('T')[0];
+  // BTC 이외 자산은 파일 이름에 자산을 표기
+  const prefix = assetId === DEFAULT_ASSET_ID ? 'btc-compass' : `btc-compass-${assetId.toLowerCase()}`;
+
+  const exportJson = () =>
+    downloadText(`${prefix}-backup-${stamp()}.json`, JSON.stringify(buildExportBundle(snapshots, assetId), null, 2), 'application/json');
+
+  const exportCsv = () => {
+    downloadText(`${prefix}-snapshots-${stamp()}.csv`, snapshotsToCsv(snapshots), 'text/csv');
+    const log = loadAlertLog();
+    if (log.length > 0) downloadText(`btc-compass-alerts-${stamp()}.csv`, alertLogToCsv(log), 'text/csv');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = await applyImport(parseImportFile(await file.text()), snapshots, assetId);
+      onImported(result);
+      setMessage({
+        text: `스냅샷 ${result.added}건 · 알림 ${result.alertsAdded}건 · 설정 ${result.settingsApplied}건 추가${result.skipped > 0 ? ` (검증 실패 ${result.skipped}건 제외)` : ''}`,
+        error: false,
+      });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : String(err), error: true });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <button onClick={exportJson} className={buttonClass}>Export JSON</button>
+      <button onClick={exportCsv} disabled={snapshots.length === 0} className={`${buttonClass} disabled:opacity-30`}>Export CSV</button>
+      <label className={`${buttonClass} cursor-pointer`}>
+        Import
+        <input type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFile} className="hidden" />
+      </label>
+      {message && <span className={`text-[11px] font-bold ${message.error ? 'text-rose-400' : 'text-emerald-400'}`}>{message.text}</span>}
+    </div>
+  );
+};
+
+export default DataTransferBar;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { ModelEnsemble, ModelId } from '../types';
+import { MODEL_REGISTRY } from '../services/modelEngine';
+
+interface EnsembleSettingsProps {
+  ensembles: ModelEnsemble[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onSave: (ensemble: ModelEnsemble) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const EnsembleSettings: React.FC<EnsembleSettingsProps> = ({ ensembles, activeId, onSelect, onSave, onDelete, onClose }) => {
+  const active = ensembles.find(e => e.id === activeId) || ensembles[0];
+  // 기본 앙상블은 복제본으로 편집을 시작
+  const [draft, setDraft] = useState<ModelEnsemble>(() => active.builtIn
+    ? { id: `custom-${Date.now()}`, name: `${active.name} CUSTOM`, weights: { ...active.weights } }
+    : { ...active, weights: { ...active.weights } });
+
+  const totalWeight = MODEL_REGISTRY.reduce((acc, m) => acc + (draft.weights[m.id] || 0), 0);
+
+  const setWeight = (id: ModelId, value: number) => {
+    setDraft(prev => ({ ...prev, weights: { ...prev.weights, [id]: value } }));
+  };
+
+  const startEditing = (ensemble: ModelEnsemble) => {
+    onSelect(ensemble.id);
+    setDraft(ensemble.builtIn
+      ? { id: `custom-${Date.now()}`, name: `${ensemble.name} CUSTOM`, weights: { ...ensemble.weights } }
+      : { ...ensemble, weights: { ...ensemble.weights } });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-2 md:p-4 bg-black/95 backdrop-blur-md" onClick={onClose}>
+      <div className="bg-slate-900 w-full max-w-2xl max-h-[95vh] rounded-[2rem] border border-white/10 flex flex-col overflow-hidden shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="px-5 py-5 border-b border-white/5 flex justify-between items-center bg-slate-900/50">
+          <h3 className="text-base font-black italic uppercase tracking-widest text-white">Model Ensemble</h3>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors active:scale-90">
+            <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"></path></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-6 space-y-8">
+          {/* 앙상블 목록 */}
+          <div className="flex flex-wrap gap-2">
+            {ensembles.map(e => (
+              <div key={e.id} className="flex items-center">
+                <button
+                  onClick={() => startEditing(e)}
+                  className={`px-3 py-1.5 rounded-xl text-[11px] font-black uppercase tracking-widest transition-colors ${e.id === activeId ? 'bg-amber-500 text-black' : 'bg-white/5 text-slate-400 hover:bg-white/10'}`}
+                >
+                  {e.name}
+                </button>
+                {!e.builtIn && (
+                  <button onClick={() => onDelete(e.id)} className="ml-1 px-2 text-slate-600 hover:text-rose-500 text-[12px] font-black">×</button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* 가중치 편집 */}
+          <div className="space-y-5">
+            <input
+              value={draft.name}
+              onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm font-black uppercase tracking-widest text-white outline-none focus:border-amber-500"
+            />
+            {MODEL_REGISTRY.map(m => {
+              const weight = draft.weights[m.id] || 0;
+              return (
+                <div key={m.id}>
+                  <div className="flex justify-between text-[11px] font-black uppercase tracking-widest mb-2">
+                    <span className="text-slate-400">{m.label}</span>
+                    <span className="mono text-amber-500">{totalWeight > 0 ? Math.round((weight / totalWeight) * 100) : 0}%</span>
+                  </div>
+                  <input
+                    type="range" min={0} max={100} step={5}
+                    value={Math.round(weight * 100)}
+                    onChange={e => setWeight(m.id, parseInt(e.target.value) / 100)}
+                    className="w-full accent-amber-500"
+                  />
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="p-5 bg-slate-950/50 border-t border-white/5 flex justify-between items-center">
+          <span className="text-[10px] font-black text-slate-600 uppercase tracking-widest italic">Weights are normalized to 100%</span>
+          <button
+            disabled={totalWeight <= 0 || !draft.name.trim()}
+            onClick={() => onSave({ ...draft, name: draft.name.trim() })}
+            className="px-5 py-2.5 text-[10px] font-black uppercase tracking-widest text-black bg-amber-500 hover:bg-amber-400 disabled:opacity-30 rounded-xl transition-all active:scale-95"
+          >
+            Save Ensemble
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EnsembleSettings;
@@ -0,0 +1,142 @@
+import React, { useMemo } from 'react';
+import {
+  XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ComposedChart, Line, ReferenceArea, ReferenceLine, Label
+} from 'recharts';
+import { MarketStatus } from '../types';
+import { Stage } from '../services/marketStatus';
+
+export interface IndicatorPoint {
+  timestamp: number;
+  oscillator: number;
+  riskPercent: number;
+  fng: number;
+  status: MarketStatus;
+}
+
+interface IndicatorHistoryChartProps {
+  points: IndicatorPoint[];
+  domain: [number, number]; // 가격 차트와 동일한 X 범위 (브러시 구간)
+  syncId: string;
+  stages: Stage[];          // 자산의 오실레이터 단계 (내림차순)
+}
+
+const SERIES = {
+  oscillator: { label: 'Oscillator', color: '#f59e0b' },
+  riskPercent: { label: 'Risk', color: '#f43f5e' },
+  fng: { label: 'FNG', color: '#38bdf8' },
+};
+
+// 오실레이터 단계 순서(광기 → 심연)에 대응하는 밴드 색상
+const STAGE_COLORS = ['#e11d48', '#f43f5e', '#fb923c', '#94a3b8', '#34d399', '#10b981', '#047857'];
+
+const STATUS_COLORS: Record<MarketStatus, string> = {
+  [MarketStatus.ACCUMULATE]: '#10b981',
+  [MarketStatus.STABLE]: '#64748b',
+  [MarketStatus.SELL]: '#f43f5e',
+};
+
+// ReferenceArea 음영 (좌표는 recharts가 계산한 사각형 영역 사용)
+const shadedRect = (fill: string, opacity: number) => (props: any) => (
+  <rect x={props.x} y={props.y} width={props.width} height={props.height} fill={fill} fillOpacity={opacity} />
+);
+
+/**
+ * 연속된 같은 국면 구간을 하나의 영역으로 병합
+ */
+const buildStatusRegions = (points: IndicatorPoint[]) => {
+  const regions: { status: MarketStatus; from: number; to: number }[] = [];
+  points.forEach(p => {
+    const last = regions[regions.length - 1];
+    if (last && last.status === p.status) last.to = p.timestamp;
+    else regions.push({ status: p.status, from: last ? last.to : p.timestamp, to: p.timestamp });
+  });
+  return regions;
+};
+
+const IndicatorTooltip = ({ active, payload, label }: any) => {
+  if (!active || !payload || payload.length === 0) return null;
+  const point: IndicatorPoint = payload[0].payload;
+  return (
+    <div className="bg-slate-950/95 border border-white/10 p-3 rounded-xl shadow-2xl min-w-[160px]">
+      <p className="text-xs font-black text-slate-500 uppercase tracking-widest mb-2 border-b border-white/10 pb-1.5 mono">
+        {new Date(label).toISOString().split('T')[0]}
+      </p>
+      <div className="space-y-1 text-xs mono italic">
+        <p className="flex justify-between gap-3"><span style={{ color: SERIES.oscillator.color }}>{SERIES.oscillator.label}</span><span className="font-black text-white">{point.oscillator >= 0 ? '+' : ''}{point.oscillator.toFixed(2)}</span></p>
+        <p className="flex justify-between gap-3"><span style={{ color: SERIES.riskPercent.color }}>{SERIES.riskPercent.label}</span><span className="font-black text-white">{point.riskPercent.toFixed(0)}%</span></p>
+        <p className="flex justify-between gap-3"><span style={{ color: SERIES.fng.color }}>{SERIES.fng.label}</span><span className="font-black text-white">{point.fng}</span></p>
+        <p className="flex justify-between gap-3"><span className="text-slate-500">Status</span><span className="font-black not-italic" style={{ color: STATUS_COLORS[point.status] }}>{point.status}</span></p>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * 오실레이터·종합 리스크·심리 지수의 일별 추이
+ * 좌측 축은 오실레이터(자산 단계 구간 음영), 우측 축은 0~100 지표이며
+ * 배경색으로 ACCUMULATE/STABLE/SELL 국면을 표시합니다.
+ */
+const IndicatorHistoryChart: React.FC<IndicatorHistoryChartProps> = ({ points, domain, syncId, stages }) => {
+  const visible = useMemo(() => points.filter(p => p.timestamp >= domain[0] && p.timestamp <= domain[1]), [points, domain]);
+  const regions = useMemo(() => buildStatusRegions(visible), [visible]);
+
+  // 오실레이터 축: 보이는 구간 기준, 최소 ±0.8 (적정 ~ 오버슈팅 구간은 항상 표시)
+  const oscDomain = useMemo((): [number, number] => {
+    const values = visible.map(p => p.oscillator);
+    const min = Math.min(-0.8, ...values);
+    const max = Math.max(0.8, ...values);
+    return [Math.floor(min * 10) / 10, Math.ceil(max * 10) / 10];
+  }, [visible]);
+
+  const bands = stages.map((stage, idx) => ({
+    label: stage.label.split(' ')[0],
+    from: Math.max(stage.threshold, oscDomain[0]),
+    to: idx === 0 ? oscDomain[1] : stages[idx - 1].threshold,
+    color: STAGE_COLORS[idx],
+  }));
+
+  return (
+    <div className="bg-slate-900/40 rounded-[2.5rem] border border-white/5 overflow-hidden">
+      <div className="px-8 py-5 border-b border-white/5 flex flex-wrap justify-between items-center gap-4">
+        <h4 className="text-[12px] font-black tracking-widest text-amber-500 uppercase italic">Indicator History</h4>
+        <div className="flex flex-wrap items-center gap-4 text-[10px] font-black uppercase tracking-widest">
+          {Object.values(SERIES).map(s => (
+            <span key={s.label} className="flex items-center gap-1.5 text-slate-400"><span className="w-3 h-0.5" style={{ backgroundColor: s.color }}></span>{s.label}</span>
+          ))}
+          {(Object.keys(STATUS_COLORS) as MarketStatus[]).map(status => (
+            <span key={status} className="flex items-center gap-1.5 text-slate-500"><span className="w-2.5 h-2.5 rounded-sm opacity-40" style={{ backgroundColor: STATUS_COLORS[status] }}></span>{status}</span>
+          ))}
+        </div>
+      </div>
+      <div className="h-[260px] md:h-[320px] p-2">
+        <ResponsiveContainer width="99%" height="100%" debounce={50}>
+          <ComposedChart data={visible} syncId={syncId} syncMethod="value" margin={{ top: 10, right: 10, left: 10, bottom: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#1e293b" />
+            <XAxis dataKey="timestamp" type="number" domain={domain} allowDataOverflow={true} hide={true} />
+            <YAxis yAxisId="osc" type="number" domain={oscDomain} allowDataOverflow={true} hide={true} />
+            <YAxis yAxisId="pct" type="number" domain={[0, 100]} orientation="right" hide={true} />
+            {regions.map(r => (
+              <React.Fragment key={r.from}>
+                <ReferenceArea yAxisId="pct" x1={r.from} x2={r.to} y1={0} y2={100} shape={shadedRect(STATUS_COLORS[r.status], 0.12)} ifOverflow="hidden" />
+              </React.Fragment>
+            ))}
+            {bands.filter(b => b.to > b.from).map(b => (
+              <React.Fragment key={b.label}>
+                <ReferenceArea yAxisId="osc" y1={b.from} y2={b.to} shape={shadedRect(b.color, 0.08)}>
+                  <Label value={b.label} position="insideLeft" fill={b.color} fontSize={9} fontWeight="900" />
+                </ReferenceArea>
+              </React.Fragment>
+            ))}
+            <ReferenceLine yAxisId="osc" y={0} stroke="#475569" strokeDasharray="4 4" />
+            <Tooltip content={<IndicatorTooltip />} cursor={{ stroke: '#64748b', strokeWidth: 1 }} />
+            <Line yAxisId="pct" dataKey="fng" stroke={SERIES.fng.color} strokeWidth={1} dot={false} isAnimationActive={false} strokeOpacity={0.7} />
+            <Line yAxisId="pct" dataKey="riskPercent" stroke={SERIES.riskPercent.color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            <Line yAxisId="osc" dataKey="oscillator" stroke={SERIES.oscillator.color} strokeWidth={2} dot={false} isAnimationActive={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default IndicatorHistoryChart;
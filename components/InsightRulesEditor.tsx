@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { InsightSeverity } from '../types';
+import {
+  InsightCondition, InsightMetric, InsightOperator, InsightRule, InsightScope, InsightWindow,
+  INSIGHT_METRICS, INSIGHT_OPERATORS, INSIGHT_WINDOWS, DEFAULT_INSIGHT_RULES,
+  describeInsightCondition, loadInsightRules, saveInsightRules, resetInsightRules
+} from '../services/insights';
+
+interface InsightRulesEditorProps {
+  onChange: (rules: InsightRule[]) => void;
+  onClose: () => void;
+}
+
+const SEVERITIES: InsightSeverity[] = ['info', 'positive', 'warning', 'critical'];
+
+export const SEVERITY_STYLES: Record<InsightSeverity, string> = {
+  info: 'text-slate-400 bg-white/5',
+  positive: 'text-emerald-400 bg-emerald-500/10',
+  warning: 'text-amber-400 bg-amber-500/10',
+  critical: 'text-rose-400 bg-rose-500/10',
+};
+
+const SCOPE_LABELS: Record<InsightScope, string> = { summary: 'Summary', point: 'Per Snapshot' };
+
+const selectClass = "bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[11px] font-black text-white outline-none focus:border-amber-500";
+
+const InsightRulesEditor: React.FC<InsightRulesEditorProps> = ({ onChange, onClose }) => {
+  const [rules, setRules] = useState<InsightRule[]>(loadInsightRules);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const update = (next: InsightRule[]) => {
+    saveInsightRules(next);
+    setRules(next);
+    onChange(next);
+  };
+
+  const patchRule = (id: string, patch: Partial<InsightRule>) => update(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+
+  const patchCondition = (rule: InsightRule, idx: number, patch: Partial<InsightCondition>) =>
+    patchRule(rule.id, { conditions: rule.conditions.map((c, i) => i === idx ? { ...c, ...patch } : c) });
+
+  // 평가 순서는 같은 범위(scope) 안에서의 목록 순서
+  const move = (id: string, offset: number) => {
+    const index = rules.findIndex(r => r.id === id);
+    const scope = rules[index].scope;
+    let target = index + offset;
+    while (target >= 0 && target < rules.length && rules[target].scope !== scope) target += offset;
+    if (target < 0 || target >= rules.length) return;
+    const next = [...rules];
+    [next[index], next[target]] = [next[target], next[index]];
+    update(next);
+  };
+
+  const addRule = (scope: InsightScope) => {
+    const rule: InsightRule = { id: `insight-${Date.now()}`, scope, enabled: true, severity: 'info', conditions: [], template: '' };
+    update([rule, ...rules]);
+    setEditingId(rule.id);
+  };
+
+  const reset = () => {
+    resetInsightRules();
+    setRules(DEFAULT_INSIGHT_RULES);
+    onChange(DEFAULT_INSIGHT_RULES);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-2 md:p-4 bg-black/95 backdrop-blur-md" onClick={onClose}>
+      <div className="bg-slate-900 w-full max-w-4xl max-h-[95vh] rounded-[2rem] border border-white/10 flex flex-col overflow-hidden shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="px-5 py-5 border-b border-white/5 flex justify-between items-center bg-slate-900/50">
+          <h3 className="text-base font-black italic uppercase tracking-widest text-white">Insight Rules</h3>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors active:scale-90">
+            <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"></path></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-5 py-6 space-y-8">
+          <p className="text-[11px] text-slate-600 leading-relaxed">
+            위에서부터 조건을 모두 만족하는 첫 규칙의 메시지를 사용합니다. 템플릿 치환: {'{fair} {price} {oscillator} {fng} {mvrv} {deviation} {direction}'}, 변화량은 {'{trend:7d}'}처럼 지표:기간으로 지정합니다.
+          </p>
+          {(Object.keys(SCOPE_LABELS) as InsightScope[]).map(scope => (
+            <div key={scope} className="space-y-2">
+              <div className="flex justify-between items-center">
+                <p className="text-[11px] font-black uppercase tracking-widest text-slate-500">{SCOPE_LABELS[scope]}</p>
+                <button onClick={() => addRule(scope)} className="px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest bg-white/5 text-amber-500 hover:bg-white/10">+ Rule</button>
+              </div>
+              {rules.filter(r => r.scope === scope).map(rule => {
+                const editing = editingId === rule.id;
+                return (
+                  <div key={rule.id} className="px-4 py-3 rounded-2xl bg-white/5 border border-white/5 space-y-2">
+                    <div className="flex items-center gap-3">
+                      <button onClick={() => patchRule(rule.id, { enabled: !rule.enabled })} className={`w-9 h-5 shrink-0 rounded-full relative transition-colors ${rule.enabled ? 'bg-amber-500' : 'bg-slate-700'}`}>
+                        <span className={`absolute top-0.5 w-4 h-4 rounded-full bg-white transition-all ${rule.enabled ? 'left-[18px]' : 'left-0.5'}`}></span>
+                      </button>
+                      <span className={`px-2 py-0.5 rounded-md text-[10px] font-black uppercase tracking-widest ${SEVERITY_STYLES[rule.severity]}`}>{rule.severity}</span>
+                      <div className="flex-1 text-[12px] font-bold text-slate-300 truncate">
+                        {rule.conditions.length === 0 ? '항상 (기본값)' : rule.conditions.map(describeInsightCondition).join(' · ')}
+                      </div>
+                      <button onClick={() => move(rule.id, -1)} className="px-1 text-slate-600 hover:text-white text-[12px] font-black">↑</button>
+                      <button onClick={() => move(rule.id, 1)} className="px-1 text-slate-600 hover:text-white text-[12px] font-black">↓</button>
+                      <button onClick={() => setEditingId(editing ? null : rule.id)} className="px-2 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white">{editing ? 'Done' : 'Edit'}</button>
+                      <button onClick={() => update(rules.filter(r => r.id !== rule.id))} className="px-2 text-slate-600 hover:text-rose-500 text-[14px] font-black">×</button>
+                    </div>
+
+                    {editing ? (
+                      <div className="space-y-2 pt-2 border-t border-white/5">
+                        <div className="flex flex-wrap gap-2 items-center">
+                          <select value={rule.severity} onChange={e => patchRule(rule.id, { severity: e.target.value as InsightSeverity })} className={selectClass}>
+                            {SEVERITIES.map(s => <option key={s} value={s}>{s.toUpperCase()}</option>)}
+                          </select>
+                          <button onClick={() => patchRule(rule.id, { conditions: [...rule.conditions, { metric: 'oscillator', window: 'now', op: '>', value: 0 }] })} className="px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest bg-white/5 text-slate-400 hover:bg-white/10">+ Condition</button>
+                        </div>
+                        {rule.conditions.map((c, idx) => (
+                          <div key={idx} className="flex flex-wrap gap-2 items-center">
+                            <select value={c.metric} onChange={e => patchCondition(rule, idx, { metric: e.target.value as InsightMetric })} className={selectClass}>
+                              {(Object.keys(INSIGHT_METRICS) as InsightMetric[]).map(m => <option key={m} value={m}>{INSIGHT_METRICS[m]}</option>)}
+                            </select>
+                            <select value={c.window} onChange={e => patchCondition(rule, idx, { window: e.target.value as InsightWindow })} className={selectClass}>
+                              {INSIGHT_WINDOWS.map(w => <option key={w} value={w}>{w === 'now' ? 'NOW' : `Δ ${w.toUpperCase()}`}</option>)}
+                            </select>
+                            <select value={c.op} onChange={e => patchCondition(rule, idx, { op: e.target.value as InsightOperator })} className={selectClass}>
+                              {INSIGHT_OPERATORS.map(op => <option key={op} value={op}>{op === 'any' ? 'ANY' : op}</option>)}
+                            </select>
+                            {c.op !== 'any' && (
+                              <input type="number" step="any" value={c.value} onChange={e => patchCondition(rule, idx, { value: parseFloat(e.target.value) || 0 })} className={`${selectClass} w-24 mono`} />
+                            )}
+                            <button onClick={() => patchRule(rule.id, { conditions: rule.conditions.filter((_, i) => i !== idx) })} className="px-2 text-slate-600 hover:text-rose-500 text-[14px] font-black">×</button>
+                          </div>
+                        ))}
+                        <textarea value={rule.template} onChange={e => patchRule(rule.id, { template: e.target.value })} rows={3} placeholder="메시지 템플릿" className="w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[12px] text-white outline-none focus:border-amber-500" />
+                      </div>
+                    ) : (
+                      <p className="text-[12px] text-slate-500 italic leading-relaxed line-clamp-2">{rule.template || '(빈 메시지)'}</p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-5 bg-slate-950/50 border-t border-white/5 flex justify-end">
+          <button onClick={reset} className="px-5 py-2.5 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-rose-500 transition-all bg-white/5 hover:bg-rose-500/10 rounded-xl border border-white/5 active:scale-95">Reset Defaults</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InsightRulesEditor;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import {
+  OnchainDataset, importOnchainFile, fetchOnchainFromUrl, clearOnchainDataset, getOnchainSourceUrl
+} from '../services/onchainMetrics';
+import {
+  HalvingSchedule, DEFAULT_BLOCK_SOURCE_URL, getBlockSourceUrl, setBlockSourceUrl, syncHalvingSchedule, getHalvingLabel
+} from '../services/halving';
+
+interface OnchainSettingsProps {
+  dataset: OnchainDataset | null;
+  onChange: (dataset: OnchainDataset | null) => void;
+  halvingSchedule: HalvingSchedule;
+  onHalvingChange: (schedule: HalvingSchedule) => void;
+  onClose: () => void;
+}
+
+const OnchainSettings: React.FC<OnchainSettingsProps> = ({ dataset, onChange, halvingSchedule, onHalvingChange, onClose }) => {
+  const [url, setUrl] = useState(getOnchainSourceUrl);
+  const [blockUrl, setBlockUrl] = useState(getBlockSourceUrl);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (task: () => Promise<OnchainDataset | null>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      onChange(await task());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) run(() => importOnchainFile(file));
+    e.target.value = '';
+  };
+
+  const refreshBlocks = async () => {
+    setBusy(true);
+    setBlockSourceUrl(blockUrl);
+    onHalvingChange(await syncHalvingSchedule(true));
+    setBusy(false);
+  };
+
+  const nextHalving = halvingSchedule.events.find(e => e.estimated);
+
+  const handleClear = () => run(async () => {
+    await clearOnchainDataset();
+    setUrl('');
+    return null;
+  });
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-2 md:p-4 bg-black/95 backdrop-blur-md" onClick={onClose}>
+      <div className="bg-slate-900 w-full max-w-xl rounded-[2rem] border border-white/10 flex flex-col overflow-hidden shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="px-5 py-5 border-b border-white/5 flex justify-between items-center bg-slate-900/50">
+          <h3 className="text-base font-black italic uppercase tracking-widest text-white">On-Chain Source</h3>
+          <button onClick={onClose} className="p-2 hover:bg-white/5 rounded-full transition-colors active:scale-90">
+            <svg className="w-6 h-6 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12"></path></svg>
+          </button>
+        </div>
+
+        <div className="px-5 py-6 space-y-6">
+          <div className="bg-white/5 rounded-2xl p-4 text-[12px] font-bold text-slate-400 leading-relaxed">
+            {dataset ? (
+              <>
+                <p className="text-emerald-400 font-black uppercase tracking-widest text-[11px] mb-1">Loaded · {dataset.source}</p>
+                <p className="mono break-all">{dataset.label}</p>
+                <p className="mono">{dataset.points.length.toLocaleString()} rows · {dataset.points[0]?.date} ~ {dataset.points[dataset.points.length - 1]?.date}</p>
+              </>
+            ) : (
+              <p>온체인 데이터가 없어 MVRV Z-Score는 오실레이터 기반 추정치로 표시됩니다.</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-[11px] font-black uppercase tracking-widest text-slate-500">CSV / JSON File</p>
+            <p className="text-[11px] text-slate-600">열: date, realized_cap (필수), market_cap (선택) · CoinMetrics CapRealUSD / CapMrktCurUSD 지원</p>
+            <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} disabled={busy} className="block w-full text-[12px] text-slate-400 file:mr-3 file:px-4 file:py-2 file:rounded-xl file:border-0 file:bg-white/10 file:text-white file:font-black file:text-[11px] file:uppercase" />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-[11px] font-black uppercase tracking-widest text-slate-500">HTTP Source</p>
+            <div className="flex gap-2">
+              <input value={url} onChange={e => setUrl(e.target.value)} placeholder="https://..." className="flex-1 bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-[12px] mono text-white outline-none focus:border-amber-500" />
+              <button disabled={busy || !url.trim()} onClick={() => run(() => fetchOnchainFromUrl(url.trim()))} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-amber-500 text-black disabled:opacity-30 active:scale-95">Fetch</button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-[11px] font-black uppercase tracking-widest text-slate-500">Block Source (Halving)</p>
+            <p className="text-[11px] text-slate-600">Esplora 호환 API (mempool.space, 로컬 mempool/electrs 노드) · 반감기 시점과 다음 반감기 추정에 사용</p>
+            <div className="flex gap-2">
+              <input value={blockUrl} onChange={e => setBlockUrl(e.target.value)} placeholder={DEFAULT_BLOCK_SOURCE_URL} className="flex-1 bg-white/5 border border-white/10 rounded-xl px-4 py-2 text-[12px] mono text-white outline-none focus:border-amber-500" />
+              <button disabled={busy} onClick={refreshBlocks} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-amber-500 text-black disabled:opacity-30 active:scale-95">Sync</button>
+            </div>
+            <p className="text-[11px] mono text-slate-500">
+              <span className={halvingSchedule.source === 'network' ? 'text-emerald-400' : 'text-amber-500'}>{halvingSchedule.source}</span>
+              {' · '}height {halvingSchedule.tip.height.toLocaleString()} · {halvingSchedule.tip.avgBlockSeconds.toFixed(0)}s/block
+              {nextHalving && <> · {getHalvingLabel(nextHalving)} {new Date(nextHalving.timestamp).toISOString().split('T')[0]}</>}
+            </p>
+          </div>
+
+          {error && <p className="text-[12px] font-bold text-rose-400">{error}</p>}
+        </div>
+
+        <div className="p-5 bg-slate-950/50 border-t border-white/5 flex justify-end">
+          <button onClick={handleClear} disabled={busy || !dataset} className="px-5 py-2.5 text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-rose-500 transition-all bg-white/5 hover:bg-rose-500/10 rounded-xl border border-white/5 disabled:opacity-30 active:scale-95">Remove Data</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OnchainSettings;
@@ -0,0 +1,148 @@
+import React, { useMemo, useState } from 'react';
+import { ModelCoefficients, ModelWeights, PriceData } from '../types';
+import { buildDcaPlan, simulatePlanHistory } from '../services/planner';
+import { AssetConfig } from '../services/assets';
+import { HalvingSchedule } from '../services/halving';
+
+interface PlannerPanelProps {
+  asset: AssetConfig;
+  history: PriceData[];
+  price: number;
+  oscillator: number;
+  riskPercent: number;
+  usdKrw: number;
+  coefficients: ModelCoefficients;
+  weights: ModelWeights;
+  halvings: HalvingSchedule;
+  getFng?: (date: string) => number;
+  getMvrvZ?: (date: string) => number | null;
+}
+
+const HORIZONS = [
+  { label: '6M', days: 182 },
+  { label: '1Y', days: 365 },
+  { label: '2Y', days: 730 },
+  { label: '4Y', days: 1460 },
+];
+
+const PERIODS = [
+  { label: 'DAILY', value: 1 },
+  { label: 'WEEKLY', value: 7 },
+  { label: 'MONTHLY', value: 30 },
+];
+
+const MAX_SCHEDULE_ROWS = 24;
+
+const pct = (v: number) => `${v >= 0 ? '+' : ''}${(v * 100).toFixed(1)}%`;
+const usd = (v: number) => `$${Math.round(v).toLocaleString()}`;
+
+const PlannerPanel: React.FC<PlannerPanelProps> = ({ asset, history, price, oscillator, riskPercent, usdKrw, coefficients, weights, halvings, getFng, getMvrvZ }) => {
+  const [budget, setBudget] = useState(10000);
+  const [horizonDays, setHorizonDays] = useState(365);
+  const [periodDays, setPeriodDays] = useState(7);
+
+  const plan = useMemo(
+    () => buildDcaPlan({ asset, budget, horizonDays, periodDays, price, oscillator, riskPercent, coefficients, weights, halvings }),
+    [asset, budget, horizonDays, periodDays, price, oscillator, riskPercent, coefficients, weights, halvings]
+  );
+
+  const simulations = useMemo(
+    () => simulatePlanHistory(history, { asset, budget, horizonDays, periodDays, getFng, getMvrvZ, coefficients, weights, halvings }),
+    [asset, history, budget, horizonDays, periodDays, getFng, getMvrvZ, coefficients, weights, halvings]
+  );
+
+  const first = plan.periods[0];
+  const avgReturn = simulations.length > 0 ? simulations.reduce((acc, s) => acc + s.returnPct, 0) / simulations.length : null;
+  const avgDcaReturn = simulations.length > 0 ? simulations.reduce((acc, s) => acc + s.dcaReturnPct, 0) / simulations.length : null;
+
+  return (
+    <div className="bg-slate-900/40 rounded-[2.5rem] border border-white/5 overflow-hidden">
+      <div className="px-8 py-5 border-b border-white/5 flex flex-wrap justify-between items-center gap-4">
+        <h4 className="text-[12px] font-black tracking-widest text-amber-500 uppercase italic">DCA / Take-Profit Planner</h4>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="number" min={1} value={budget}
+            onChange={e => setBudget(Math.max(1, parseFloat(e.target.value) || 1))}
+            className="w-28 bg-white/5 border border-white/10 rounded-lg px-2.5 py-1 text-[11px] font-black mono text-white outline-none focus:border-amber-500"
+          />
+          {HORIZONS.map(h => (
+            <button key={h.days} onClick={() => setHorizonDays(h.days)} className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors ${horizonDays === h.days ? 'bg-amber-500 text-black' : 'bg-white/5 text-slate-500 hover:bg-white/10'}`}>{h.label}</button>
+          ))}
+          {PERIODS.map(p => (
+            <button key={p.value} onClick={() => setPeriodDays(p.value)} className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors ${periodDays === p.value ? 'bg-amber-500 text-black' : 'bg-white/5 text-slate-500 hover:bg-white/10'}`}>{p.label}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="px-8 py-6 grid grid-cols-2 md:grid-cols-4 gap-6 border-b border-white/5">
+        <div>
+          <p className="text-[11px] font-black uppercase tracking-widest text-slate-600 mb-1">This Period</p>
+          <p className="text-lg font-black mono italic text-white">{usd(first.amount)}</p>
+          <p className="text-[12px] mono italic text-slate-500">×{first.multiplier.toFixed(2)} · ₩{Math.round(first.amount * usdKrw).toLocaleString()}</p>
+        </div>
+        <div>
+          <p className="text-[11px] font-black uppercase tracking-widest text-slate-600 mb-1">Expected BTC</p>
+          <p className="text-lg font-black mono italic text-white">{plan.totalBtc.toFixed(6)}</p>
+          <p className="text-[12px] mono italic text-slate-500">{plan.periods.length} periods</p>
+        </div>
+        <div>
+          <p className="text-[11px] font-black uppercase tracking-widest text-slate-600 mb-1">Expected Avg Cost</p>
+          <p className="text-lg font-black mono italic text-white">{usd(plan.avgPrice)}</p>
+          <p className="text-[12px] mono italic text-slate-500">vs now {pct(plan.avgPrice / price - 1)}</p>
+        </div>
+        <div>
+          <p className="text-[11px] font-black uppercase tracking-widest text-slate-600 mb-1">Past Cycles (avg)</p>
+          <p className={`text-lg font-black mono italic ${avgReturn !== null && avgReturn >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{avgReturn !== null ? pct(avgReturn) : '-'}</p>
+          <p className="text-[12px] mono italic text-slate-500">equal DCA {avgDcaReturn !== null ? pct(avgDcaReturn) : '-'}</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 border-b border-white/5">
+        <div className="max-h-[320px] overflow-y-auto md:border-r border-white/5">
+          <div className="px-8 py-3 text-[11px] font-black uppercase tracking-widest text-slate-600 italic sticky top-0 bg-slate-900">Schedule (expected path)</div>
+          {plan.periods.slice(0, MAX_SCHEDULE_ROWS).map(p => (
+            <div key={p.date} className="grid grid-cols-[1.2fr_1fr_0.7fr_1fr] px-8 py-2 text-[11px] mono italic text-slate-400 border-b border-white/[0.03]">
+              <span>{p.date}</span>
+              <span className="text-right">{usd(p.expectedPrice)}</span>
+              <span className="text-right text-slate-600">×{p.multiplier.toFixed(2)}</span>
+              <span className="text-right text-white font-black">{usd(p.amount)}</span>
+            </div>
+          ))}
+          {plan.periods.length > MAX_SCHEDULE_ROWS && <div className="px-8 py-2 text-[11px] mono italic text-slate-600">… {plan.periods.length - MAX_SCHEDULE_ROWS} more</div>}
+        </div>
+        <div>
+          <div className="px-8 py-3 text-[11px] font-black uppercase tracking-widest text-slate-600 italic">Take-Profit Ladder ({plan.periods[plan.periods.length - 1].date})</div>
+          {plan.takeProfits.map((tp, i) => (
+            <div key={i} className="grid grid-cols-[1fr_1fr_1fr] px-8 py-3 text-[12px] mono italic text-slate-400 border-b border-white/[0.03]">
+              <span>Band {(tp.bandPosition * 100).toFixed(0)}% · osc +{tp.oscillator.toFixed(2)}</span>
+              <span className="text-right text-rose-400 font-black">{usd(tp.price)}</span>
+              <span className="text-right">sell {(tp.sellFraction * 100).toFixed(0)}%</span>
+            </div>
+          ))}
+          <p className="px-8 py-4 text-[11px] text-slate-600 leading-relaxed">밴드 위치는 적정가(0%)~상단 밴드(100%)의 로그 구간 기준이며, 매 회차 실제 리스크로 매수액을 다시 계산해야 합니다.</p>
+        </div>
+      </div>
+
+      <div className="max-h-[320px] overflow-y-auto">
+        <div className="grid grid-cols-[1.6fr_1fr_1fr_1fr_0.6fr_0.8fr_0.8fr] px-8 py-3 text-[11px] font-black uppercase tracking-widest text-slate-600 italic sticky top-0 bg-slate-900">
+          <span>Window</span><span className="text-right">Invested</span><span className="text-right">Realized</span><span className="text-right">Final</span><span className="text-right">TP</span><span className="text-right">Plan</span><span className="text-right">DCA</span>
+        </div>
+        {simulations.length === 0 ? <div className="py-8 text-center opacity-20 text-[12px] uppercase font-black tracking-widest italic">Not Enough History</div> :
+          simulations.map(s => (
+            <div key={s.startDate} className="grid grid-cols-[1.6fr_1fr_1fr_1fr_0.6fr_0.8fr_0.8fr] px-8 py-2 text-[11px] mono italic text-slate-400 border-b border-white/[0.03]">
+              <span>{s.startDate} ~ {s.endDate.slice(2)}</span>
+              <span className="text-right">{usd(s.invested)}</span>
+              <span className="text-right">{usd(s.realized)}</span>
+              <span className="text-right text-white">{usd(s.finalValue)}</span>
+              <span className="text-right">{s.takeProfitsHit}</span>
+              <span className={`text-right font-black ${s.returnPct >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{pct(s.returnPct)}</span>
+              <span className={`text-right ${s.dcaReturnPct >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{pct(s.dcaReturnPct)}</span>
+            </div>
+          ))
+        }
+      </div>
+    </div>
+  );
+};
+
+export default PlannerPanel;
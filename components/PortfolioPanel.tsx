@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import {
+  PortfolioTrade, TradeCurrency, TradeSide, summarizePortfolio, tradesToCsv, parseTradesCsv, mergeTrades
+} from '../services/portfolio';
+import { downloadText } from '../services/dataTransfer';
+
+interface PortfolioPanelProps {
+  trades: PortfolioTrade[];
+  onChange: (trades: PortfolioTrade[]) => void;
+  price: number;
+  usdKrw: number;
+  fair: number;
+  upper: number;
+  lower: number;
+}
+
+const inputClass = "bg-white/5 border border-white/10 rounded-lg px-2.5 py-1 text-[11px] font-black mono text-white outline-none focus:border-sky-400";
+
+const signed = (v: number, prefix: string) => `${v >= 0 ? '+' : '-'}${prefix}${Math.abs(Math.round(v)).toLocaleString()}`;
+const pnlColor = (v: number) => v >= 0 ? 'text-emerald-400' : 'text-rose-400';
+
+const PortfolioPanel: React.FC<PortfolioPanelProps> = ({ trades, onChange, price, usdKrw, fair, upper, lower }) => {
+  const [side, setSide] = useState<TradeSide>('buy');
+  const [currency, setCurrency] = useState<TradeCurrency>('USD');
+  const [date, setDate] = useState(() => new Date().toISOString().split('T')[0]);
+  const [amount, setAmount] = useState('');
+  const [tradePrice, setTradePrice] = useState('');
+  const [fee, setFee] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const summary = useMemo(() => summarizePortfolio(trades, price, usdKrw), [trades, price, usdKrw]);
+
+  const addTrade = () => {
+    const a = parseFloat(amount);
+    const p = parseFloat(tradePrice);
+    const f = parseFloat(fee) || 0;
+    if (!(a > 0) || !(p > 0) || f < 0 || !date) {
+      setError('수량과 단가를 올바르게 입력하세요.');
+      return;
+    }
+    setError(null);
+    onChange([...trades, { id: `trade-${Date.now()}`, date, side, amount: a, price: p, fee: f, currency, usdKrw }]);
+    setAmount('');
+    setTradePrice('');
+    setFee('');
+  };
+
+  const exportCsv = () =>
+    downloadText(`btc-compass-portfolio-${new Date().toISOString().split('T')[0]}.csv`, tradesToCsv(trades), 'text/csv');
+
+  const importCsv = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(mergeTrades(trades, parseTradesCsv(await file.text(), usdKrw)));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // 모델 기준 평가: 평균 단가의 적정가 대비 위치와 밴드 도달 시 평가액
+  const costVsFair = summary.avgCostUsd > 0 ? summary.avgCostUsd / fair - 1 : null;
+  const scenarios = [
+    { label: 'Lower', value: summary.holdings * lower, color: 'text-emerald-500' },
+    { label: 'Fair', value: summary.holdings * fair, color: 'text-amber-500' },
+    { label: 'Upper', value: summary.holdings * upper, color: 'text-rose-500' },
+  ];
+
+  return (
+    <div className="bg-slate-900/40 rounded-[2.5rem] border border-white/5 overflow-hidden">
+      <div className="px-8 py-5 border-b border-white/5 flex flex-wrap justify-between items-center gap-4">
+        <h4 className="text-[12px] font-black tracking-widest text-sky-400 uppercase italic">Portfolio</h4>
+        <div className="flex items-center gap-2">
+          <label className="px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest bg-white/5 text-slate-400 hover:bg-white/10 cursor-pointer">
+            Import CSV
+            <input type="file" accept=".csv,text/csv" onChange={importCsv} className="hidden" />
+          </label>
+          <button onClick={exportCsv} disabled={trades.length === 0} className="px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest bg-white/5 text-slate-400 hover:bg-white/10 disabled:opacity-30">Export CSV</button>
+        </div>
+      </div>
+
+      <div className="px-8 py-6 grid grid-cols-2 md:grid-cols-4 gap-6 border-b border-white/5">
+        <div>
+          <p className="text-[11px] font-black uppercase tracking-widest text-slate-600 mb-1">Holdings</p>
+          <p className="text-lg font-black mono italic text-white">{summary.holdings.toFixed(6)} <span className="text-[11px] text-slate-500">BTC</span></p>
+          <p className="text-[12px] mono italic text-slate-500">${Math.round(summary.marketValueUsd).toLocaleString()} · ₩{Math.round(summary.marketValueKrw).toLocaleString()}</p>
+        </div>
+        <div>
+          <p className="text-[11px] font-black uppercase tracking-widest text-slate-600 mb-1">Avg Cost</p>
+          <p className="text-lg font-black mono italic text-white">${Math.round(summary.avgCostUsd).toLocaleString()}</p>
+          <p className="text-[12px] mono italic text-slate-500">
+            ₩{Math.round(summary.avgCostKrw).toLocaleString()}
+            {costVsFair !== null && <span className={`ml-2 ${costVsFair <= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>Fair {costVsFair >= 0 ? '+' : ''}{(costVsFair * 100).toFixed(1)}%</span>}
+          </p>
+        </div>
+        <div>
+          <p className="text-[11px] font-black uppercase tracking-widest text-slate-600 mb-1">Unrealized</p>
+          <p className={`text-lg font-black mono italic ${pnlColor(summary.unrealizedUsd)}`}>{signed(summary.unrealizedUsd, '$')}</p>
+          <p className={`text-[12px] mono italic ${pnlColor(summary.unrealizedKrw)}`}>{signed(summary.unrealizedKrw, '₩')}</p>
+        </div>
+        <div>
+          <p className="text-[11px] font-black uppercase tracking-widest text-slate-600 mb-1">Realized</p>
+          <p className={`text-lg font-black mono italic ${pnlColor(summary.realizedUsd)}`}>{signed(summary.realizedUsd, '$')}</p>
+          <p className={`text-[12px] mono italic ${pnlColor(summary.realizedKrw)}`}>{signed(summary.realizedKrw, '₩')}</p>
+        </div>
+      </div>
+
+      {summary.holdings > 0 && (
+        <div className="px-8 py-4 border-b border-white/5 flex flex-wrap gap-6 text-[12px] font-bold mono italic">
+          {scenarios.map(s => (
+            <span key={s.label} className="text-slate-500">@ {s.label} <span className={s.color}>${Math.round(s.value).toLocaleString()}</span> <span className={pnlColor(s.value - summary.costBasisUsd)}>({signed(s.value - summary.costBasisUsd, '$')})</span></span>
+          ))}
+        </div>
+      )}
+
+      <div className="px-8 py-5 flex flex-wrap items-center gap-2 border-b border-white/5">
+        {(['buy', 'sell'] as TradeSide[]).map(s => (
+          <button key={s} onClick={() => setSide(s)} className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest transition-colors ${side === s ? (s === 'buy' ? 'bg-emerald-500 text-black' : 'bg-rose-500 text-white') : 'bg-white/5 text-slate-500 hover:bg-white/10'}`}>{s}</button>
+        ))}
+        <input type="date" value={date} onChange={e => setDate(e.target.value)} className={inputClass} />
+        <input type="number" min={0} step="any" placeholder="BTC" value={amount} onChange={e => setAmount(e.target.value)} className={`${inputClass} w-24`} />
+        <input type="number" min={0} step="any" placeholder="Price" value={tradePrice} onChange={e => setTradePrice(e.target.value)} className={`${inputClass} w-28`} />
+        <input type="number" min={0} step="any" placeholder="Fee" value={fee} onChange={e => setFee(e.target.value)} className={`${inputClass} w-20`} />
+        <select value={currency} onChange={e => setCurrency(e.target.value as TradeCurrency)} className={inputClass}>
+          <option value="USD">USD</option>
+          <option value="KRW">KRW</option>
+        </select>
+        <button onClick={addTrade} className="px-4 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest bg-amber-500 text-black hover:bg-amber-400 active:scale-95 transition-all">Add</button>
+        {error && <span className="text-[12px] font-bold text-rose-400">{error}</span>}
+      </div>
+
+      <div className="max-h-[320px] overflow-y-auto">
+        {trades.length === 0 ? <div className="py-10 text-center opacity-20 text-[12px] uppercase font-black tracking-widest italic">No Trades</div> :
+          [...trades].reverse().map(t => (
+            <div key={t.id} className="grid grid-cols-[1.2fr_0.7fr_1.2fr_1.4fr_1fr_0.3fr] items-center px-8 py-2 text-[11px] mono italic text-slate-400 border-b border-white/[0.03]">
+              <span>{t.date}</span>
+              <span className={`font-black not-italic uppercase ${t.side === 'buy' ? 'text-emerald-400' : 'text-rose-400'}`}>{t.side}</span>
+              <span className="text-right">{t.amount.toFixed(6)} BTC</span>
+              <span className="text-right">{t.currency === 'USD' ? '$' : '₩'}{t.price.toLocaleString()}</span>
+              <span className="text-right text-slate-600">fee {t.fee.toLocaleString()}</span>
+              <button onClick={() => onChange(trades.filter(x => x.id !== t.id))} className="text-right text-slate-600 hover:text-rose-500 text-[14px] font-black not-italic">×</button>
+            </div>
+          ))
+        }
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioPanel;
@@ -1,10 +1,6 @@
 
 import React from 'react';
-
-interface Stage {
-  threshold: number;
-  label: string;
-}
+import { Stage, findStageIndex } from '../services/marketStatus';
 
 interface StageCardProps {
   title: string;
@@ -12,12 +8,11 @@ interface StageCardProps {
   currentVal: number;
   displayValue: string | number; // 통합된 현재 값 표시용
   subLabel: string;             // 현재 값 하단의 설명
+  badge?: string;               // 제목 옆 상태 표시 (예: 추정치 여부)
 }
 
-const StageCard: React.FC<StageCardProps> = ({ title, stages, currentVal, displayValue, subLabel }) => {
-  // 내림차순으로 정렬된 stages에서 현재 값이 threshold보다 크거나 같은 첫 번째 단계를 찾음
-  // 이를 통해 25, 45, 55 등의 경계값이 하위 구간이 아닌 정확한 해당 구간에 배정됨
-  const activeIndex = stages.findIndex(stage => currentVal >= stage.threshold);
+const StageCard: React.FC<StageCardProps> = ({ title, stages, currentVal, displayValue, subLabel, badge }) => {
+  const activeIndex = findStageIndex(stages, currentVal);
 
   return (
     <div className="bg-slate-900/50 backdrop-blur-md border border-white/5 p-6 rounded-[1.5rem] shadow-xl text-left flex flex-col">
@@ -26,6 +21,9 @@ const StageCard: React.FC<StageCardProps> = ({ title, stages, currentVal, displa
         <div className="flex items-center gap-2.5 mb-2">
           <div className="w-1.5 h-3.5 bg-amber-500 rounded-full"></div>
           <h3 className="text-sm font-black text-slate-400 uppercase tracking-widest italic">{title}</h3>
+          {badge && (
+            <span className="px-2 py-0.5 rounded-md bg-white/5 border border-white/10 text-[10px] font-black uppercase tracking-widest text-slate-500">{badge}</span>
+          )}
         </div>
         <div className="flex flex-col">
           <span className="text-4xl font-black text-white italic mono tracking-tighter">{displayValue}</span>
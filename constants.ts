@@ -1,7 +1,7 @@
+import { FiatCurrency, FxRates, ModelCoefficients, ModelEnsemble } from './types';
 
 export const GENESIS_DATE = new Date('2009-01-03');
-export const HALVING_DATE = new Date('2024-04-20');
-export const CHART_START_DATE = new Date('2017-07-01');
+export const CHART_START_DATE = new Date('2010-07-18');
 
 export const A_STD = 1.48e-17;
 export const B_STD = 5.78;
@@ -9,6 +9,29 @@ export const B_STD = 5.78;
 export const A_DECAY = 1.48e-15;
 export const B_DECAY = 5.25;
 
+export const PINNED_COEFFICIENTS: ModelCoefficients = { aStd: A_STD, bStd: B_STD, aDecay: A_DECAY, bDecay: B_DECAY };
+
+// Stock-to-Flow: 시가총액 = e^S2F_INTERCEPT * SF^S2F_EXPONENT
+export const S2F_INTERCEPT = 14.6;
+export const S2F_EXPONENT = 3.3;
+
+// Rainbow 로그 회귀 중심선: log10(price) = RAINBOW_SLOPE * ln(days) + RAINBOW_INTERCEPT
+export const RAINBOW_SLOPE = 2.66167155005961;
+export const RAINBOW_INTERCEPT = -17.9183761889864;
+
+export const FIAT_CURRENCIES: FiatCurrency[] = ['KRW', 'EUR', 'JPY', 'GBP'];
+
+// 환율 조회 실패 + 캐시 없음일 때의 대체 환율 (화면에 대체값임을 표시)
+export const FALLBACK_FX_RATES: FxRates = { KRW: 1440, EUR: 0.92, JPY: 150, GBP: 0.79 };
+
+/**
+ * 기본 하이브리드 앙상블: Decaying(40%) + Cycle(30%) + Standard(30%)
+ */
+export const DEFAULT_ENSEMBLES: ModelEnsemble[] = [
+  { id: 'hybrid', name: 'HYBRID', weights: { decaying: 0.4, cycle: 0.3, standard: 0.3 }, builtIn: true },
+  { id: 'power-law', name: 'POWER LAW', weights: { standard: 0.5, decaying: 0.5 }, builtIn: true },
+];
+
 /**
  * 지표 판정 기준: 경계값 충돌을 방지하기 위해 내림차순(Descending) 판정 로직에 최적화된 임계값 설정
  */
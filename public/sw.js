@@ -0,0 +1,60 @@
+// 앱 셸 오프라인 캐시: 셸(HTML·매니페스트·번들 데이터셋)을 설치 시 미리 받고,
+// 같은 출처의 빌드 산출물과 CDN 의존성은 처음 받을 때 저장하여 캐시 우선으로 응답
+// 시세 API 응답은 캐시하지 않음 (데이터 계층의 IndexedDB 캐시가 담당)
+const CACHE_PREFIX = 'btc-compass-shell-';
+const CACHE_NAME = `${CACHE_PREFIX}v1`;
+
+const APP_SHELL = ['./', 'index.html', 'manifest.json', 'data/btc-daily.json'];
+
+// importmap의 모듈, Tailwind, 폰트 (셸 렌더링에 필요)
+const CDN_HOSTS = ['esm.sh', 'cdn.tailwindcss.com', 'cdn.jsdelivr.net', 'cdn-icons-png.flaticon.com'];
+
+self.addEventListener('install', (event) => {
+  // 개별 요청 실패(임시 환경의 404 등)가 설치 전체를 막지 않도록 하나씩 저장
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => Promise.all(APP_SHELL.map((url) => cache.add(url).catch(() => undefined))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((cacheNames) => Promise.all(
+        cacheNames
+          .filter((cacheName) => cacheName.startsWith(CACHE_PREFIX) && cacheName !== CACHE_NAME)
+          .map((cacheName) => caches.delete(cacheName))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isShellRequest = (request) => {
+  const url = new URL(request.url);
+  if (url.origin === self.location.origin) return true;
+  return CDN_HOSTS.includes(url.hostname);
+};
+
+// 캐시 우선, 응답 후 백그라운드에서 갱신 (다음 실행 시 새 버전 사용)
+const cacheFirst = async (event) => {
+  const cache = await caches.open(CACHE_NAME);
+  const request = event.request;
+  const cached = await cache.match(request, { ignoreSearch: request.mode === 'navigate' })
+    || (request.mode === 'navigate' ? await cache.match('index.html') : undefined);
+  const network = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    });
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+};
+
+self.addEventListener('fetch', (event) => {
+  if (event.request.method !== 'GET' || !isShellRequest(event.request)) return;
+  event.respondWith(cacheFirst(event));
+});
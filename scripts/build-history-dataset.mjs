@@ -0,0 +1,55 @@
+// 일간 종가 CSV(date,close)를 번들 데이터셋(public/data/btc-daily.json)으로 변환
+// 사용법: node scripts/build-history-dataset.mjs <input.csv> [output.json]
+// 압축 형식과 checksum은 services/historicalDataset.ts 의 decodeHistoryDataset 과 일치해야 합니다.
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+const [input, output = 'public/data/btc-daily.json'] = process.argv.slice(2);
+if (!input) {
+  console.error('Usage: node scripts/build-history-dataset.mjs <input.csv> [output.json]');
+  process.exit(1);
+}
+
+const fnv1a = (values) => {
+  let hash = 0x811c9dc5;
+  for (const v of values) {
+    const s = `${v};`;
+    for (let i = 0; i < s.length; i++) {
+      hash ^= s.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+const SCALE = 10000; // 1 USD = 10000 units
+
+const rows = new Map();
+for (const line of readFileSync(input, 'utf8').split(/\r?\n/)) {
+  const [date, close] = line.split(',').map(s => s.trim());
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) continue; // 헤더/빈 줄 무시
+  const price = parseFloat(close);
+  if (!Number.isFinite(price) || price <= 0) throw new Error(`Invalid close on ${date}: ${close}`);
+  rows.set(date, price);
+}
+
+const dates = [...rows.keys()].sort();
+if (dates.length === 0) throw new Error('No rows found');
+
+// 누락일은 직전 종가로 채워 하루 간격 시퀀스 생성
+const units = [];
+let last = rows.get(dates[0]);
+let filled = 0;
+for (let d = new Date(`${dates[0]}T00:00:00Z`); d <= new Date(`${dates[dates.length - 1]}T00:00:00Z`); d.setUTCDate(d.getUTCDate() + 1)) {
+  const key = d.toISOString().split('T')[0];
+  if (rows.has(key)) last = rows.get(key);
+  else filled++;
+  units.push(Math.max(1, Math.round(last * SCALE)));
+}
+
+const deltas = units.map((c, i) => (i === 0 ? c : c - units[i - 1]).toString(36)).join(',');
+const dataset = { version: 1, asset: 'BTC', start: dates[0], count: units.length, scale: SCALE, checksum: fnv1a(units), deltas };
+
+mkdirSync(dirname(output), { recursive: true });
+writeFileSync(output, JSON.stringify(dataset));
+console.log(`${output}: ${units.length} days from ${dates[0]} (${filled} forward-filled)`);
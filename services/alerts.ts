@@ -0,0 +1,176 @@
+import { MarketStatus } from '../types';
+
+/**
+ * 가격/국면 알림 규칙 엔진
+ * 새 평가 시점(AlertContext)이 들어올 때마다 직전 시점과 비교하여 "교차"가 일어난 규칙만 발동합니다.
+ */
+export type CrossDirection = 'above' | 'below';
+export type BandKey = 'fair' | 'upper' | 'lower';
+
+export type AlertCondition =
+  | { kind: 'priceBand'; band: BandKey; direction: CrossDirection }
+  | { kind: 'oscillator'; threshold: number; direction: CrossDirection }
+  | { kind: 'status'; status: MarketStatus }
+  | { kind: 'fng'; threshold: number; direction: CrossDirection };
+
+export interface AlertRule {
+  id: string;
+  enabled: boolean;
+  cooldownMinutes: number;
+  condition: AlertCondition;
+  lastTriggeredAt?: number;
+}
+
+export interface AlertContext {
+  timestamp: number;
+  price: number;
+  fair: number;
+  upper: number;
+  lower: number;
+  oscillator: number;
+  status: MarketStatus;
+  fng: number;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  timestamp: number;
+  message: string;
+  price: number;
+}
+
+const RULES_KEY = 'btc_compass_alert_rules';
+const LOG_KEY = 'btc_compass_alert_log';
+const CONTEXT_KEY = 'btc_compass_alert_context';
+const MAX_LOG_ENTRIES = 200;
+
+const BAND_LABELS: Record<BandKey, string> = { fair: '적정 가치', upper: '상단 밴드', lower: '하단 밴드' };
+
+export const describeCondition = (c: AlertCondition): string => {
+  const dir = (d: CrossDirection) => d === 'above' ? '상향 돌파' : '하향 이탈';
+  switch (c.kind) {
+    case 'priceBand': return `가격 ${BAND_LABELS[c.band]} ${dir(c.direction)}`;
+    case 'oscillator': return `오실레이터 ${c.threshold >= 0 ? '+' : ''}${c.threshold} ${dir(c.direction)}`;
+    case 'status': return `국면 전환 → ${c.status}`;
+    case 'fng': return `공포·탐욕 ${c.threshold} ${dir(c.direction)}`;
+  }
+};
+
+const crossed = (prev: number, curr: number, level: number, direction: CrossDirection) =>
+  direction === 'above' ? prev < level && curr >= level : prev >= level && curr < level;
+
+export const isTriggered = (c: AlertCondition, prev: AlertContext, curr: AlertContext): boolean => {
+  switch (c.kind) {
+    case 'priceBand': return crossed(prev.price / prev[c.band], curr.price / curr[c.band], 1, c.direction);
+    case 'oscillator': return crossed(prev.oscillator, curr.oscillator, c.threshold, c.direction);
+    case 'status': return prev.status !== c.status && curr.status === c.status;
+    case 'fng': return crossed(prev.fng, curr.fng, c.threshold, c.direction);
+  }
+};
+
+/**
+ * 시간순 평가 시점들을 차례로 적용. 쿨다운 중인 규칙은 건너뛰며 갱신된 규칙과 발생 이벤트를 반환
+ */
+export const evaluateAlerts = (rules: AlertRule[], prev: AlertContext | null, contexts: AlertContext[]) => {
+  const events: AlertEvent[] = [];
+  let last = prev;
+  const updated = rules.map(r => ({ ...r }));
+  contexts.forEach(ctx => {
+    if (last && ctx.timestamp > last.timestamp) {
+      updated.forEach(rule => {
+        if (!rule.enabled) return;
+        if (rule.lastTriggeredAt && ctx.timestamp - rule.lastTriggeredAt < rule.cooldownMinutes * 60000) return;
+        if (!isTriggered(rule.condition, last!, ctx)) return;
+        rule.lastTriggeredAt = ctx.timestamp;
+        events.push({
+          id: `${rule.id}-${ctx.timestamp}`,
+          ruleId: rule.id,
+          timestamp: ctx.timestamp,
+          message: describeCondition(rule.condition),
+          price: ctx.price,
+        });
+      });
+    }
+    if (!last || ctx.timestamp >= last.timestamp) last = ctx;
+  });
+  return { rules: updated, events, context: last };
+};
+
+// --- 저장소 ---
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+export const loadAlertRules = (): AlertRule[] => readJson<AlertRule[]>(RULES_KEY, []);
+export const saveAlertRules = (rules: AlertRule[]) => localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+export const loadAlertLog = (): AlertEvent[] => readJson<AlertEvent[]>(LOG_KEY, []);
+export const saveAlertLog = (log: AlertEvent[]) => localStorage.setItem(LOG_KEY, JSON.stringify(log.slice(0, MAX_LOG_ENTRIES)));
+export const clearAlertLog = () => localStorage.removeItem(LOG_KEY);
+
+/**
+ * 저장된 규칙/직전 시점에 새 시점을 적용하고 결과를 저장. 새로 발생한 이벤트(최신순)를 반환
+ */
+export const processAlerts = (contexts: AlertContext[]): AlertEvent[] => {
+  const rules = loadAlertRules();
+  const prev = readJson<AlertContext | null>(CONTEXT_KEY, null);
+  const result = evaluateAlerts(rules, prev, contexts);
+  if (result.context) localStorage.setItem(CONTEXT_KEY, JSON.stringify(result.context));
+  if (result.events.length === 0) return [];
+  saveAlertRules(result.rules);
+  const events = result.events.reverse();
+  saveAlertLog([...events, ...loadAlertLog()]);
+  return events;
+};
+
+// --- 브라우저 알림 ---
+
+export const canNotify = (): boolean => typeof Notification !== 'undefined';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (!canNotify()) return 'unsupported';
+  return Notification.permission === 'default' ? Notification.requestPermission() : Notification.permission;
+};
+
+/**
+ * 브라우저 알림 표시. 서비스 워커가 페이지를 제어 중이면 showNotification을 사용
+ * (Android Chrome은 Notification 생성자 호출 시 TypeError), 아니면 생성자로 표시.
+ * 표시 실패는 경고만 남김 (알림 기록은 이미 저장됨)
+ */
+export const deliverAlert = async (event: AlertEvent): Promise<void> => {
+  if (!canNotify() || Notification.permission !== 'granted') return;
+  const title = 'BIT COMPASS ALERT';
+  const options: NotificationOptions = {
+    body: `${event.message} · $${Math.round(event.price).toLocaleString()}`,
+    tag: event.ruleId,
+  };
+  try {
+    if (typeof navigator !== 'undefined' && navigator.serviceWorker?.controller) {
+      const registration = await navigator.serviceWorker.ready;
+      await registration.showNotification(title, options);
+      return;
+    }
+    new Notification(title, options);
+  } catch (e) {
+    console.warn("Alert notification failed:", e);
+  }
+};
+
+/**
+ * 빠른 추가용 기본 규칙 프리셋
+ */
+export const ALERT_PRESETS: AlertCondition[] = [
+  { kind: 'priceBand', band: 'upper', direction: 'above' },
+  { kind: 'priceBand', band: 'fair', direction: 'above' },
+  { kind: 'priceBand', band: 'fair', direction: 'below' },
+  { kind: 'priceBand', band: 'lower', direction: 'below' },
+  { kind: 'status', status: MarketStatus.SELL },
+  { kind: 'status', status: MarketStatus.ACCUMULATE },
+  { kind: 'fng', threshold: 25, direction: 'below' },
+];
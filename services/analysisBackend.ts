@@ -0,0 +1,366 @@
+import { AIAnalysis, DateInsight, InsightSeverity, ModelValues, Snapshot, TrendWindow } from '../types';
+import { InsightRule, TREND_WINDOWS, analyzeSnapshots } from './insights';
+import { Stage, findStage } from './marketStatus';
+import { AssetConfig } from './assets';
+
+/**
+ * 교체 가능한 스냅샷 분석 백엔드
+ *
+ * 로컬 규칙 엔진이 기본이며, Gemini 또는 OpenAI 호환 엔드포인트(Ollama, LM Studio 등)에
+ * 스냅샷·모델 값·단계 라벨로 만든 프롬프트를 보내 AIAnalysis 형식의 JSON을 받습니다.
+ * 응답은 검증 후 사용하고, 오류·시간 초과·형식 불일치 시 로컬 엔진 결과로 대체합니다.
+ */
+export type AnalysisProviderId = 'local' | 'gemini' | 'openai' | 'mock';
+
+export interface AnalysisInput {
+  asset: AssetConfig;
+  snapshots: Snapshot[];   // 최신순
+  model: ModelValues;
+  rules: InsightRule[];    // 로컬 엔진 및 대체 결과용
+}
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  analyze: (input: AnalysisInput, signal: AbortSignal) => Promise<AIAnalysis>;
+}
+
+export interface AnalysisOutcome {
+  analysis: AIAnalysis;
+  providerId: AnalysisProviderId;
+  label: string;
+  fallbackReason?: string; // 원격 분석 실패로 로컬 결과를 사용한 경우의 사유
+}
+
+export interface AnalysisSettings {
+  provider: AnalysisProviderId;
+  timeoutMs: number;
+  geminiModel: string;
+  openaiUrl: string;
+  openaiModel: string;
+}
+
+export const ANALYSIS_PROVIDERS: { id: AnalysisProviderId; label: string }[] = [
+  { id: 'local', label: 'Local Engine' },
+  { id: 'gemini', label: 'Gemini' },
+  { id: 'openai', label: 'OpenAI Compatible' },
+  { id: 'mock', label: 'Mock (Offline)' },
+];
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  provider: 'local',
+  timeoutMs: 20000,
+  geminiModel: 'gemini-2.5-flash',
+  openaiUrl: 'http://localhost:11434/v1',
+  openaiModel: 'llama3.1',
+};
+
+const PROMPT_SNAPSHOTS = 60;
+const SEVERITIES: InsightSeverity[] = ['info', 'positive', 'warning', 'critical'];
+
+// --- 프롬프트 ---
+
+const stageLabel = (stages: Stage[], value: number) =>
+  (findStage(stages, value) ?? stages[stages.length - 1]).label;
+
+export const ANALYSIS_SYSTEM_PROMPT = [
+  '당신은 암호화폐 장기 가치 모델을 해석하는 퀀트 애널리스트입니다. 분석 대상 자산은 입력의 asset입니다.',
+  '주어진 스냅샷 로그와 모델 값만 근거로 한국어로 분석하고, 투자 권유 표현은 피하세요.',
+  '반드시 다음 JSON 형식으로만 응답하세요:',
+  '{"summary": string, "severity": "info"|"positive"|"warning"|"critical", "trends": {"1d"?: number, "7d"?: number, "30d"?: number}, "insights": [{"timestamp": number, "insight": string, "severity": "info"|"positive"|"warning"|"critical"}]}',
+  'insights의 timestamp는 입력 스냅샷의 timestamp 값을 그대로 사용하고, 의미 있는 변화가 있는 시점에만 작성하세요.',
+].join('\n');
+
+export const buildAnalysisPrompt = (input: AnalysisInput): string => {
+  const { asset, snapshots, model } = input;
+  const latest = snapshots[0];
+  const local = analyzeSnapshots(snapshots, input.rules);
+  const round = (v: number, digits = 0) => Number(v.toFixed(digits));
+
+  const payload = {
+    asset: asset.name,
+    model: {
+      weightedFair: round(model.weighted),
+      upper: round(model.upper),
+      lower: round(model.lower),
+      components: Object.fromEntries(Object.entries(model.components).map(([id, band]) => [id, round(band!.fair)])),
+    },
+    current: latest && {
+      price: round(latest.price),
+      status: latest.status,
+      oscillator: round(latest.oscillator, 3),
+      oscillatorStage: stageLabel(asset.stages.OSCILLATOR, latest.oscillator),
+      fng: latest.fng,
+      fngStage: stageLabel(asset.stages.FNG, latest.fng),
+      mvrv: round(latest.mvrv, 2),
+      mvrvStage: stageLabel(asset.stages.MVRV, latest.mvrv),
+    },
+    trendScores: local.trends ?? {},
+    snapshots: snapshots.slice(0, PROMPT_SNAPSHOTS).map(s => ({
+      timestamp: s.timestamp,
+      date: new Date(s.timestamp).toISOString(),
+      status: s.status,
+      price: round(s.price),
+      fair: round(s.fair),
+      oscillator: round(s.oscillator, 3),
+      fng: s.fng,
+      mvrv: round(s.mvrv, 2),
+    })),
+  };
+
+  return [
+    '스냅샷은 4시간 간격이며 최신순입니다. trendScores는 기간별 종합 추세 점수(양수 = 과열 방향)입니다.',
+    JSON.stringify(payload),
+  ].join('\n');
+};
+
+// --- 응답 검증 ---
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isSeverity = (v: unknown): v is InsightSeverity => SEVERITIES.includes(v as InsightSeverity);
+
+/**
+ * 원격 응답을 AIAnalysis로 검증. 요약이 없거나 형식이 다르면 예외를 던지고,
+ * 존재하지 않는 시점을 가리키는 개별 코멘트는 버립니다.
+ */
+export const validateAnalysis = (raw: unknown, snapshots: Snapshot[]): AIAnalysis => {
+  const value = typeof raw === 'string' ? JSON.parse(raw.trim().replace(/^```(?:json)?\s*|\s*```$/g, '')) : raw;
+  if (!isRecord(value)) throw new Error('응답이 JSON 객체가 아닙니다');
+  if (typeof value.summary !== 'string' || !value.summary.trim()) throw new Error('summary 누락');
+  if (value.insights !== undefined && !Array.isArray(value.insights)) throw new Error('insights가 배열이 아닙니다');
+
+  const known = new Set(snapshots.map(s => s.timestamp));
+  const insights: DateInsight[] = [];
+  (value.insights as unknown[] ?? []).forEach(item => {
+    if (!isRecord(item) || typeof item.insight !== 'string' || !item.insight.trim()) return;
+    const timestamp = Number(item.timestamp);
+    if (!known.has(timestamp)) return;
+    insights.push({ timestamp, insight: item.insight.trim(), severity: isSeverity(item.severity) ? item.severity : undefined });
+  });
+
+  let trends: AIAnalysis['trends'];
+  if (isRecord(value.trends)) {
+    trends = {};
+    TREND_WINDOWS.forEach((w: TrendWindow) => {
+      const v = (value.trends as Record<string, unknown>)[w];
+      if (typeof v === 'number' && Number.isFinite(v)) trends![w] = v;
+    });
+  }
+
+  return {
+    summary: value.summary.trim(),
+    severity: isSeverity(value.severity) ? value.severity : undefined,
+    trends,
+    insights,
+  };
+};
+
+// --- 제공자 ---
+
+export const createLocalProvider = (): AnalysisProvider => ({
+  id: 'local',
+  label: 'Local Engine',
+  analyze: async (input) => analyzeSnapshots(input.snapshots, input.rules),
+});
+
+export const createGeminiProvider = (apiKey: string | undefined, model: string): AnalysisProvider => ({
+  id: 'gemini',
+  label: `Gemini · ${model}`,
+  analyze: async (input, signal) => {
+    if (!apiKey) throw new Error('GEMINI_API_KEY가 설정되지 않았습니다');
+    // SDK는 원격 분석을 켠 경우에만 불러옴
+    const { GoogleGenAI, Type } = await import('@google/genai');
+    const severity = { type: Type.STRING, enum: SEVERITIES };
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+      model,
+      contents: buildAnalysisPrompt(input),
+      config: {
+        abortSignal: signal,
+        systemInstruction: ANALYSIS_SYSTEM_PROMPT,
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            summary: { type: Type.STRING },
+            severity,
+            trends: {
+              type: Type.OBJECT,
+              properties: Object.fromEntries(TREND_WINDOWS.map(w => [w, { type: Type.NUMBER }])),
+            },
+            insights: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: { timestamp: { type: Type.NUMBER }, insight: { type: Type.STRING }, severity },
+                required: ['timestamp', 'insight'],
+              },
+            },
+          },
+          required: ['summary', 'insights'],
+        },
+      },
+    });
+    return validateAnalysis(response.text ?? '', input.snapshots);
+  },
+});
+
+/**
+ * OpenAI Chat Completions 호환 엔드포인트 (baseUrl 예: http://localhost:11434/v1)
+ */
+export const createOpenAiCompatibleProvider = (baseUrl: string, model: string, apiKey?: string): AnalysisProvider => ({
+  id: 'openai',
+  label: `${model} · ${baseUrl.replace(/^https?:\/\//, '')}`,
+  analyze: async (input, signal) => {
+    const res = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json', ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}) },
+      body: JSON.stringify({
+        model,
+        temperature: 0.2,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: ANALYSIS_SYSTEM_PROMPT },
+          { role: 'user', content: buildAnalysisPrompt(input) },
+        ],
+      }),
+    });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const json = await res.json();
+    const content = json?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') throw new Error('응답에 message.content가 없습니다');
+    return validateAnalysis(content, input.snapshots);
+  },
+});
+
+/**
+ * 오프라인 검증용 제공자. 고정 응답(또는 입력 기반 생성 함수)을 지연 후 반환하며, 지연 중 중단 신호를 따릅니다.
+ */
+export const createMockProvider = (
+  response?: unknown,
+  delayMs = 300
+): AnalysisProvider => ({
+  id: 'mock',
+  label: 'Mock',
+  analyze: (input, signal) => new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      try {
+        if (typeof response === 'function') {
+          resolve(validateAnalysis((response as (input: AnalysisInput) => unknown)(input), input.snapshots));
+          return;
+        }
+        if (response !== undefined) {
+          resolve(validateAnalysis(response, input.snapshots));
+          return;
+        }
+        // 기본 응답: 로컬 엔진 결과에 표식만 붙임
+        const local = analyzeSnapshots(input.snapshots, input.rules);
+        resolve(validateAnalysis({ ...local, summary: `[Mock] ${local.summary || '분석 결과 없음'}` }, input.snapshots));
+      } catch (e) {
+        reject(e);
+      }
+    }, delayMs);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason ?? new Error('aborted'));
+    }, { once: true });
+  }),
+});
+
+export const createAnalysisProvider = (settings: AnalysisSettings): AnalysisProvider => {
+  switch (settings.provider) {
+    case 'gemini': return createGeminiProvider(process.env.GEMINI_API_KEY, settings.geminiModel);
+    case 'openai': return createOpenAiCompatibleProvider(settings.openaiUrl, settings.openaiModel, getAnalysisApiKey() || undefined);
+    case 'mock': return createMockProvider();
+    default: return createLocalProvider();
+  }
+};
+
+class AnalysisTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`${ms / 1000}초 내에 응답이 없습니다`);
+    this.name = 'AnalysisTimeoutError';
+  }
+}
+
+/**
+ * 선택된 제공자로 분석. 외부 signal(새 요청으로 대체 등)로 중단되면 예외를 그대로 전달하고,
+ * 그 외 실패는 로컬 엔진 결과와 사유를 반환합니다.
+ */
+export const runAnalysis = async (
+  input: AnalysisInput,
+  provider: AnalysisProvider,
+  options: { timeoutMs?: number; signal?: AbortSignal } = {}
+): Promise<AnalysisOutcome> => {
+  const local = createLocalProvider();
+  const controller = new AbortController();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_ANALYSIS_SETTINGS.timeoutMs;
+  const timer = setTimeout(() => controller.abort(new AnalysisTimeoutError(timeoutMs)), timeoutMs);
+  const onAbort = () => controller.abort(options.signal?.reason);
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const analysis = await Promise.race([
+      provider.analyze(input, controller.signal),
+      // 중단 신호를 무시하는 제공자도 시간 초과 처리
+      new Promise<never>((_, reject) => controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true })),
+    ]);
+    return { analysis, providerId: provider.id, label: provider.label };
+  } catch (e) {
+    if (options.signal?.aborted) throw e;
+    if (provider.id === 'local') throw e;
+    const reason = e instanceof Error ? e.message : String(e);
+    console.warn(`Analysis provider "${provider.id}" failed, using local engine:`, reason);
+    return {
+      analysis: await local.analyze(input, controller.signal),
+      providerId: local.id,
+      label: local.label,
+      fallbackReason: `${provider.label}: ${reason}`,
+    };
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// --- 저장소 ---
+
+const SETTINGS_KEY = 'btc_compass_analysis_settings';
+// 원격 엔드포인트 API 키는 내보내기 번들에 포함되지 않도록 별도 키에 저장
+const API_KEY_KEY = 'btc_compass_analysis_api_key';
+
+export const loadAnalysisSettings = (): AnalysisSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    const parsed: Partial<AnalysisSettings> = saved ? JSON.parse(saved) : {};
+    const provider = ANALYSIS_PROVIDERS.some(p => p.id === parsed.provider) ? parsed.provider! : DEFAULT_ANALYSIS_SETTINGS.provider;
+    return { ...DEFAULT_ANALYSIS_SETTINGS, ...parsed, provider };
+  } catch (e) {
+    return DEFAULT_ANALYSIS_SETTINGS;
+  }
+};
+
+export const saveAnalysisSettings = (settings: AnalysisSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * 가져온 분석 설정 병합. 제공자와 엔드포인트 주소는 현재 값을 유지
+ * (저장된 API 키가 가져온 파일이 지정한 호스트로 전송되지 않도록)
+ */
+export const mergeImportedAnalysisSettings = (current: AnalysisSettings, imported: Partial<AnalysisSettings>): AnalysisSettings => ({
+  ...current,
+  ...imported,
+  provider: current.provider,
+  openaiUrl: current.openaiUrl,
+});
+
+export const getAnalysisApiKey = (): string => localStorage.getItem(API_KEY_KEY) || '';
+
+export const setAnalysisApiKey = (key: string) => {
+  if (key.trim()) localStorage.setItem(API_KEY_KEY, key.trim());
+  else localStorage.removeItem(API_KEY_KEY);
+};
+
+export const hasGeminiKey = () => Boolean(process.env.GEMINI_API_KEY);
@@ -0,0 +1,130 @@
+import { FetchErrorKind } from '../types';
+
+/**
+ * 외부 API 응답의 런타임 스키마 검증과 구조화된 오류
+ *
+ * 스키마는 unknown 값을 검사하여 타입이 확정된 값을 돌려주는 함수이며, 실패하면 위치(path)를 담은
+ * schema 오류를 던집니다. fetchJson은 네트워크·HTTP·요청 한도 초과·스키마 실패를 ApiError.kind로 구분합니다.
+ */
+export class ApiError extends Error {
+  kind: FetchErrorKind;
+  url?: string;
+  status?: number;
+  retryAfter?: number; // 초 (요청 한도 초과 응답의 Retry-After)
+  path?: string;       // 스키마 불일치 위치
+
+  constructor(kind: FetchErrorKind, message: string, details: { url?: string; status?: number; retryAfter?: number; path?: string } = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    Object.assign(this, details);
+  }
+}
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+const fail = (path: string, expected: string, value: unknown): never => {
+  const actual = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value === 'string' ? `"${value.slice(0, 20)}"` : typeof value;
+  throw new ApiError('schema', `${path || '(root)'}: expected ${expected}, got ${actual}`, { path });
+};
+
+export const string: Schema<string> = (v, path) => typeof v === 'string' ? v : fail(path, 'string', v);
+
+export const number: Schema<number> = (v, path) => typeof v === 'number' && Number.isFinite(v) ? v : fail(path, 'finite number', v);
+
+/**
+ * 숫자 또는 숫자 문자열 (거래소 API는 가격을 문자열로 주는 경우가 많음)
+ */
+export const numeric: Schema<number> = (v, path) => {
+  const n = typeof v === 'string' && v.trim() !== '' ? Number(v) : v;
+  return typeof n === 'number' && Number.isFinite(n) ? n : fail(path, 'numeric', v);
+};
+
+export const boolean: Schema<boolean> = (v, path) => typeof v === 'boolean' ? v : fail(path, 'boolean', v);
+
+/**
+ * 허용 목록 중 하나인 문자열
+ */
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> => (v, path) =>
+  values.find(value => value === v) ?? fail(path, values.join(' | '), v);
+
+export const positive = (inner: Schema<number> = numeric): Schema<number> => (v, path) => {
+  const n = inner(v, path);
+  return n > 0 ? n : fail(path, 'positive number', v);
+};
+
+export const array = <T>(item: Schema<T>, options: { minLength?: number } = {}): Schema<T[]> => (v, path) => {
+  if (!Array.isArray(v)) return fail(path, 'array', v);
+  if (v.length < (options.minLength ?? 0)) throw new ApiError('schema', `${path || '(root)'}: expected at least ${options.minLength} items, got ${v.length}`, { path });
+  return v.map((item_, i) => item(item_, `${path}[${i}]`));
+};
+
+/**
+ * 앞쪽 원소만 검사하는 튜플 (뒤에 추가 원소가 있어도 허용)
+ */
+export const tuple = <T extends unknown[]>(...items: { [K in keyof T]: Schema<T[K]> }): Schema<T> => (v, path) => {
+  if (!Array.isArray(v)) return fail(path, 'array', v);
+  if (v.length < items.length) throw new ApiError('schema', `${path || '(root)'}: expected at least ${items.length} elements, got ${v.length}`, { path });
+  return items.map((item, i) => item(v[i], `${path}[${i}]`)) as T;
+};
+
+/**
+ * 선언한 필드만 검사하여 반환 (알 수 없는 필드는 무시)
+ */
+export const object = <T extends Record<string, unknown>>(fields: { [K in keyof T]: Schema<T[K]> }): Schema<T> => (v, path) => {
+  if (typeof v !== 'object' || v === null || Array.isArray(v)) return fail(path, 'object', v);
+  const result = {} as T;
+  (Object.keys(fields) as (keyof T)[]).forEach(key => {
+    result[key] = fields[key]((v as Record<string, unknown>)[key as string], path ? `${path}.${String(key)}` : String(key));
+  });
+  return result;
+};
+
+export const record = <T>(value: Schema<T>): Schema<Record<string, T>> => (v, path) => {
+  if (typeof v !== 'object' || v === null || Array.isArray(v)) return fail(path, 'object', v);
+  return Object.fromEntries(Object.entries(v).map(([key, item]) => [key, value(item, path ? `${path}.${key}` : key)]));
+};
+
+export const optional = <T>(inner: Schema<T>): Schema<T | undefined> => (v, path) => v === undefined || v === null ? undefined : inner(v, path);
+
+export const parse = <T>(schema: Schema<T>, value: unknown): T => schema(value, '');
+
+const RATE_LIMIT_STATUSES = [418, 429]; // Binance는 한도 초과 후 차단 시 418
+
+/**
+ * GET 요청 후 스키마 검증. 실패 원인은 ApiError.kind로 구분
+ */
+export const fetchJson = async <T>(url: string, schema: Schema<T>): Promise<T> => {
+  let res: Response;
+  try {
+    res = await fetch(url);
+  } catch (e) {
+    throw new ApiError('network', e instanceof Error ? e.message : String(e), { url });
+  }
+  if (RATE_LIMIT_STATUSES.includes(res.status)) {
+    const retryAfter = parseInt(res.headers.get('Retry-After') ?? '');
+    throw new ApiError('rate_limit', `HTTP ${res.status} rate limited`, { url, status: res.status, retryAfter: Number.isFinite(retryAfter) ? retryAfter : undefined });
+  }
+  if (!res.ok) throw new ApiError('http', `HTTP ${res.status}`, { url, status: res.status });
+
+  let json: unknown;
+  try {
+    json = await res.json();
+  } catch (e) {
+    throw new ApiError('schema', 'Invalid JSON body', { url, status: res.status });
+  }
+  try {
+    return parse(schema, json);
+  } catch (e) {
+    if (e instanceof ApiError) {
+      e.url = url;
+      e.status = res.status;
+    }
+    throw e;
+  }
+};
+
+/**
+ * 임의 예외 → 오류 종류 (ApiError가 아니면 제공자 내부 검증 실패로 간주)
+ */
+export const classifyError = (e: unknown): FetchErrorKind => e instanceof ApiError ? e.kind : 'schema';
@@ -0,0 +1,120 @@
+import { CHART_START_DATE, GENESIS_DATE, PINNED_COEFFICIENTS, STAGES } from '../constants';
+import { ModelCoefficients, ModelId } from '../types';
+import { Stage } from './marketStatus';
+import { BTC_MARKETS, MarketSymbols } from './marketProviders';
+
+/**
+ * 자산 설정: 대시보드, getModelValues 파이프라인, 스냅샷 로그가 자산별로 참조하는 값
+ *
+ * 모델 계산 함수는 자산을 인자로 받아 그 기준일·계수·모델 목록·밴드 폭을 사용합니다.
+ */
+export type AssetId = 'BTC' | 'ETH';
+
+export interface AssetEvent {
+  timestamp: number;
+  label: string;
+  estimated: boolean;
+}
+
+/**
+ * 모델 밴드 폭(ln 공간 σ)의 감쇄: referenceDay까지는 base, 이후 (referenceDay / days)^decayRate 비율로 축소
+ */
+export interface SigmaConfig {
+  base: number;
+  decayRate: number;
+  referenceDay: number;
+}
+
+export interface AssetConfig {
+  id: AssetId;
+  name: string;
+  inceptionDate: Date;            // 멱법칙 모델의 0일 (BTC 제네시스 블록, ETH 메인넷 출시)
+  chartStartDate: Date;           // 가격 차트 시작일 (거래 가능 시세 시작)
+  coefficients: ModelCoefficients; // 고정(pinned) 멱법칙 계수
+  models: ModelId[];              // 적정 가치 계산에 쓰는 모델 (레지스트리 중 해당 자산에 정의된 것)
+  sigma: SigmaConfig;             // 가중 적정가 밴드 폭
+  modelBand: { upper: number; lower: number }; // 개별 멱법칙 모델 밴드 (적정가 대비 배율)
+  stages: { OSCILLATOR: Stage[]; FNG: Stage[]; MVRV: Stage[] };
+  events: 'halving' | AssetEvent[]; // 'halving' = 반감기 일정(사이클 모델·차트 표시), 배열 = 고정 이벤트, [] = 없음
+  markets: MarketSymbols;
+  datasetUrl: string | null;      // 번들 일간 데이터셋 (없으면 거래소 봉만 사용)
+  onchain: boolean;               // 온체인 MVRV 데이터셋 사용 여부 (BTC 전용)
+  fallbackPrice: number;          // 모든 시세 조회 실패 + 캐시 없음일 때의 표시값
+}
+
+export const BTC_ASSET: AssetConfig = {
+  id: 'BTC',
+  name: 'Bitcoin',
+  inceptionDate: GENESIS_DATE,
+  chartStartDate: CHART_START_DATE,
+  coefficients: PINNED_COEFFICIENTS,
+  models: ['standard', 'decaying', 'cycle', 'stockToFlow', 'rainbow'],
+  // 과거 0.5 수준에서 약 2025년(5,800일) 이후 0.4~0.35 수준으로 수렴
+  sigma: { base: 0.5, decayRate: 0.12, referenceDay: 5800 },
+  modelBand: { upper: 1.6, lower: 0.6 },
+  stages: STAGES,
+  events: 'halving',
+  markets: BTC_MARKETS,
+  datasetUrl: 'data/btc-daily.json',
+  onchain: true,
+  fallbackPrice: 98000,
+};
+
+/**
+ * ETH: 2015-07-30 메인넷 기준 멱법칙 (2017~2025 월별 가격 회귀), 변동성이 커 오실레이터 구간을 넓게 설정
+ * Decaying은 BTC와 같이 지수를 0.5 낮추고 약 10년 차(3,650일)에 Standard와 만나도록 계수를 맞춤
+ * 밴드는 BTC보다 넓게 시작하여 같은 10년 차 이후 같은 속도로 좁힘 (개별 모델 밴드도 BTC보다 넓게)
+ */
+export const ETH_ASSET: AssetConfig = {
+  id: 'ETH',
+  name: 'Ethereum',
+  inceptionDate: new Date('2015-07-30'),
+  chartStartDate: new Date('2016-03-01'),
+  coefficients: { aStd: 2.4e-5, bStd: 2.29, aDecay: 1.45e-3, bDecay: 1.79 },
+  models: ['standard', 'decaying'],
+  sigma: { base: 0.65, decayRate: 0.12, referenceDay: 3650 },
+  modelBand: { upper: 1.9, lower: 0.5 },
+  stages: {
+    OSCILLATOR: [
+      { threshold: 0.6, label: "7. 광기 (0.6↑)" },
+      { threshold: 0.45, label: "6. 오버슈팅 (0.45 ~ 0.6)" },
+      { threshold: 0.25, label: "5. 고평가 (0.25 ~ 0.45)" },
+      { threshold: -0.15, label: "4. 적정 (±0.15)" },
+      { threshold: -0.35, label: "3. 저평가 (-0.35 ~ -0.15)" },
+      { threshold: -0.6, label: "2. 언더슈팅 (-0.6 ~ -0.35)" },
+      { threshold: -Infinity, label: "1. 심연 (-0.6↓)" },
+    ],
+    FNG: STAGES.FNG,
+    MVRV: STAGES.MVRV,
+  },
+  events: [
+    { timestamp: Date.UTC(2022, 8, 15), label: 'The Merge', estimated: false },
+    { timestamp: Date.UTC(2023, 3, 12), label: 'Shapella', estimated: false },
+    { timestamp: Date.UTC(2024, 2, 13), label: 'Dencun', estimated: false },
+  ],
+  markets: { binance: 'ETHUSDT', coingecko: 'ethereum', kraken: 'ETHUSD', coinbase: 'ETH-USD', upbit: 'KRW-ETH', bithumb: 'ETH_KRW' },
+  datasetUrl: null,
+  onchain: false,
+  fallbackPrice: 3500,
+};
+
+export const ASSETS: AssetConfig[] = [BTC_ASSET, ETH_ASSET];
+
+export const DEFAULT_ASSET_ID: AssetId = 'BTC';
+
+export const getAsset = (id: string): AssetConfig => ASSETS.find(a => a.id === id) ?? BTC_ASSET;
+
+const ASSET_KEY = 'btc_compass_asset';
+
+export const loadAssetId = (): AssetId => {
+  if (typeof localStorage === 'undefined') return DEFAULT_ASSET_ID;
+  return getAsset(localStorage.getItem(ASSET_KEY) ?? DEFAULT_ASSET_ID).id;
+};
+
+export const saveAssetId = (id: AssetId) => localStorage.setItem(ASSET_KEY, id);
+
+/**
+ * 차트 표시용 이벤트. 반감기 자산은 주어진 반감기 일정을 사용
+ */
+export const getAssetEvents = (asset: AssetConfig, halvings: AssetEvent[]): AssetEvent[] =>
+  asset.events === 'halving' ? halvings : asset.events;
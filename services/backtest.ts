@@ -0,0 +1,171 @@
+import { MarketStatus, ModelCoefficients, ModelWeights, PriceData } from '../types';
+import { DEFAULT_WEIGHTS } from './modelEngine';
+import { calculateIndicators } from './indicators';
+import { AssetConfig } from './assets';
+import { FALLBACK_HALVING_SCHEDULE, HalvingSchedule } from './halving';
+
+/**
+ * 일간 history를 대시보드와 동일한 지표 파이프라인으로 재생하는 백테스트 엔진
+ *
+ * 모든 전략은 같은 주기(periodDays)마다 같은 금액(contribution)을 현금으로 입금받으며,
+ * 전략별로 그 현금을 언제/얼마나 BTC로 바꾸는지만 다릅니다.
+ * - dca: 입금액 전액을 즉시 매수 (기준선)
+ * - riskDca: 리스크가 낮을수록 많이, 높을수록 적게 매수 (0 ~ 2배), 남은 현금은 이월
+ * - signal: ACCUMULATE 국면에서 보유 현금 전액 매수, SELL 국면에서 보유 BTC 전량 매도
+ */
+export type BacktestStrategy = 'dca' | 'riskDca' | 'signal';
+
+export interface BacktestOptions {
+  asset: AssetConfig;
+  strategy: BacktestStrategy;
+  contribution: number;  // 주기당 입금액 (USD)
+  periodDays: number;    // 입금/매매 판단 주기 (일)
+  startDate?: string;    // YYYY-MM-DD, 생략 시 history 시작일
+  endDate?: string;
+  feeRate?: number;      // 매매 수수료율 (기본 0.1%)
+  getFng?: (date: string) => number; // 과거 심리 지수 조회 (기본 중립 50)
+  getMvrvZ?: (date: string) => number | null; // 실측 MVRV Z-Score 조회 (없으면 추정치)
+  coefficients?: ModelCoefficients;
+  weights?: ModelWeights;
+  halvings?: HalvingSchedule;  // 사이클 모델의 반감기 일정 (기본 내장 기준값)
+}
+
+export interface BacktestTrade {
+  date: string;
+  side: 'BUY' | 'SELL';
+  price: number;
+  btc: number;
+  usd: number;
+  status: MarketStatus;
+}
+
+export interface EquityPoint {
+  date: string;
+  equity: number;   // 현금 + BTC 평가액
+  invested: number; // 누적 입금액
+  index: number;    // 입금 효과를 제거한 시간가중 수익 지수 (시작 = 1)
+}
+
+export interface BacktestResult {
+  strategy: BacktestStrategy;
+  cagr: number;
+  maxDrawdown: number;  // 0 ~ 1
+  sharpe: number;       // 연율화 (365일)
+  timeInMarket: number; // BTC 보유 일수 비율 (0 ~ 1)
+  invested: number;
+  finalEquity: number;
+  btcHeld: number;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+}
+
+export const STRATEGY_LABELS: Record<BacktestStrategy, string> = {
+  dca: 'DCA BASELINE',
+  riskDca: 'RISK-SCALED DCA',
+  signal: 'SIGNAL SWITCH',
+};
+
+const DEFAULT_FEE_RATE = 0.001;
+
+export const runBacktest = (history: PriceData[], options: BacktestOptions): BacktestResult => {
+  const feeRate = options.feeRate ?? DEFAULT_FEE_RATE;
+  const getFng = options.getFng ?? (() => 50);
+  const getMvrvZ = options.getMvrvZ ?? (() => null);
+  const coef = options.coefficients ?? options.asset.coefficients;
+  const weights = options.weights ?? DEFAULT_WEIGHTS;
+  const halvings = options.halvings ?? FALLBACK_HALVING_SCHEDULE;
+  const series = history.filter(p =>
+    p.price > 0 &&
+    (!options.startDate || p.date >= options.startDate) &&
+    (!options.endDate || p.date <= options.endDate)
+  );
+  if (series.length < 2) throw new Error('Not enough history to backtest');
+
+  let cash = 0;
+  let btc = 0;
+  let invested = 0;
+  let index = 1;
+  let prevEquity = 0;
+  let daysInMarket = 0;
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+  const dailyReturns: number[] = [];
+
+  const buy = (date: string, price: number, usd: number, status: MarketStatus) => {
+    const spend = Math.min(usd, cash);
+    if (spend <= 0) return;
+    const amount = (spend * (1 - feeRate)) / price;
+    cash -= spend;
+    btc += amount;
+    trades.push({ date, side: 'BUY', price, btc: amount, usd: spend, status });
+  };
+
+  const sell = (date: string, price: number, amount: number, status: MarketStatus) => {
+    if (amount <= 0) return;
+    const proceeds = amount * price * (1 - feeRate);
+    btc -= amount;
+    cash += proceeds;
+    trades.push({ date, side: 'SELL', price, btc: amount, usd: proceeds, status });
+  };
+
+  series.forEach((p, i) => {
+    let deposit = 0;
+    if (i % options.periodDays === 0) {
+      deposit = options.contribution;
+      cash += deposit;
+      invested += deposit;
+
+      const s = calculateIndicators(options.asset, p.price, new Date(p.date), getFng(p.date), coef, weights, getMvrvZ(p.date), halvings);
+      if (options.strategy === 'dca') {
+        buy(p.date, p.price, deposit, s.status);
+      } else if (options.strategy === 'riskDca') {
+        const scale = Math.max(0, Math.min(2, 2 * (1 - s.riskPercent / 100)));
+        buy(p.date, p.price, deposit * scale, s.status);
+      } else if (s.status === MarketStatus.ACCUMULATE) {
+        buy(p.date, p.price, cash, s.status);
+      } else if (s.status === MarketStatus.SELL) {
+        sell(p.date, p.price, btc, s.status);
+      }
+    }
+
+    const equity = cash + btc * p.price;
+    // 입금액을 제외한 일간 수익률로 시간가중 지수 갱신
+    if (prevEquity > 0) {
+      const r = (equity - deposit) / prevEquity - 1;
+      dailyReturns.push(r);
+      index *= 1 + r;
+    }
+    if (btc > 0) daysInMarket++;
+    prevEquity = equity;
+    equityCurve.push({ date: p.date, equity, invested, index });
+  });
+
+  let peak = 1;
+  let maxDrawdown = 0;
+  equityCurve.forEach(pt => {
+    peak = Math.max(peak, pt.index);
+    maxDrawdown = Math.max(maxDrawdown, 1 - pt.index / peak);
+  });
+
+  const years = (new Date(series[series.length - 1].date).getTime() - new Date(series[0].date).getTime()) / (365 * 24 * 60 * 60 * 1000);
+  const mean = dailyReturns.reduce((acc, r) => acc + r, 0) / Math.max(1, dailyReturns.length);
+  const variance = dailyReturns.reduce((acc, r) => acc + (r - mean) * (r - mean), 0) / Math.max(1, dailyReturns.length - 1);
+  const std = Math.sqrt(variance);
+  const last = equityCurve[equityCurve.length - 1];
+
+  return {
+    strategy: options.strategy,
+    cagr: years > 0 ? Math.pow(last.index, 1 / years) - 1 : 0,
+    maxDrawdown,
+    sharpe: std > 0 ? (mean / std) * Math.sqrt(365) : 0,
+    timeInMarket: daysInMarket / series.length,
+    invested,
+    finalEquity: last.equity,
+    btcHeld: btc,
+    trades,
+    equityCurve,
+  };
+};
+
+export const runAllStrategies = (history: PriceData[], options: Omit<BacktestOptions, 'strategy'>): BacktestResult[] =>
+  (Object.keys(STRATEGY_LABELS) as BacktestStrategy[]).map(strategy => runBacktest(history, { ...options, strategy }));
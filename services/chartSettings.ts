@@ -0,0 +1,48 @@
+import { ModelId } from '../types';
+
+/**
+ * 메인 차트 표시 설정 (범위 프리셋, 축 스케일, 예측 기간, 개별 모델 선, 몬테카를로 팬)
+ * custom 범위의 브러시 위치는 데이터 길이에 따라 달라지므로 저장하지 않습니다.
+ */
+export type ChartRange = '1y' | 'cycle' | 'all' | 'custom';
+export type ChartScale = 'log' | 'linear';
+
+export interface ChartSettings {
+  range: ChartRange;
+  scale: ChartScale;
+  horizonDays: number;
+  models: ModelId[];
+  showFan: boolean;
+}
+
+export const CHART_RANGES: { range: ChartRange; label: string }[] = [
+  { range: '1y', label: '1Y' },
+  { range: 'cycle', label: 'Cycle' },
+  { range: 'all', label: 'All' },
+];
+
+export const PROJECTION_HORIZONS = [
+  { label: '90D', days: 90 },
+  { label: '1Y', days: 365 },
+  { label: '2Y', days: 730 },
+  { label: '4Y', days: 1460 },
+];
+
+const SETTINGS_KEY = 'btc_compass_chart_settings';
+
+export const DEFAULT_CHART_SETTINGS: ChartSettings = { range: 'all', scale: 'log', horizonDays: 365, models: [], showFan: true };
+
+export const loadChartSettings = (): ChartSettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    const parsed: Partial<ChartSettings> = saved ? JSON.parse(saved) : {};
+    // custom 범위는 다음 방문 시 기본 범위로 복원
+    return { ...DEFAULT_CHART_SETTINGS, ...parsed, range: parsed.range === 'custom' || !parsed.range ? DEFAULT_CHART_SETTINGS.range : parsed.range };
+  } catch (e) {
+    return DEFAULT_CHART_SETTINGS;
+  }
+};
+
+export const saveChartSettings = (settings: ChartSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
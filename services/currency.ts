@@ -0,0 +1,88 @@
+import { FiatCurrency, FxHistoryPoint, FxRates } from '../types';
+
+/**
+ * 표시 통화 계층
+ * 모든 가격은 USD로 계산하고, 표시 시점에만 선택한 통화(법정화폐 또는 sats)로 환산합니다.
+ * sats 환산은 "해당 USD 금액을 그 시점 BTC 가격으로 살 수 있는 사토시 수"입니다.
+ */
+export type DisplayCurrency = FiatCurrency | 'SATS';
+
+export interface CurrencyInfo {
+  symbol: string;
+  label: string;
+  decimals: number;
+}
+
+export const DISPLAY_CURRENCIES: Record<DisplayCurrency, CurrencyInfo> = {
+  KRW: { symbol: '₩', label: 'KRW', decimals: 0 },
+  EUR: { symbol: '€', label: 'EUR', decimals: 0 },
+  JPY: { symbol: '¥', label: 'JPY', decimals: 0 },
+  GBP: { symbol: '£', label: 'GBP', decimals: 0 },
+  SATS: { symbol: 'sats', label: 'SATS', decimals: 0 },
+};
+
+const SATS_PER_BTC = 1e8;
+const STORAGE_KEY = 'btc_compass_display_currency';
+
+export const loadDisplayCurrency = (): DisplayCurrency => {
+  const saved = localStorage.getItem(STORAGE_KEY) as DisplayCurrency | null;
+  return saved && Object.hasOwn(DISPLAY_CURRENCIES, saved) ? saved : 'KRW';
+};
+
+export const saveDisplayCurrency = (currency: DisplayCurrency) => localStorage.setItem(STORAGE_KEY, currency);
+
+/**
+ * USD 금액 → 표시 통화. sats는 btcPrice가 없으면 환산 불가(null)
+ */
+export const convertUsd = (usd: number, currency: DisplayCurrency, rates: Partial<FxRates>, btcPrice: number | null): number | null => {
+  if (currency === 'SATS') return btcPrice && btcPrice > 0 ? (usd / btcPrice) * SATS_PER_BTC : null;
+  const rate = rates[currency];
+  return rate ? usd * rate : null;
+};
+
+export const formatCurrencyValue = (value: number, currency: DisplayCurrency): string =>
+  Math.round(value).toLocaleString(undefined, { maximumFractionDigits: DISPLAY_CURRENCIES[currency].decimals });
+
+// --- 환율 시계열 ---
+
+/**
+ * 날짜 기준 병합 (같은 날짜는 새 값 우선)
+ */
+export const mergeFxHistory = (base: FxHistoryPoint[], incoming: FxHistoryPoint[]): FxHistoryPoint[] => {
+  const map = new Map<string, Partial<FxRates>>();
+  base.forEach(p => map.set(p.date, p.rates));
+  incoming.forEach(p => map.set(p.date, { ...map.get(p.date), ...p.rates }));
+  return Array.from(map.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, rates]) => ({ date, rates }));
+};
+
+/**
+ * 날짜(YYYY-MM-DD 또는 ISO) → 해당일 환율. 주말/휴일은 직전 영업일 값, 시계열 범위 밖은 fallback(보통 현재 환율)
+ */
+export const createFxLookup = (series: FxHistoryPoint[], fallback: Partial<FxRates>) => {
+  const dates = series.map(p => p.date);
+  return (date: string): Partial<FxRates> => {
+    const key = date.slice(0, 10);
+    let lo = 0;
+    let hi = dates.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (dates[mid] <= key) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    if (found < 0 || key > dates[dates.length - 1]) return fallback;
+    return { ...fallback, ...series[found].rates };
+  };
+};
+
+/**
+ * 김치 프리미엄: 국내 원화 현물가 / (해외 USD 가격 × 환율) - 1
+ */
+export const calcKimchiPremium = (krwSpot: number, usdPrice: number, usdKrw: number): number =>
+  krwSpot / (usdPrice * usdKrw) - 1;
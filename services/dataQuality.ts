@@ -0,0 +1,304 @@
+import { FiatCurrency, FxHistoryPoint, FxRates, PriceData, SnapshotFlag } from '../types';
+import type { Kline, KlineInterval } from './marketProviders';
+
+/**
+ * 수집한 시세 데이터의 품질 검증
+ *
+ * 누락일(직전 종가로 채운 날), 비정상 꼬리(wick), 순서가 어긋난 timestamp, 갱신되지 않는 시세,
+ * 환율 급변을 찾아 보고서로 만듭니다. 값을 고치지는 않고, 채워 넣은 지점과 의심 지점을 기록하여
+ * 화면과 스냅샷에 표시할 수 있게 합니다.
+ */
+export type DataIssueKind = 'missing_days' | 'outlier_wick' | 'outlier_price' | 'non_monotonic' | 'stale_ticker' | 'fx_jump';
+export type DataIssueLevel = 'warning' | 'error';
+
+export interface DataIssue {
+  kind: DataIssueKind;
+  level: DataIssueLevel;
+  message: string;
+  timestamp?: number; // 해당 지점(구간 시작) 시각
+}
+
+export interface DataHealthReport {
+  checkedAt: number;
+  issues: DataIssue[];
+  interpolatedDates: string[]; // 일봉이 없어 직전 종가로 채운 날짜 (오름차순)
+  suspectTimestamps: number[]; // 이상치로 판정된 5분봉 시각
+  tickerStale: boolean;
+}
+
+export const DATA_ISSUE_LABELS: Record<DataIssueKind, string> = {
+  missing_days: 'Missing Days',
+  outlier_wick: 'Outlier Wick',
+  outlier_price: 'Outlier Price',
+  non_monotonic: 'Timestamp Order',
+  stale_ticker: 'Stale Ticker',
+  fx_jump: 'FX Jump',
+};
+
+export const SNAPSHOT_FLAG_LABELS: Record<SnapshotFlag, string> = {
+  daily_close: '근접 5분봉이 없어 일봉 종가 사용',
+  interpolated: '누락일을 직전 종가로 채운 값',
+  outlier: '이상치로 의심되는 가격',
+  stale_ticker: '갱신되지 않은 현재가',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// 봉 간격별 허용 꼬리 길이 (몸통 끝 대비 비율)
+const WICK_LIMITS: Record<KlineInterval, number> = { '1w': 0.35, '1d': 0.2, '5m': 0.03 };
+const PRICE_SPIKE_LIMIT = 0.05;        // 5분봉 종가가 주변 중앙값에서 벗어난 비율
+const INTRADAY_STALE_MS = 30 * 60 * 1000;
+const TICKER_DIVERGENCE_LIMIT = 0.03;  // 현재가와 마지막 5분봉 종가 차이
+const FX_JUMP_LIMIT = 0.05;            // 영업일 간 환율 변화
+const FX_JUMP_LOOKBACK_DAYS = 365;     // 과거 급변은 최근 1년만 보고
+
+const toDateKey = (timestamp: number): string => new Date(timestamp).toISOString().split('T')[0];
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+
+/**
+ * 여러 소스의 일별 종가를 병합하고 빈 날을 직전 종가로 채움. 채운 날짜를 함께 반환
+ */
+export const fillDailyGaps = (rawMap: Map<string, number>): { history: PriceData[]; interpolatedDates: string[] } => {
+  const sortedDates = Array.from(rawMap.keys()).sort();
+  if (sortedDates.length === 0) return { history: [], interpolatedDates: [] };
+  const history: PriceData[] = [];
+  const interpolatedDates: string[] = [];
+  const end = new Date(sortedDates[sortedDates.length - 1]).getTime();
+  let lastPrice = rawMap.get(sortedDates[0])!;
+
+  for (let t = new Date(sortedDates[0]).getTime(); t <= end; t += DAY_MS) {
+    const date = toDateKey(t);
+    const price = rawMap.get(date);
+    if (price !== undefined) lastPrice = price;
+    else interpolatedDates.push(date);
+    history.push({ date, price: lastPrice });
+  }
+  return { history, interpolatedDates };
+};
+
+/**
+ * 연속된 날짜를 구간으로 묶음 ([시작, 끝, 일수])
+ */
+export const groupDateRanges = (dates: string[]): [string, string, number][] => {
+  const ranges: [string, string, number][] = [];
+  dates.forEach(date => {
+    const last = ranges[ranges.length - 1];
+    if (last && new Date(date).getTime() - new Date(last[1]).getTime() === DAY_MS) {
+      last[1] = date;
+      last[2]++;
+    } else {
+      ranges.push([date, date, 1]);
+    }
+  });
+  return ranges;
+};
+
+const WEEK_GAP_DAYS = 6;
+
+/**
+ * 주봉 종가만 있는 구간의 빈 날인지 판정. 6일짜리 빈 구간이 바로 앞이나 뒤의 6일 구간과
+ * 정확히 7일 간격이면 주간 해상도로 보고 누락으로 치지 않음 (보간 기록에는 그대로 남음)
+ */
+const isWeeklyGap = (ranges: [string, string, number][], i: number): boolean => {
+  const startOf = (range: [string, string, number] | undefined) => range && range[2] === WEEK_GAP_DAYS ? new Date(range[0]).getTime() : null;
+  const current = startOf(ranges[i]);
+  if (current === null) return false;
+  const prev = startOf(ranges[i - 1]);
+  const next = startOf(ranges[i + 1]);
+  return (prev !== null && current - prev === 7 * DAY_MS) || (next !== null && next - current === 7 * DAY_MS);
+};
+
+/**
+ * timestamp 오름차순 정렬 및 중복 제거. 원래 순서가 어긋났는지 함께 반환
+ */
+export const normalizeKlines = (klines: Kline[]): { klines: Kline[]; reordered: number; duplicates: number } => {
+  let reordered = 0;
+  for (let i = 1; i < klines.length; i++) {
+    if (klines[i].timestamp <= klines[i - 1].timestamp) reordered++;
+  }
+  const byTime = new Map<number, Kline>();
+  klines.forEach(k => byTime.set(k.timestamp, k));
+  const sorted = Array.from(byTime.values()).sort((a, b) => a.timestamp - b.timestamp);
+  return { klines: sorted, reordered, duplicates: klines.length - sorted.length };
+};
+
+export const findOutlierWicks = (klines: Kline[], interval: KlineInterval): DataIssue[] => {
+  const limit = WICK_LIMITS[interval];
+  return klines.flatMap(k => {
+    if (k.high === undefined || k.low === undefined) return [];
+    const bodyTop = Math.max(k.open ?? k.close, k.close);
+    const bodyBottom = Math.min(k.open ?? k.close, k.close);
+    const upper = k.high / bodyTop - 1;
+    const lower = 1 - k.low / bodyBottom;
+    if (upper <= limit && lower <= limit) return [];
+    const side = upper > lower ? `위꼬리 +${pct(upper)}` : `아래꼬리 -${pct(lower)}`;
+    return [{ kind: 'outlier_wick' as const, level: 'warning' as const, timestamp: k.timestamp, message: `${interval} 봉 ${side} (허용 ${pct(limit)})` }];
+  });
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * 주변(앞뒤 3개) 중앙값에서 크게 벗어난 단발성 5분봉 종가
+ */
+export const findPriceSpikes = (points: { timestamp: number; price: number }[]): number[] =>
+  points.filter((p, i) => {
+    const neighbors = [...points.slice(Math.max(0, i - 3), i), ...points.slice(i + 1, i + 4)].map(n => n.price);
+    if (neighbors.length < 2) return false;
+    return Math.abs(Math.log(p.price / median(neighbors))) > PRICE_SPIKE_LIMIT;
+  }).map(p => p.timestamp);
+
+export const findFxJumps = (fxHistory: FxHistoryPoint[], current: FxRates | null, now: number): DataIssue[] => {
+  const issues: DataIssue[] = [];
+  const from = toDateKey(now - FX_JUMP_LOOKBACK_DAYS * DAY_MS);
+  const recent = fxHistory.filter(p => p.date >= from);
+  for (let i = 1; i < recent.length; i++) {
+    (Object.keys(recent[i].rates) as FiatCurrency[]).forEach(symbol => {
+      const prev = recent[i - 1].rates[symbol];
+      const curr = recent[i].rates[symbol];
+      if (!prev || !curr) return;
+      const change = curr / prev - 1;
+      if (Math.abs(change) > FX_JUMP_LIMIT) {
+        issues.push({ kind: 'fx_jump', level: 'warning', timestamp: new Date(recent[i].date).getTime(), message: `USD/${symbol} ${recent[i - 1].date} → ${recent[i].date} ${change >= 0 ? '+' : ''}${pct(change)}` });
+      }
+    });
+  }
+  const last = fxHistory[fxHistory.length - 1];
+  if (current && last) {
+    (Object.keys(current) as FiatCurrency[]).forEach(symbol => {
+      const base = last.rates[symbol];
+      if (!base) return;
+      const change = current[symbol] / base - 1;
+      if (Math.abs(change) > FX_JUMP_LIMIT) {
+        issues.push({ kind: 'fx_jump', level: 'error', timestamp: now, message: `현재 USD/${symbol}가 ${last.date} 대비 ${change >= 0 ? '+' : ''}${pct(change)} 차이` });
+      }
+    });
+  }
+  return issues;
+};
+
+export interface DataHealthInput {
+  now: number;
+  daily: Kline[];
+  weekly: Kline[];
+  intraday: Kline[];
+  reordered: Partial<Record<KlineInterval, number>>; // 정렬 전 순서가 어긋난 봉 수
+  ticker: { price: number; live: boolean };           // live = 시세 API에서 받은 현재가
+  interpolatedDates: string[];
+  fxRates: FxRates | null;                             // 대체 환율이면 null
+  fxHistory: FxHistoryPoint[];
+}
+
+export const assessDataHealth = (input: DataHealthInput): DataHealthReport => {
+  const { now, intraday } = input;
+  const issues: DataIssue[] = [];
+
+  const gaps = groupDateRanges(input.interpolatedDates);
+  gaps.forEach(([start, end, days], i) => {
+    if (isWeeklyGap(gaps, i)) return;
+    issues.push({
+      kind: 'missing_days',
+      level: days > 7 ? 'error' : 'warning',
+      timestamp: new Date(start).getTime(),
+      message: days === 1 ? `${start} 일봉 없음 (직전 종가로 채움)` : `${start} ~ ${end} ${days}일 일봉 없음 (직전 종가로 채움)`,
+    });
+  });
+
+  (Object.entries(input.reordered) as [KlineInterval, number][]).forEach(([interval, count]) => {
+    if (count > 0) issues.push({ kind: 'non_monotonic', level: 'warning', timestamp: now, message: `${interval} 봉 ${count}개의 timestamp가 순서에 맞지 않아 정렬 후 사용` });
+  });
+
+  issues.push(...findOutlierWicks(input.weekly, '1w'), ...findOutlierWicks(input.daily, '1d'), ...findOutlierWicks(intraday, '5m'));
+
+  const suspectTimestamps = findPriceSpikes(intraday.map(k => ({ timestamp: k.timestamp, price: k.close })));
+  suspectTimestamps.forEach(timestamp => {
+    issues.push({ kind: 'outlier_price', level: 'warning', timestamp, message: '5분봉 종가가 주변 봉 대비 급등락 후 복귀' });
+  });
+
+  let tickerStale = false;
+  if (!input.ticker.live) {
+    tickerStale = true;
+    issues.push({ kind: 'stale_ticker', level: 'error', timestamp: now, message: '현재가 조회 실패로 마지막 일봉 종가를 현재가로 사용' });
+  }
+  const lastIntraday = intraday[intraday.length - 1];
+  if (lastIntraday) {
+    const age = now - lastIntraday.timestamp;
+    if (age > INTRADAY_STALE_MS) {
+      tickerStale = true;
+      issues.push({ kind: 'stale_ticker', level: 'warning', timestamp: lastIntraday.timestamp, message: `마지막 5분봉이 ${Math.round(age / 60000)}분 전` });
+    }
+    const divergence = input.ticker.price / lastIntraday.close - 1;
+    if (Math.abs(divergence) > TICKER_DIVERGENCE_LIMIT) {
+      tickerStale = true;
+      issues.push({ kind: 'stale_ticker', level: 'warning', timestamp: now, message: `현재가가 마지막 5분봉 종가와 ${divergence >= 0 ? '+' : ''}${pct(divergence)} 차이` });
+    }
+  }
+
+  issues.push(...findFxJumps(input.fxHistory, input.fxRates, now));
+
+  return {
+    checkedAt: now,
+    issues: issues.sort((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0)),
+    interpolatedDates: input.interpolatedDates,
+    suspectTimestamps,
+    tickerStale,
+  };
+};
+
+/**
+ * 네트워크 불가 시의 보고서 (캐시 또는 기본값 제공, 저장된 보간 기록만 유지)
+ */
+export const createOfflineHealthReport = (message: string, interpolatedDates: string[] = [], now: number = Date.now()): DataHealthReport => ({
+  checkedAt: now,
+  issues: [{ kind: 'stale_ticker', level: 'error', timestamp: now, message }],
+  interpolatedDates,
+  suspectTimestamps: [],
+  tickerStale: true,
+});
+
+export interface SnapshotPrice {
+  price: number;
+  flags: SnapshotFlag[];
+}
+
+export interface SnapshotPriceSources {
+  intraday: PriceData[];
+  history: PriceData[];     // 일간 종가 (오름차순)
+  currentPrice: number;
+  now: number;
+  health: DataHealthReport | null;
+}
+
+/**
+ * 스냅샷 시점의 가격 결정
+ * 1시간 이내 5분봉 → 현재 시점이면 현재가 → 해당일 일봉 종가 순으로 사용하며, 사용한 값의 출처를 플래그로 남김.
+ * 쓸 수 있는 값이 없으면 null (스냅샷을 만들지 않음)
+ */
+export const resolveSnapshotPrice = (timestamp: number, sources: SnapshotPriceSources): SnapshotPrice | null => {
+  const { intraday, health } = sources;
+  const suspects = new Set(health?.suspectTimestamps ?? []);
+
+  if (intraday.length > 0) {
+    const closest = intraday.reduce((prev, curr) =>
+      Math.abs(new Date(curr.date).getTime() - timestamp) < Math.abs(new Date(prev.date).getTime() - timestamp) ? curr : prev
+    );
+    const closestTime = new Date(closest.date).getTime();
+    if (Math.abs(closestTime - timestamp) < HOUR_MS) {
+      return { price: closest.price, flags: suspects.has(closestTime) ? ['outlier'] : [] };
+    }
+  }
+
+  if (sources.now - timestamp < HOUR_MS) {
+    return { price: sources.currentPrice, flags: health?.tickerStale ? ['stale_ticker'] : [] };
+  }
+
+  const date = toDateKey(timestamp);
+  const daily = sources.history.find(p => p.date === date);
+  if (!daily) return null;
+  const interpolated = health?.interpolatedDates.includes(date) ?? false;
+  return { price: daily.price, flags: interpolated ? ['daily_close', 'interpolated'] : ['daily_close'] };
+};
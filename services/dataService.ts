@@ -1,8 +1,17 @@
 
-import { MarketData, PriceData } from '../types';
+import { DataPiece, DataSources, FngData, FxHistoryPoint, FxRates, MarketData, PriceData, ProviderName, SourceError } from '../types';
+import { FALLBACK_FX_RATES, FIAT_CURRENCIES } from '../constants';
+import { mergeFngHistory } from './fngHistory';
+import { mergeFxHistory } from './currency';
+import { loadBundledHistory } from './historicalDataset';
+import { getMissingDays, loadPriceCache, savePriceCache } from './historyCache';
+import { FailoverError, Kline, KlineInterval, ProviderRegistry, SourcedValue, createProviderRegistry, requestKlines, withFailover } from './marketProviders';
+import { ApiError, classifyError } from './apiSchema';
+import { DataHealthReport, assessDataHealth, createOfflineHealthReport, fillDailyGaps, normalizeKlines } from './dataQuality';
+import { AssetConfig, AssetId } from './assets';
 
 /**
- * 역사적 데이터 보강
+ * 역사적 데이터 보강 (번들 일간 데이터셋이 없을 때의 대체 분기 데이터)
  */
 const HISTORICAL_PRE_BINANCE: PriceData[] = [
   { date: '2015-01-01', price: 314 },
@@ -18,103 +27,281 @@ const HISTORICAL_PRE_BINANCE: PriceData[] = [
   { date: '2017-07-01', price: 2480 },
 ];
 
-const fetchFromBinance = async (): Promise<{ currentPrice: number, history: PriceData[], intraday: PriceData[] }> => {
-  const tickerRes = await fetch('https://api.binance.com/api/v3/ticker/price?symbol=BTCUSDT');
-  const tickerData = await tickerRes.json();
-  const currentPrice = parseFloat(tickerData.price);
-
-  // 장기 차트용 (주봉/일봉)
-  const weeklyRes = await fetch('https://api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=1w&limit=1000');
-  const weeklyData = await weeklyRes.json();
-  const dailyRes = await fetch('https://api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=1d&limit=1000');
-  const dailyData = await dailyRes.json();
-
-  // 실시간 흐름 분석 및 백필링용 (5분봉, 최근 12시간 = 144개)
-  const intradayRes = await fetch('https://api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=5m&limit=144');
-  const intradayData = await intradayRes.json();
-  
-  const rawMap = new Map<string, number>();
-  HISTORICAL_PRE_BINANCE.forEach(p => rawMap.set(p.date, p.price));
+// 자산별 대체 분기 데이터 (없는 자산은 거래소 봉만 사용)
+const FALLBACK_SEEDS: Partial<Record<AssetId, PriceData[]>> = { BTC: HISTORICAL_PRE_BINANCE };
 
-  weeklyData.forEach((d: any[]) => {
-    const date = new Date(d[0]).toISOString().split('T')[0];
-    rawMap.set(date, parseFloat(d[4]));
-  });
+const toDateKey = (timestamp: number): string => new Date(timestamp).toISOString().split('T')[0];
 
-  dailyData.forEach((d: any[]) => {
-    const date = new Date(d[0]).toISOString().split('T')[0];
-    rawMap.set(date, parseFloat(d[4]));
+// 주봉 시작일 → 종가가 확정되는 주 마지막 날 (6일 뒤)
+const WEEK_CLOSE_OFFSET_MS = 6 * 24 * 60 * 60 * 1000;
+
+/**
+ * 기준 시계열(seed)에 주봉/일봉을 병합하고 누락일을 직전 종가로 채워 일간 시계열 생성.
+ * 주봉 종가는 주 마지막 날의 값으로 두고, seed와 일봉이 모두 없는 날짜에만 사용.
+ * seed가 이미 채워진 캐시이면 그 보간 기록(seedInterpolated) 중 새 봉으로 확인된 날짜는 제외
+ */
+const buildDailyHistory = (seed: PriceData[], weekly: Kline[], daily: Kline[], seedInterpolated: string[] = []) => {
+  const rawMap = new Map<string, number>();
+  seed.forEach(p => rawMap.set(p.date, p.price));
+  const fetched = new Set<string>();
+  daily.forEach(k => {
+    const date = toDateKey(k.timestamp);
+    rawMap.set(date, k.close);
+    fetched.add(date);
   });
+  const today = toDateKey(Date.now());
+  weekly.forEach(k => {
+    const date = toDateKey(k.timestamp + WEEK_CLOSE_OFFSET_MS);
+    if (date > today || rawMap.has(date)) return; // 진행 중인 주 또는 실제 일간 값이 있는 날짜
+    rawMap.set(date, k.close);
+    fetched.add(date);
+  });
+  const carried = seedInterpolated.filter(date => !fetched.has(date));
+  carried.forEach(date => rawMap.delete(date));
+  return fillDailyGaps(rawMap);
+};
 
-  const sortedDates = Array.from(rawMap.keys()).sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
-  const startDate = new Date('2015-01-01');
-  const endDate = new Date(sortedDates[sortedDates.length - 1]);
-  const history: PriceData[] = [];
-  let lastPrice = rawMap.get(sortedDates[0]) || 314;
-  
-  for (let d = new Date(startDate); d <= endDate; d.setDate(d.getDate() + 1)) {
-    const dateStr = d.toISOString().split('T')[0];
-    if (rawMap.has(dateStr)) {
-      lastPrice = rawMap.get(dateStr)!;
-    }
-    history.push({ date: dateStr, price: lastPrice });
+/**
+ * 가격 관련 조각이 모두 같은 거래소에서 왔으면 해당 거래소, 아니면 Hybrid
+ */
+const summarizeSource = (sources: DataSources): MarketData['dataSource'] => {
+  const priceSources = new Set([sources.ticker, sources.history, sources.intraday]);
+  if (priceSources.size === 1) {
+    const [only] = Array.from(priceSources);
+    if (only === 'Binance' || only === 'CoinGecko' || only === 'Kraken' || only === 'Coinbase') return only;
   }
-
-  const intraday: PriceData[] = intradayData.map((d: any[]) => ({
-    date: new Date(d[0]).toISOString(),
-    price: parseFloat(d[4])
-  }));
-
-  return { currentPrice, history, intraday };
+  return 'Hybrid';
 };
 
 export interface EnhancedMarketData extends MarketData {
   intraday: PriceData[];
+  health: DataHealthReport;
 }
 
-export const fetchMarketData = async (): Promise<EnhancedMarketData> => {
+const FALLBACK_SOURCES: DataSources = { ticker: 'Fallback', history: 'Fallback', intraday: 'Fallback', fng: 'Fallback', fx: 'Fallback', krwSpot: 'Fallback' };
+
+// FX 시계열 시작일 (차트 시작 이전 구간은 필요 없음)
+const FX_HISTORY_START = '2010-07-19';
+
+/**
+ * 캐시된 환율 (이전 버전 캐시는 KRW만 보유)
+ */
+const getCachedRates = (cache: { usdKrw: number; fxRates?: FxRates } | null): FxRates =>
+  cache ? { ...FALLBACK_FX_RATES, ...cache.fxRates, KRW: cache.usdKrw } : FALLBACK_FX_RATES;
+
+/**
+ * 제공자 실패 → 화면 표시용 오류 (fatal = 대체값 또는 캐시 사용)
+ */
+const toSourceErrors = (piece: DataPiece, failures: { provider: ProviderName | null; error: unknown }[], fatal: boolean): SourceError[] =>
+  failures.map(({ provider, error }) => ({
+    piece,
+    provider,
+    fatal,
+    kind: classifyError(error),
+    message: error instanceof Error ? error.message : String(error),
+    ...(error instanceof ApiError ? { status: error.status, retryAfter: error.retryAfter } : {}),
+  }));
+
+export const fetchMarketData = async (
+  asset: AssetConfig,
+  providers: ProviderRegistry = createProviderRegistry(asset.markets)
+): Promise<EnhancedMarketData> => {
+  const cache = await loadPriceCache(asset.id);
+  const bundled = await loadBundledHistory(asset);
+  const baseSeed = bundled.length > 0 ? bundled : FALLBACK_SEEDS[asset.id] ?? [];
+  const errors: SourceError[] = [];
+
+  // 장애 조치 결과의 제공자별 실패를 오류 목록에 기록
+  const track = async <T>(piece: DataPiece, request: Promise<SourcedValue<T>>): Promise<SourcedValue<T>> => {
+    try {
+      const result = await request;
+      errors.push(...toSourceErrors(piece, result.failures ?? [], false));
+      return result;
+    } catch (e) {
+      errors.push(...toSourceErrors(piece, e instanceof FailoverError ? e.failures : [{ provider: null, error: e }], true));
+      throw e;
+    }
+  };
+
   try {
-    const { currentPrice, history, intraday } = await fetchFromBinance();
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) throw new ApiError('network', 'Offline');
+
+    // 캐시가 있으면 마지막 저장일 이후의 일봉만 증분 요청, 없으면 주봉/일봉 전체 구성
+    const missingDays = cache ? getMissingDays(cache.history) : Infinity;
+    const isIncremental = missingDays <= 1000;
+    // 봉 순서가 어긋나거나 중복된 응답은 정렬 후 사용하고 보고서에 기록
+    const reordered: Partial<Record<KlineInterval, number>> = {};
+    const normalize = (interval: KlineInterval, klines: Kline[]) => {
+      const result = normalizeKlines(klines);
+      reordered[interval] = result.reordered + result.duplicates;
+      return result.klines;
+    };
+
+    const daily = await track('history', withFailover(providers.price, p => requestKlines(p, '1d', isIncremental ? missingDays : 1000)));
+    const dailyKlines = normalize('1d', daily.value);
+    let weekly: Kline[] = [];
+    if (!isIncremental) {
+      // 주봉 미지원 제공자만 남은 경우 일봉으로만 구성
+      try {
+        weekly = normalize('1w', (await track('weekly', withFailover(providers.price, p => requestKlines(p, '1w', 1000)))).value);
+      } catch (e) {
+        console.warn("Weekly klines unavailable:", e);
+      }
+    }
+    // 캐시가 번들 데이터셋보다 늦게 시작하면(데이터셋 추가 이전 캐시) 앞부분을 데이터셋으로 보강
+    const seed = isIncremental
+      ? [...baseSeed.filter(p => p.date < cache!.history[0].date), ...cache!.history]
+      : baseSeed;
+    const { history, interpolatedDates } = buildDailyHistory(seed, weekly, dailyKlines, isIncremental ? cache!.interpolatedDates : []);
+
+    // 실시간 흐름 분석 및 백필링용 (5분봉, 최근 12시간 = 144개)
+    let intradayKlines: Kline[] = [];
+    let intraday: SourcedValue<PriceData[]> = { value: [], source: 'Fallback' };
+    try {
+      const result = await track('intraday', withFailover(providers.price, p => requestKlines(p, '5m', 144)));
+      intradayKlines = normalize('5m', result.value);
+      intraday = {
+        value: intradayKlines.map(k => ({ date: new Date(k.timestamp).toISOString(), price: k.close })),
+        source: result.source
+      };
+    } catch (e) {
+      console.warn("Intraday klines unavailable:", e);
+    }
 
-    let fngValue = 50;
+    let ticker: SourcedValue<number>;
+    let tickerLive = true;
     try {
-      const fngRes = await fetch('https://api.alternative.me/fng/?limit=1');
-      const fngJson = await fngRes.json();
-      fngValue = parseInt(fngJson.data[0].value) || 50;
+      ticker = await track('ticker', withFailover(providers.price, p => p.fetchTicker?.()));
+    } catch (e) {
+      console.warn("Ticker unavailable, using last close:", e);
+      ticker = { value: history[history.length - 1].price, source: daily.source };
+      tickerLive = false;
+    }
+
+    let fng: SourcedValue<number> = { value: 50, source: 'Fallback' };
+    try {
+      fng = await track('fng', withFailover(providers.sentiment, p => p.fetchFng()));
     } catch {}
 
-    let usdKrw = 1440;
+    // 과거 심리 지수: 캐시가 있으면 마지막 저장일 이후만 증분 요청 (limit=0 은 전체)
+    let fngHistory: FngData[] = cache?.fngHistory ?? [];
     try {
-      const exRes = await fetch('https://api.frankfurter.app/latest?from=USD&to=KRW');
-      const exJson = await exRes.json();
-      usdKrw = exJson?.rates?.KRW || 1440;
+      const limit = fngHistory.length > 0 ? getMissingDays(fngHistory) : 0;
+      const result = await track('fngHistory', withFailover(providers.sentiment, p => p.fetchFngHistory?.(limit)));
+      fngHistory = mergeFngHistory(fngHistory, result.value);
     } catch (e) {
-      try {
-        const fallbackRes = await fetch('https://api.exchangerate-api.com/v4/latest/USD');
-        const fallbackJson = await fallbackRes.json();
-        usdKrw = fallbackJson?.rates?.KRW || 1440;
-      } catch {}
+      console.warn("FNG history unavailable:", e);
     }
 
+    let fx: SourcedValue<FxRates> = { value: FALLBACK_FX_RATES, source: 'Fallback' };
+    try {
+      fx = await track('fx', withFailover(providers.fx, p => p.fetchRates(FIAT_CURRENCIES)));
+    } catch {}
+
+    // 과거 환율: 캐시 마지막 일자부터 증분 요청
+    let fxHistory: FxHistoryPoint[] = cache?.fxHistory ?? [];
+    try {
+      const start = fxHistory.length > 0 ? fxHistory[fxHistory.length - 1].date : FX_HISTORY_START;
+      const result = await track('fxHistory', withFailover(providers.fx, p => p.fetchRateHistory?.(start, FIAT_CURRENCIES)));
+      fxHistory = mergeFxHistory(fxHistory, result.value);
+    } catch (e) {
+      console.warn("FX history unavailable:", e);
+    }
+
+    let krwSpot: SourcedValue<number | null> = { value: null, source: 'Fallback' };
+    try {
+      krwSpot = await track('krwSpot', withFailover(providers.krwSpot, p => p.fetchKrwTicker()));
+    } catch (e) {
+      console.warn("KRW spot unavailable:", e);
+    }
+
+    const sources: DataSources = {
+      ticker: ticker.source,
+      history: daily.source,
+      intraday: intraday.source,
+      fng: fng.source,
+      fx: fx.source,
+      krwSpot: krwSpot.source
+    };
+
+    // 오프라인에서는 직전 값을 유지할 수 있도록 대체값은 캐시의 마지막 값으로 보정
+    const fngValue = fng.source === 'Fallback' && cache ? cache.fngValue : fng.value;
+    const fxRates = fx.source === 'Fallback' ? getCachedRates(cache) : fx.value;
+    const usdKrw = fxRates.KRW;
+    const updatedAt = Date.now();
+    await savePriceCache({ history, fngHistory, currentPrice: ticker.value, fngValue, usdKrw, fxRates, fxHistory, interpolatedDates, updatedAt }, asset.id);
+
+    const health = assessDataHealth({
+      now: updatedAt,
+      daily: dailyKlines,
+      weekly,
+      intraday: intradayKlines,
+      reordered,
+      ticker: { price: ticker.value, live: tickerLive },
+      interpolatedDates,
+      fxRates: fx.source === 'Fallback' ? null : fx.value,
+      fxHistory,
+    });
+
     return {
-      currentPrice,
+      currentPrice: ticker.value,
       fngValue,
       usdKrw,
-      lastUpdated: new Date().toLocaleString('ko-KR'),
+      fxRates,
+      fxHistory,
+      krwSpot: krwSpot.value,
+      lastUpdated: new Date(updatedAt).toLocaleString('ko-KR'),
       history,
-      intraday,
-      dataSource: 'Hybrid'
+      fngHistory,
+      intraday: intraday.value,
+      dataSource: summarizeSource(sources),
+      sources,
+      stale: false,
+      cachedAt: updatedAt,
+      health,
+      errors
     };
   } catch (error) {
     console.error("Data Fetch Error:", error);
+    if (!errors.some(e => e.fatal)) errors.push(...toSourceErrors('history', [{ provider: null, error }], true));
+    if (cache) {
+      // 네트워크 불가 시 마지막으로 저장된 시계열을 오래된(stale) 데이터로 표시하여 제공
+      return {
+        currentPrice: cache.currentPrice,
+        fngValue: cache.fngValue,
+        usdKrw: cache.usdKrw,
+        fxRates: getCachedRates(cache),
+        fxHistory: cache.fxHistory ?? [],
+        krwSpot: null,
+        lastUpdated: new Date(cache.updatedAt).toLocaleString('ko-KR'),
+        history: cache.history,
+        fngHistory: cache.fngHistory ?? [],
+        intraday: [],
+        dataSource: 'Fallback',
+        sources: FALLBACK_SOURCES,
+        stale: true,
+        cachedAt: cache.updatedAt,
+        health: createOfflineHealthReport('네트워크 불가로 캐시된 시세 사용', cache.interpolatedDates),
+        errors
+      };
+    }
     return {
-      currentPrice: 98000,
+      currentPrice: asset.fallbackPrice,
       fngValue: 75,
-      usdKrw: 1440,
-      lastUpdated: '데이터 연결 오류 (대체 모드)',
+      usdKrw: FALLBACK_FX_RATES.KRW,
+      fxRates: FALLBACK_FX_RATES,
+      fxHistory: [],
+      krwSpot: null,
+      lastUpdated: '',
       history: [],
+      fngHistory: [],
       intraday: [],
-      dataSource: 'Fallback'
+      dataSource: 'Fallback',
+      sources: FALLBACK_SOURCES,
+      stale: false,
+      cachedAt: null,
+      health: createOfflineHealthReport('시세 연결 실패로 기본값 사용'),
+      errors
     };
   }
 };
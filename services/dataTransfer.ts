@@ -0,0 +1,368 @@
+import { MarketStatus, ModelId, Snapshot } from '../types';
+import { Schema, array, boolean, number, object, oneOf, optional, parse, positive, record, string } from './apiSchema';
+import { AlertCondition, AlertEvent, AlertRule, BandKey, CrossDirection, loadAlertLog, loadAlertRules, saveAlertLog, saveAlertRules } from './alerts';
+import { migrateSnapshot, saveSnapshots } from './snapshotStore';
+import { ASSETS, AssetId, DEFAULT_ASSET_ID } from './assets';
+import { DISPLAY_CURRENCIES } from './currency';
+import { INSIGHT_METRICS } from './insights';
+import { AnalysisSettings, loadAnalysisSettings, mergeImportedAnalysisSettings, saveAnalysisSettings } from './analysisBackend';
+
+/**
+ * 기기 간 데이터 이동: 스냅샷 로그·알림·설정의 내보내기/가져오기
+ *
+ * JSON 번들은 format/version으로 식별하며, 가져오기 시 레코드별로 검증하여 잘못된 항목만 건너뜁니다.
+ * 스냅샷은 timestamp, 알림 기록은 id 기준으로 기존 데이터와 병합(중복 제거)합니다.
+ * 스냅샷 로그는 자산별이므로 번들에 자산을 기록하고, 다른 자산의 번들은 해당 자산으로 전환한 뒤에만 가져올 수 있습니다.
+ */
+export const EXPORT_FORMAT = 'btc-compass';
+export const EXPORT_VERSION = 1;
+
+const MODEL_IDS: ModelId[] = ['standard', 'decaying', 'cycle', 'stockToFlow', 'rainbow'];
+
+// JSON으로 저장되는 설정 값: 파싱 후 스키마 검증
+const json = <T>(schema: Schema<T>): Schema<T> => (v, path) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(string(v, path));
+  } catch {
+    throw new Error(`${path}: JSON 형식이 올바르지 않습니다`);
+  }
+  return schema(parsed, path);
+};
+
+const url = (protocols: string[]): Schema<string> => (v, path) => {
+  const value = string(v, path);
+  let protocol = '';
+  try {
+    protocol = new URL(value).protocol;
+  } catch {
+    // 아래에서 오류 처리
+  }
+  if (!protocols.includes(protocol)) throw new Error(`${path}: ${protocols.join('/')} 주소가 아닙니다`);
+  return value;
+};
+
+const pattern = (re: RegExp): Schema<string> => (v, path) => {
+  const value = string(v, path);
+  if (!re.test(value)) throw new Error(`${path}: 형식이 올바르지 않습니다`);
+  return value;
+};
+
+/**
+ * 번들에 포함하는 설정 키와 값 스키마 (포트폴리오 거래는 자체 CSV로 관리)
+ * 가져올 때 스키마를 통과한 값만 기록하므로 잘못된 값이 이후 로드를 깨뜨리지 않습니다.
+ */
+const SETTING_SCHEMAS: Record<string, Schema<unknown>> = {
+  btc_compass_model_mode: oneOf(['pinned', 'ols', 'quantile']),
+  btc_compass_ensembles: json(array(object({
+    id: string,
+    name: string,
+    weights: record(number),
+    builtIn: optional(boolean),
+  }))),
+  btc_compass_active_ensemble: pattern(/\S/),
+  btc_compass_display_currency: oneOf(Object.keys(DISPLAY_CURRENCIES)),
+  btc_compass_chart_settings: json(object({
+    range: optional(oneOf(['1y', 'cycle', 'all', 'custom'])),
+    scale: optional(oneOf(['log', 'linear'])),
+    horizonDays: optional(positive(number)),
+    models: optional(array(oneOf(MODEL_IDS))),
+    showFan: optional(boolean),
+  })),
+  btc_compass_refresh_minutes: pattern(/^\d+$/),
+  btc_compass_live_mode: oneOf(['0', '1']),
+  btc_compass_onchain_url: url(['http:', 'https:']),
+  btc_compass_stream_url: url(['ws:', 'wss:']),
+  btc_compass_block_source_url: url(['http:', 'https:']),
+  btc_compass_insight_rules: json(array(object({
+    id: string,
+    scope: oneOf(['summary', 'point']),
+    enabled: boolean,
+    severity: oneOf(['info', 'positive', 'warning', 'critical']),
+    conditions: array(object({
+      metric: oneOf(Object.keys(INSIGHT_METRICS)),
+      window: oneOf(['now', 'prev', '1d', '7d', '30d']),
+      op: oneOf(['>', '<', 'abs>', 'abs<', 'any']),
+      value: number,
+    })),
+    template: string,
+  }))),
+  // 제공자와 엔드포인트 주소는 가져오지 않음 (applyImport에서 현재 값 유지)
+  btc_compass_analysis_settings: json(object({
+    timeoutMs: optional(positive(number)),
+    geminiModel: optional(string),
+    openaiModel: optional(string),
+  })),
+};
+
+const SETTINGS_KEYS = Object.keys(SETTING_SCHEMAS);
+
+const SNAPSHOT_CSV_HEADER = 'timestamp,datetime,status,price,fair,oscillator,fng,mvrv,flags';
+const ALERT_CSV_HEADER = 'timestamp,datetime,rule_id,message,price';
+
+export interface ExportBundle {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  asset?: AssetId;        // 스냅샷 로그의 자산 (이전 번들에는 없음 = BTC)
+  snapshots: Snapshot[];
+  alertRules: AlertRule[];
+  alertLog: AlertEvent[];
+  settings: Record<string, string>;
+}
+
+export interface ImportPayload {
+  asset: AssetId | null;  // CSV는 자산 정보 없음
+  snapshots: Snapshot[];
+  alertRules: AlertRule[];
+  alertLog: AlertEvent[];
+  settings: Record<string, string>;
+  skipped: number; // 검증 실패로 건너뛴 레코드 수
+}
+
+export interface ImportResult {
+  snapshots: Snapshot[];  // 병합 후 전체 로그 (최신순)
+  added: number;
+  alertsAdded: number;
+  settingsApplied: number;
+  skipped: number;
+}
+
+// --- 내보내기 ---
+
+export const buildExportBundle = (snapshots: Snapshot[], assetId: AssetId = DEFAULT_ASSET_ID): ExportBundle => {
+  const settings: Record<string, string> = {};
+  SETTINGS_KEYS.forEach(key => {
+    const value = localStorage.getItem(key);
+    if (value !== null) settings[key] = value;
+  });
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    asset: assetId,
+    snapshots,
+    alertRules: loadAlertRules(),
+    alertLog: loadAlertLog(),
+    settings,
+  };
+};
+
+const csvCell = (value: string | number) => {
+  const str = String(value);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+export const snapshotsToCsv = (snapshots: Snapshot[]): string =>
+  [SNAPSHOT_CSV_HEADER, ...[...snapshots].sort((a, b) => a.timestamp - b.timestamp).map(s =>
+    [s.timestamp, new Date(s.timestamp).toISOString(), s.status, s.price, s.fair, s.oscillator, s.fng, s.mvrv, (s.flags ?? []).join(';')].map(csvCell).join(',')
+  )].join('\n');
+
+export const alertLogToCsv = (log: AlertEvent[]): string =>
+  [ALERT_CSV_HEADER, ...[...log].sort((a, b) => a.timestamp - b.timestamp).map(ev =>
+    [ev.timestamp, new Date(ev.timestamp).toISOString(), ev.ruleId, ev.message, ev.price].map(csvCell).join(',')
+  )].join('\n');
+
+export const downloadText = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- 가져오기 (검증) ---
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const DIRECTIONS: CrossDirection[] = ['above', 'below'];
+const BANDS: BandKey[] = ['fair', 'upper', 'lower'];
+
+// 조건 종류별 필드 스키마
+const CONDITION_SCHEMAS: { [K in AlertCondition['kind']]: Schema<Extract<AlertCondition, { kind: K }>> } = {
+  priceBand: object({ kind: oneOf(['priceBand'] as const), band: oneOf(BANDS), direction: oneOf(DIRECTIONS) }),
+  oscillator: object({ kind: oneOf(['oscillator'] as const), threshold: number, direction: oneOf(DIRECTIONS) }),
+  status: object({ kind: oneOf(['status'] as const), status: oneOf(Object.values(MarketStatus)) }),
+  fng: object({ kind: oneOf(['fng'] as const), threshold: number, direction: oneOf(DIRECTIONS) }),
+};
+
+const CONDITION_KINDS = Object.keys(CONDITION_SCHEMAS) as AlertCondition['kind'][];
+
+const alertCondition: Schema<AlertCondition> = (v, path) => {
+  const { kind } = object({ kind: oneOf(CONDITION_KINDS) })(v, path);
+  return CONDITION_SCHEMAS[kind](v, path);
+};
+
+const alertRule: Schema<AlertRule> = object({
+  id: string,
+  enabled: boolean,
+  cooldownMinutes: number,
+  condition: alertCondition,
+  lastTriggeredAt: optional(number),
+});
+
+const alertEvent: Schema<AlertEvent> = object({ id: string, ruleId: string, timestamp: number, message: string, price: number });
+
+// 스키마를 통과하면 검증된 값, 아니면 null (목록 항목 검증용)
+const tryParse = <T>(schema: Schema<T>) => (value: unknown): T | null => {
+  try {
+    return parse(schema, value);
+  } catch {
+    return null;
+  }
+};
+
+const validateList = <T, I = unknown>(raw: I[] | unknown, check: (item: I) => T | null) => {
+  const items: I[] = Array.isArray(raw) ? raw : [];
+  const valid = items.map(check).filter((v): v is T => v !== null);
+  return { valid, skipped: items.length - valid.length };
+};
+
+/**
+ * 설정 값 검증: 알 수 없는 키는 무시, 스키마를 통과하지 못한 값은 건너뜀(skipped)
+ */
+const validateSettings = (raw: unknown) => {
+  const settings: Record<string, string> = {};
+  let skipped = 0;
+  Object.entries(isRecord(raw) ? raw : {}).forEach(([key, value]) => {
+    const schema = SETTING_SCHEMAS[key];
+    if (!schema) return;
+    try {
+      schema(value, key);
+      settings[key] = value as string;
+    } catch {
+      skipped++;
+    }
+  });
+  return { settings, skipped };
+};
+
+const parseBundle = (json: unknown): ImportPayload => {
+  if (!isRecord(json) || json.format !== EXPORT_FORMAT) throw new Error('BTC Compass 내보내기 파일이 아닙니다.');
+  if (!Number.isInteger(json.version) || (json.version as number) > EXPORT_VERSION) {
+    throw new Error(`지원하지 않는 파일 버전입니다 (v${json.version}).`);
+  }
+  const asset = json.asset === undefined ? DEFAULT_ASSET_ID : ASSETS.find(a => a.id === json.asset)?.id;
+  if (!asset) throw new Error(`지원하지 않는 자산입니다 (${json.asset}).`);
+  const snapshots = validateList(json.snapshots, migrateSnapshot);
+  const rules = validateList(json.alertRules, tryParse(alertRule));
+  const log = validateList(json.alertLog, tryParse(alertEvent));
+  const settings = validateSettings(json.settings);
+  return {
+    asset,
+    snapshots: snapshots.valid,
+    alertRules: rules.valid,
+    alertLog: log.valid,
+    settings: settings.settings,
+    skipped: snapshots.skipped + rules.skipped + log.skipped + settings.skipped,
+  };
+};
+
+/**
+ * CSV → 행 목록. 따옴표로 감싼 셀의 쉼표·줄바꿈과 이스케이프된 따옴표("")를 처리
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows.filter(r => r.some(c => c.trim()));
+};
+
+const parseSnapshotCsv = (text: string): ImportPayload => {
+  const [headerRow = [], ...body] = parseCsv(text);
+  const header = headerRow.map(h => h.trim().toLowerCase());
+  if (!header.includes('timestamp')) throw new Error('CSV 헤더에 timestamp 열이 필요합니다.');
+  const rows = body.map(cells => {
+    const row: Record<string, string> = {};
+    header.forEach((h, i) => { row[h] = cells[i]?.trim() ?? ''; });
+    return row;
+  });
+  // CSV는 모든 값이 문자열이므로 숫자 필드가 비어 있는 행은 손상된 것으로 간주
+  const snapshots = validateList(rows, (row: Record<string, string>) =>
+    ['price', 'fair', 'oscillator'].every(k => row[k] !== '' && Number.isFinite(Number(row[k]))) ? migrateSnapshot(row) : null
+  );
+  return { asset: null, snapshots: snapshots.valid, alertRules: [], alertLog: [], settings: {}, skipped: snapshots.skipped };
+};
+
+/**
+ * 파일 내용 → 가져올 데이터. JSON 번들 또는 스냅샷 CSV를 자동 판별
+ */
+export const parseImportFile = (text: string): ImportPayload => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      throw new Error('JSON 형식이 올바르지 않습니다.');
+    }
+    return parseBundle(json);
+  }
+  return parseSnapshotCsv(trimmed);
+};
+
+/**
+ * 검증된 데이터를 현재 자산의 저장소와 병합하여 적용
+ */
+export const applyImport = async (payload: ImportPayload, existing: Snapshot[], assetId: AssetId = DEFAULT_ASSET_ID): Promise<ImportResult> => {
+  if (payload.asset && payload.asset !== assetId) {
+    throw new Error(`${payload.asset} 로그 파일입니다. 자산을 ${payload.asset}(으)로 전환한 뒤 가져오세요.`);
+  }
+  const known = new Set(existing.map(s => s.timestamp));
+  const fresh = payload.snapshots.filter(s => !known.has(s.timestamp));
+  const snapshots = fresh.length > 0 ? await saveSnapshots(existing, fresh, assetId) : existing;
+
+  const rules = loadAlertRules();
+  const ruleIds = new Set(rules.map(r => r.id));
+  const newRules = payload.alertRules.filter(r => !ruleIds.has(r.id));
+  if (newRules.length > 0) saveAlertRules([...rules, ...newRules]);
+
+  const log = loadAlertLog();
+  const eventIds = new Set(log.map(e => e.id));
+  const newEvents = payload.alertLog.filter(e => !eventIds.has(e.id));
+  if (newEvents.length > 0) saveAlertLog([...log, ...newEvents].sort((a, b) => b.timestamp - a.timestamp));
+
+  Object.entries(payload.settings).forEach(([key, value]) => {
+    if (key !== 'btc_compass_analysis_settings') return localStorage.setItem(key, value);
+    const imported: Partial<AnalysisSettings> = JSON.parse(value);
+    saveAnalysisSettings(mergeImportedAnalysisSettings(loadAnalysisSettings(), imported));
+  });
+
+  return {
+    snapshots,
+    added: fresh.length,
+    alertsAdded: newRules.length + newEvents.length,
+    settingsApplied: Object.keys(payload.settings).length,
+    skipped: payload.skipped,
+  };
+};
@@ -0,0 +1,28 @@
+import { ModelEnsemble } from '../types';
+import { DEFAULT_ENSEMBLES } from '../constants';
+
+const ENSEMBLES_KEY = 'btc_compass_ensembles';
+const ACTIVE_ENSEMBLE_KEY = 'btc_compass_active_ensemble';
+
+/**
+ * 기본 앙상블 + 사용자 정의 앙상블 (사용자 정의분만 localStorage에 저장)
+ */
+export const loadEnsembles = (): ModelEnsemble[] => {
+  try {
+    const saved = localStorage.getItem(ENSEMBLES_KEY);
+    const custom: ModelEnsemble[] = saved ? JSON.parse(saved) : [];
+    return [...DEFAULT_ENSEMBLES, ...custom.filter(e => !e.builtIn)];
+  } catch (e) {
+    return [...DEFAULT_ENSEMBLES];
+  }
+};
+
+export const saveEnsembles = (ensembles: ModelEnsemble[]) => {
+  localStorage.setItem(ENSEMBLES_KEY, JSON.stringify(ensembles.filter(e => !e.builtIn)));
+};
+
+export const loadActiveEnsembleId = (): string => localStorage.getItem(ACTIVE_ENSEMBLE_KEY) || DEFAULT_ENSEMBLES[0].id;
+
+export const saveActiveEnsembleId = (id: string) => {
+  localStorage.setItem(ACTIVE_ENSEMBLE_KEY, id);
+};
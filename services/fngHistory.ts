@@ -0,0 +1,37 @@
+import { FngData } from '../types';
+
+/**
+ * 기존 시계열에 새 구간을 병합 (같은 날짜는 새 값 우선), 날짜 오름차순 정렬
+ */
+export const mergeFngHistory = (base: FngData[], incoming: FngData[]): FngData[] => {
+  const map = new Map<string, number>();
+  base.forEach(p => map.set(p.date, p.value));
+  incoming.forEach(p => map.set(p.date, p.value));
+  return Array.from(map.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, value]) => ({ date, value }));
+};
+
+/**
+ * 날짜(YYYY-MM-DD 또는 ISO) → 해당일 심리 지수 조회 함수 생성
+ * 누락일은 직전 값, 지수 발표 이전 구간(2018-02 이전)은 fallback(기본 중립 50)을 사용합니다.
+ */
+export const createFngLookup = (series: FngData[], fallback: number = 50) => {
+  const dates = series.map(p => p.date);
+  return (date: string): number => {
+    const key = date.slice(0, 10);
+    let lo = 0;
+    let hi = dates.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (dates[mid] <= key) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return found >= 0 ? series[found].value : fallback;
+  };
+};
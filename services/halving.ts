@@ -0,0 +1,183 @@
+/**
+ * 반감기 일정: 블록 데이터에서 과거 반감기 시점을 확인하고, 현재 블록 높이와 최근 블록 간격으로 미래 반감기를 추정합니다.
+ *
+ * 블록 소스는 Esplora 호환 REST API (mempool.space 또는 로컬 mempool/electrs 노드)이며
+ * 한 번 확인한 반감기 블록은 변하지 않으므로 캐시에 영구 보관하고, 체인 팁만 주기적으로 갱신합니다.
+ * 네트워크를 쓸 수 없으면 내장된 반감기 블록 타임스탬프와 600초 블록 간격으로 대체합니다.
+ */
+export const HALVING_INTERVAL = 210000;
+
+export interface BlockStamp {
+  height: number;
+  timestamp: number; // 블록 헤더 시간 (ms)
+}
+
+export interface ChainTip extends BlockStamp {
+  avgBlockSeconds: number; // 최근 SAMPLE_BLOCKS 구간 평균 블록 간격
+}
+
+export interface HalvingEvent {
+  epoch: number;      // 1 = 첫 번째 반감기
+  height: number;
+  timestamp: number;
+  estimated: boolean; // 아직 도달하지 않은 높이 (추정치)
+}
+
+export interface HalvingSchedule {
+  events: HalvingEvent[];
+  tip: ChainTip;
+  source: 'network' | 'cache' | 'fallback';
+  updatedAt: number;
+}
+
+interface HalvingCache {
+  blocks: BlockStamp[];
+  tip: ChainTip;
+  updatedAt: number;
+}
+
+export const DEFAULT_BLOCK_SOURCE_URL = 'https://mempool.space/api';
+
+const SOURCE_URL_KEY = 'btc_compass_block_source_url';
+const CACHE_KEY = 'btc_compass_halving_cache';
+const TARGET_BLOCK_SECONDS = 600;
+const SAMPLE_BLOCKS = 2016;               // 난이도 조정 1주기
+const FUTURE_HALVINGS = 3;
+const TIP_REFRESH_MS = 6 * 60 * 60 * 1000;
+
+// 제네시스 블록과 과거 반감기 블록의 헤더 시간 (네트워크 미사용 시 기준값)
+const GENESIS_BLOCK: BlockStamp = { height: 0, timestamp: 1231006505000 };
+const BUNDLED_HALVING_BLOCKS: BlockStamp[] = [
+  { height: 210000, timestamp: 1354116278000 },
+  { height: 420000, timestamp: 1468082773000 },
+  { height: 630000, timestamp: 1589225023000 },
+  { height: 840000, timestamp: 1713571767000 },
+];
+
+/**
+ * 확인된 반감기 블록 + 체인 팁 → 반감기 일정 (도달하지 않은 높이는 팁 기준 평균 블록 간격으로 추정)
+ */
+export const buildHalvingSchedule = (
+  blocks: BlockStamp[],
+  tip: ChainTip,
+  source: HalvingSchedule['source'],
+  updatedAt: number = Date.now()
+): HalvingSchedule => {
+  const known = new Map(blocks.map(b => [b.height, b.timestamp]));
+  const lastEpoch = Math.floor(tip.height / HALVING_INTERVAL) + FUTURE_HALVINGS;
+  const events: HalvingEvent[] = [];
+  for (let epoch = 1; epoch <= lastEpoch; epoch++) {
+    const height = epoch * HALVING_INTERVAL;
+    const confirmed = known.get(height);
+    if (height <= tip.height && confirmed === undefined) continue; // 조회 실패한 과거 높이는 생략
+    events.push({
+      epoch,
+      height,
+      timestamp: confirmed ?? tip.timestamp + (height - tip.height) * tip.avgBlockSeconds * 1000,
+      estimated: confirmed === undefined,
+    });
+  }
+  return { events, tip, source, updatedAt };
+};
+
+const FALLBACK_TIP: ChainTip = { ...BUNDLED_HALVING_BLOCKS[BUNDLED_HALVING_BLOCKS.length - 1], avgBlockSeconds: TARGET_BLOCK_SECONDS };
+
+export const FALLBACK_HALVING_SCHEDULE = buildHalvingSchedule(BUNDLED_HALVING_BLOCKS, FALLBACK_TIP, 'fallback', 0);
+
+/**
+ * 해당 시점이 속한 반감기 구간(직전 반감기 → 다음 반감기) 내 진행률 0~1
+ * 첫 반감기 이전은 제네시스 블록부터, 마지막 추정치 이후는 직전 구간 길이로 연장합니다.
+ */
+export const getCyclePhase = (date: Date, schedule: HalvingSchedule): number => {
+  const t = date.getTime();
+  const marks = [GENESIS_BLOCK.timestamp, ...schedule.events.map(e => e.timestamp)];
+  let i = marks.length - 2;
+  while (i > 0 && marks[i] > t) i--;
+  let start = marks[i];
+  let span = marks[i + 1] - start;
+  if (t >= marks[marks.length - 1]) {
+    start = marks[marks.length - 1] + Math.floor((t - marks[marks.length - 1]) / span) * span;
+  }
+  return Math.min(1, Math.max(0, (t - start) / span));
+};
+
+const ORDINALS = ['1st', '2nd', '3rd'];
+
+export const getHalvingLabel = (event: HalvingEvent) =>
+  `${ORDINALS[event.epoch - 1] ?? `${event.epoch}th`} Halving${event.estimated ? ' (Est.)' : ''}`;
+
+// --- 블록 소스 ---
+
+export const getBlockSourceUrl = (): string => localStorage.getItem(SOURCE_URL_KEY) || DEFAULT_BLOCK_SOURCE_URL;
+
+export const setBlockSourceUrl = (url: string) => {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  if (!trimmed || trimmed === DEFAULT_BLOCK_SOURCE_URL) localStorage.removeItem(SOURCE_URL_KEY);
+  else localStorage.setItem(SOURCE_URL_KEY, trimmed);
+};
+
+const fetchText = async (url: string): Promise<string> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status}: ${url}`);
+  return (await res.text()).trim();
+};
+
+const fetchBlockStamp = async (baseUrl: string, height: number): Promise<BlockStamp> => {
+  const hash = await fetchText(`${baseUrl}/block-height/${height}`);
+  const block = JSON.parse(await fetchText(`${baseUrl}/block/${hash}`));
+  if (!Number.isFinite(block?.timestamp)) throw new Error(`블록 ${height}의 타임스탬프가 없습니다.`);
+  return { height, timestamp: block.timestamp * 1000 };
+};
+
+const fetchChainTip = async (baseUrl: string): Promise<ChainTip> => {
+  const height = parseInt(await fetchText(`${baseUrl}/blocks/tip/height`));
+  if (!Number.isFinite(height) || height <= SAMPLE_BLOCKS) throw new Error('블록 높이 응답이 올바르지 않습니다.');
+  const [tip, sample] = await Promise.all([fetchBlockStamp(baseUrl, height), fetchBlockStamp(baseUrl, height - SAMPLE_BLOCKS)]);
+  const avgBlockSeconds = (tip.timestamp - sample.timestamp) / 1000 / SAMPLE_BLOCKS;
+  return { ...tip, avgBlockSeconds: avgBlockSeconds > 0 ? avgBlockSeconds : TARGET_BLOCK_SECONDS };
+};
+
+// --- 캐시 ---
+
+const loadCache = (): HalvingCache | null => {
+  try {
+    const saved = localStorage.getItem(CACHE_KEY);
+    const parsed = saved ? JSON.parse(saved) : null;
+    return Array.isArray(parsed?.blocks) && Number.isFinite(parsed?.tip?.height) ? parsed : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * 네트워크 조회 전 초기 일정 (캐시 → 내장 기준값)
+ */
+export const loadHalvingSchedule = (): HalvingSchedule => {
+  const cache = typeof localStorage === 'undefined' ? null : loadCache();
+  return cache ? buildHalvingSchedule(cache.blocks, cache.tip, 'cache', cache.updatedAt) : FALLBACK_HALVING_SCHEDULE;
+};
+
+/**
+ * 블록 소스에서 체인 팁과 미확인 반감기 블록을 조회하여 일정을 갱신 (캐시가 신선하면 재사용)
+ * 실패 시 캐시 → 내장 기준값 순으로 대체합니다.
+ */
+export const syncHalvingSchedule = async (force = false): Promise<HalvingSchedule> => {
+  const cache = loadCache();
+  if (!force && cache && Date.now() - cache.updatedAt < TIP_REFRESH_MS) {
+    return buildHalvingSchedule(cache.blocks, cache.tip, 'cache', cache.updatedAt);
+  }
+  const baseUrl = getBlockSourceUrl();
+  try {
+    const tip = await fetchChainTip(baseUrl);
+    const blocks = [...(cache?.blocks ?? [])];
+    for (let height = HALVING_INTERVAL; height <= tip.height; height += HALVING_INTERVAL) {
+      if (!blocks.some(b => b.height === height)) blocks.push(await fetchBlockStamp(baseUrl, height));
+    }
+    const updatedAt = Date.now();
+    localStorage.setItem(CACHE_KEY, JSON.stringify({ blocks, tip, updatedAt }));
+    return buildHalvingSchedule(blocks, tip, 'network', updatedAt);
+  } catch (e) {
+    console.warn("Halving schedule refresh failed:", e);
+    return cache ? buildHalvingSchedule(cache.blocks, cache.tip, 'cache', cache.updatedAt) : FALLBACK_HALVING_SCHEDULE;
+  }
+};
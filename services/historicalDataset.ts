@@ -0,0 +1,88 @@
+import { PriceData } from '../types';
+import { AssetConfig, BTC_ASSET } from './assets';
+
+/**
+ * 번들 일간 종가 데이터셋
+ * scripts/build-history-dataset.mjs 로 CSV에서 생성되며 public/data/btc-daily.json 으로 배포됩니다.
+ *
+ * 압축 형식: 시작일부터 하루 간격의 종가에 scale을 곱한 정수로 바꾼 뒤 전일 대비 차분(delta)을
+ * base36 문자열로 이어 붙임. checksum은 복원된 정수 시퀀스의 FNV-1a(32bit) 해시.
+ */
+export interface HistoryDataset {
+  version: number;
+  asset: string;
+  start: string;    // YYYY-MM-DD
+  count: number;
+  scale: number;    // 1 USD 당 정수 단위 (초기 가격이 $0.1 미만이므로 센트보다 세밀하게 저장)
+  checksum: string; // 8자리 hex
+  deltas: string;   // base36 차분, 쉼표 구분
+}
+
+export const DATASET_VERSION = 1;
+
+export const fnv1a = (values: number[]): string => {
+  let hash = 0x811c9dc5;
+  for (const v of values) {
+    const s = `${v};`;
+    for (let i = 0; i < s.length; i++) {
+      hash ^= s.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+/**
+ * 데이터셋 복원 및 무결성 검증. 검증 실패 시 예외를 던집니다.
+ */
+export const decodeHistoryDataset = (dataset: HistoryDataset, asset: AssetConfig = BTC_ASSET): PriceData[] => {
+  if (dataset.version !== DATASET_VERSION) throw new Error(`Unsupported dataset version: ${dataset.version}`);
+  if (dataset.asset !== asset.id) throw new Error(`Dataset asset mismatch: ${dataset.asset} / ${asset.id}`);
+  if (!(dataset.scale > 0)) throw new Error(`Invalid dataset scale: ${dataset.scale}`);
+  const start = new Date(`${dataset.start}T00:00:00Z`);
+  if (isNaN(start.getTime()) || start < asset.inceptionDate) throw new Error(`Invalid dataset start: ${dataset.start}`);
+
+  const units: number[] = [];
+  let acc = 0;
+  for (const token of dataset.deltas.split(',')) {
+    const delta = parseInt(token, 36);
+    if (!Number.isFinite(delta)) throw new Error(`Corrupt delta token: ${token}`);
+    acc += delta;
+    if (acc <= 0) throw new Error(`Non-positive close at index ${units.length}`);
+    units.push(acc);
+  }
+
+  if (units.length !== dataset.count) throw new Error(`Count mismatch: ${units.length} / ${dataset.count}`);
+  if (fnv1a(units) !== dataset.checksum) throw new Error('Checksum mismatch');
+
+  return units.map((c, i) => {
+    const d = new Date(start);
+    d.setUTCDate(d.getUTCDate() + i);
+    return { date: d.toISOString().split('T')[0], price: c / dataset.scale };
+  });
+};
+
+const datasetPromises = new Map<string, Promise<PriceData[]>>();
+
+/**
+ * 자산의 번들 데이터셋 로드 (자산별 1회만 요청). 데이터셋이 없는 자산이거나 손상된 경우 빈 배열을 반환하여 호출 측이 대체 데이터를 쓰도록 함
+ */
+export const loadBundledHistory = (asset: AssetConfig = BTC_ASSET): Promise<PriceData[]> => {
+  const url = asset.datasetUrl;
+  if (!url) return Promise.resolve([]);
+  let pending = datasetPromises.get(url);
+  if (!pending) {
+    pending = (async () => {
+      try {
+        const res = await fetch(url);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return decodeHistoryDataset(await res.json(), asset);
+      } catch (e) {
+        console.warn("Bundled history unavailable:", e);
+        return [];
+      }
+    })();
+    datasetPromises.set(url, pending);
+  }
+  return pending;
+};
@@ -0,0 +1,47 @@
+import { FngData, FxHistoryPoint, FxRates, PriceData } from '../types';
+import { STORES, idbGet, idbPut, isIdbAvailable } from './idb';
+import { AssetId, DEFAULT_ASSET_ID } from './assets';
+
+/**
+ * 오프라인 캐시 레코드: 전진 보간된 일간 시계열과 마지막 시세 요약
+ */
+export interface PriceCacheRecord {
+  history: PriceData[];
+  fngHistory?: FngData[]; // 이전 버전 캐시에는 없을 수 있음
+  currentPrice: number;
+  fngValue: number;
+  usdKrw: number;
+  fxRates?: FxRates;              // 이전 버전 캐시에는 없을 수 있음
+  fxHistory?: FxHistoryPoint[];
+  interpolatedDates?: string[];   // history 중 직전 종가로 채운 날짜
+  updatedAt: number; // 마지막 동기화 시각 (ms)
+}
+
+// 레코드 키 = 자산 ID (기존 BTC 캐시 키와 동일)
+export const loadPriceCache = async (assetId: AssetId = DEFAULT_ASSET_ID): Promise<PriceCacheRecord | null> => {
+  if (!isIdbAvailable()) return null;
+  try {
+    const record = await idbGet<PriceCacheRecord>(STORES.PRICE_CACHE, assetId);
+    return record && record.history.length > 0 ? record : null;
+  } catch (e) {
+    console.warn("Price cache read failed:", e);
+    return null;
+  }
+};
+
+export const savePriceCache = async (record: PriceCacheRecord, assetId: AssetId = DEFAULT_ASSET_ID): Promise<void> => {
+  if (!isIdbAvailable()) return;
+  try {
+    await idbPut(STORES.PRICE_CACHE, record, assetId);
+  } catch (e) {
+    console.warn("Price cache write failed:", e);
+  }
+};
+
+/**
+ * 캐시 마지막 일자 이후 필요한 일봉 개수 (마지막 일자는 미완성 봉일 수 있어 다시 받음)
+ */
+export const getMissingDays = (history: { date: string }[], now: Date = new Date()): number => {
+  const last = new Date(history[history.length - 1].date).getTime();
+  return Math.max(1, Math.floor((now.getTime() - last) / (1000 * 60 * 60 * 24)) + 1);
+};
@@ -0,0 +1,101 @@
+/**
+ * IndexedDB 공용 접근 계층
+ * 모든 오브젝트 스토어는 이곳의 upgrade 단계에서 생성되며, 스토어 추가 시 DB_VERSION을 올립니다.
+ */
+const DB_NAME = 'btc_compass';
+const DB_VERSION = 3;
+
+export const STORES = {
+  PRICE_CACHE: 'priceCache',
+  ONCHAIN: 'onchain',
+  SNAPSHOTS: 'snapshots',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.PRICE_CACHE);
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.ONCHAIN);
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(STORES.SNAPSHOTS);
+  }
+};
+
+export const isIdbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (e) => upgrade(req.result, e.oldVersion);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const toPromise = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const idbGet = async <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDb();
+  return toPromise<T | undefined>(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+export const idbPut = async <T>(store: StoreName, value: T, key?: IDBValidKey): Promise<void> => {
+  const db = await openDb();
+  await toPromise(db.transaction(store, 'readwrite').objectStore(store).put(value, key));
+};
+
+export const idbDelete = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+  const db = await openDb();
+  await toPromise(db.transaction(store, 'readwrite').objectStore(store).delete(key));
+};
+
+export const idbGetAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDb();
+  return toPromise<T[]>(db.transaction(store, 'readonly').objectStore(store).getAll());
+};
+
+/**
+ * 여러 레코드를 하나의 트랜잭션으로 기록
+ */
+export const idbPutMany = async <T>(store: StoreName, entries: { key: IDBValidKey; value: T }[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  const os = tx.objectStore(store);
+  entries.forEach(({ key, value }) => os.put(value, key));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const idbDeleteMany = async (store: StoreName, keys: IDBValidKey[]): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  const os = tx.objectStore(store);
+  keys.forEach(key => os.delete(key));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const idbClear = async (store: StoreName): Promise<void> => {
+  const db = await openDb();
+  await toPromise(db.transaction(store, 'readwrite').objectStore(store).clear());
+};
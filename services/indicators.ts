@@ -0,0 +1,41 @@
+import { MarketStatus, ModelCoefficients, ModelValues, ModelWeights } from '../types';
+import { DEFAULT_WEIGHTS, getModelValues } from './modelEngine';
+import { classifyRisk } from './marketStatus';
+import { AssetConfig } from './assets';
+import { FALLBACK_HALVING_SCHEDULE, HalvingSchedule } from './halving';
+
+export interface IndicatorResult {
+  model: ModelValues;
+  oscillator: number;
+  mvrvEst: number;        // 오실레이터 기반 추정치
+  mvrv: number;           // 판정에 사용된 값 (실측 Z-Score가 있으면 실측, 없으면 추정치)
+  mvrvIsEstimate: boolean;
+  status: MarketStatus;
+  riskPercent: number;
+}
+
+/**
+ * 가격/심리 지수로 오실레이터, MVRV 추정치, 종합 리스크와 시장 국면을 산출
+ * 대시보드와 백테스트가 동일한 판정 로직을 공유합니다.
+ */
+export const calculateIndicators = (
+  asset: AssetConfig,
+  price: number,
+  date: Date,
+  fng: number,
+  coef: ModelCoefficients = asset.coefficients,
+  weights: ModelWeights = DEFAULT_WEIGHTS,
+  mvrvZ: number | null = null,
+  halvings: HalvingSchedule = FALLBACK_HALVING_SCHEDULE
+): IndicatorResult => {
+  const model = getModelValues(asset, date, coef, weights, halvings);
+  const oscillator = price > 0 ? Math.log(price / model.weighted) : 0;
+  const priceRisk = Math.max(0, Math.min(100, ((oscillator + 0.5) / 1.0) * 100));
+  const mvrvEst = (oscillator * 6.5) + 2.5;
+  const mvrv = mvrvZ ?? mvrvEst;
+  const riskPercent = (priceRisk * 0.6) + (fng * 0.2) + ((Math.max(0, Math.min(100, (mvrv / 6) * 100))) * 0.2);
+
+  const status = classifyRisk(riskPercent);
+
+  return { model, oscillator, mvrvEst, mvrv, mvrvIsEstimate: mvrvZ === null, status, riskPercent };
+};
@@ -0,0 +1,240 @@
+import { AIAnalysis, DateInsight, InsightSeverity, Snapshot, TrendWindow } from '../types';
+
+/**
+ * 규칙 기반 인사이트 엔진 (스냅샷 로그 → 요약 + 시점별 코멘트)
+ *
+ * 규칙은 선언형 조건(AND)과 메시지 템플릿으로 구성되며 목록 순서대로 평가하여 처음 일치한 규칙을 사용합니다.
+ * 조건의 window가 now면 해당 시점 값, 그 외에는 기준 시점 대비 변화량을 비교합니다.
+ *   prev = 바로 이전 스냅샷, 1d/7d/30d = 해당 기간 이전의 가장 가까운 스냅샷 (기간의 2배 이내만 인정)
+ * 비교 대상 스냅샷이 없으면 조건은 거짓입니다.
+ */
+export type InsightMetric = 'oscillator' | 'fng' | 'mvrv' | 'deviation' | 'price' | 'trend';
+export type InsightWindow = 'now' | 'prev' | TrendWindow;
+export type InsightOperator = '>' | '<' | 'abs>' | 'abs<' | 'any';
+export type InsightScope = 'summary' | 'point';
+
+export interface InsightCondition {
+  metric: InsightMetric;
+  window: InsightWindow;
+  op: InsightOperator;
+  value: number;
+}
+
+export interface InsightRule {
+  id: string;
+  scope: InsightScope;
+  enabled: boolean;
+  severity: InsightSeverity;
+  conditions: InsightCondition[];
+  template: string; // {metric} 또는 {metric:window} 치환, {direction} = 상회/하회
+}
+
+export const INSIGHT_METRICS: Record<InsightMetric, string> = {
+  oscillator: '오실레이터',
+  fng: '공포·탐욕',
+  mvrv: 'MVRV',
+  deviation: '적정가 괴리(%)',
+  price: '가격',
+  trend: '종합 추세',
+};
+
+export const INSIGHT_WINDOWS: InsightWindow[] = ['now', 'prev', '1d', '7d', '30d'];
+export const INSIGHT_OPERATORS: InsightOperator[] = ['>', '<', 'abs>', 'abs<', 'any'];
+export const TREND_WINDOWS: TrendWindow[] = ['1d', '7d', '30d'];
+
+const WINDOW_MS: Record<TrendWindow, number> = {
+  '1d': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+const cond = (metric: InsightMetric, window: InsightWindow, op: InsightOperator, value = 0): InsightCondition => ({ metric, window, op, value });
+
+export const DEFAULT_INSIGHT_RULES: InsightRule[] = [
+  // 요약
+  { id: 'overheat', scope: 'summary', enabled: true, severity: 'critical', conditions: [cond('oscillator', 'now', '>', 0.4)],
+    template: "경고: 현재 가격이 모델 상단 임계치에 도달했습니다. 역사적으로 이 구간은 강력한 매도 압력이 발생하는 '과열 국면'입니다. 신규 진입보다는 리스크 관리에 집중해야 할 시점입니다." },
+  { id: 'bottom', scope: 'summary', enabled: true, severity: 'positive', conditions: [cond('oscillator', 'now', '<', -0.4)],
+    template: "기회: 시장이 통계적 저점 구간에 진입했습니다. 공포 지수가 높고 모델 하단에 위치한 현재 상태는 장기 투자자에게 '매집의 최적기'임을 시사합니다. 분할 매수 전략이 유효합니다." },
+  { id: 'sustained-up', scope: 'summary', enabled: true, severity: 'positive', conditions: [cond('trend', '7d', '>', 0.05), cond('trend', '30d', '>', 0.1)],
+    template: "중기 상승 추세: 7일({trend:7d})과 30일({trend:30d}) 추세가 모두 우상향입니다. 적정 가치({fair}) 대비 {deviation}% {direction} 중이며, 모멘텀이 유지되는 동안 추세 추종이 유리합니다." },
+  { id: 'sustained-down', scope: 'summary', enabled: true, severity: 'warning', conditions: [cond('trend', '7d', '<', -0.05), cond('trend', '30d', '<', -0.1)],
+    template: "중기 하락 추세: 7일({trend:7d})과 30일({trend:30d}) 추세가 모두 하락 중입니다. 지표 전반의 열기가 식고 있으므로 하단 밴드 부근의 지지 여부를 확인한 뒤 대응하십시오." },
+  { id: 'trend-up', scope: 'summary', enabled: true, severity: 'positive', conditions: [cond('trend', '1d', '>', 0.05)],
+    template: "추세 상승: 주요 지표들이 동반 우상향하며 긍정적인 모멘텀을 형성하고 있습니다. 가격이 적정 가치({fair})를 상회하려는 시도가 관찰되며, 투심 회복에 따른 추가 상승 가능성이 높습니다." },
+  { id: 'trend-down', scope: 'summary', enabled: true, severity: 'warning', conditions: [cond('trend', '1d', '<', -0.05)],
+    template: "추세 둔화: 지표의 단기 하락 전환이 관찰됩니다. 시장의 열기가 식어가는 과정이며, 지지선 확인을 위한 조정 가능성이 존재합니다. 무리한 추격 매수보다는 관망하며 가격 안착을 확인하십시오." },
+  { id: 'balanced', scope: 'summary', enabled: true, severity: 'info', conditions: [cond('trend', 'prev', 'any')],
+    template: "균형 유지: 시장이 뚜렷한 방향성 없이 적정 가치 궤도 내에서 안정적으로 움직이고 있습니다. 큰 변동성보다는 박스권 흐름이 예상되며, 지표의 급격한 변화를 주시하며 평단가 관리에 힘쓰십시오." },
+  { id: 'snapshot', scope: 'summary', enabled: true, severity: 'info', conditions: [],
+    template: "스냅샷 분석: 현재 가격은 적정 가치({fair}) 대비 약 {deviation}% {direction} 중입니다. 뚜렷한 추세 형성을 판단하기 위해 추가 로그 기록이 필요하지만, 현재 위치는 통계적으로 '평균 회귀' 가능성이 있는 구간입니다." },
+  // 시점별
+  { id: 'point-flat', scope: 'point', enabled: true, severity: 'info', conditions: [cond('oscillator', 'prev', 'abs<', 0.01), cond('fng', 'prev', 'abs<', 2)],
+    template: "지표가 정체 상태이며 에너지를 응축 중입니다." },
+  { id: 'point-recovery', scope: 'point', enabled: true, severity: 'positive', conditions: [cond('oscillator', 'prev', '>', 0), cond('fng', 'prev', '>', 0)],
+    template: "가격 회복과 투심 개선이 동시에 나타나는 긍정적 신호입니다." },
+  { id: 'point-risk', scope: 'point', enabled: true, severity: 'warning', conditions: [cond('oscillator', 'prev', '<', 0), cond('fng', 'prev', '<', 0)],
+    template: "가격 이탈과 공포 확산이 관찰되는 리스크 확대 구간입니다." },
+  { id: 'point-divergence', scope: 'point', enabled: true, severity: 'warning', conditions: [cond('oscillator', 'prev', '>', 0), cond('fng', 'prev', '<', 0)],
+    template: "가격은 오르나 투심은 위축된 '약세 다이버전스' 가능성이 있습니다." },
+  { id: 'point-mixed', scope: 'point', enabled: true, severity: 'info', conditions: [cond('oscillator', 'prev', 'any')],
+    template: "시장 내 매수-매도세가 팽팽하게 맞서며 변동성을 준비하고 있습니다." },
+  { id: 'point-greed', scope: 'point', enabled: true, severity: 'warning', conditions: [cond('fng', 'now', '>', 70)],
+    template: "극단적 탐욕 구간입니다. 가격 상승세가 강력하나 단기 조정에 주의하십시오." },
+  { id: 'point-fear', scope: 'point', enabled: true, severity: 'positive', conditions: [cond('fng', 'now', '<', 30)],
+    template: "극심한 공포가 지배하는 구간입니다. 역발상적 관점에서 매수 기회를 검토할 수 있습니다." },
+  { id: 'point-neutral', scope: 'point', enabled: true, severity: 'info', conditions: [],
+    template: "지표가 중립 범위에 머물고 있습니다. 시장의 방향성이 결정되기를 기다리는 시기입니다." },
+];
+
+// --- 지표 계산 ---
+
+const deviationPct = (s: Snapshot) => s.fair > 0 ? (s.price / s.fair - 1) * 100 : 0;
+
+const metricValue = (s: Snapshot, metric: Exclude<InsightMetric, 'trend'>): number => {
+  switch (metric) {
+    case 'oscillator': return s.oscillator;
+    case 'fng': return s.fng;
+    case 'mvrv': return s.mvrv;
+    case 'deviation': return deviationPct(s);
+    case 'price': return s.price;
+  }
+};
+
+/**
+ * 기준 시점 대비 변화량. 가격은 변화율(%), 종합 추세는 오실레이터 + 심리/100 + MVRV/5
+ */
+const metricDelta = (curr: Snapshot, base: Snapshot, metric: InsightMetric): number => {
+  if (metric === 'trend') {
+    return (curr.oscillator - base.oscillator) + (curr.fng - base.fng) / 100 + (curr.mvrv - base.mvrv) / 5;
+  }
+  if (metric === 'price') return base.price > 0 ? (curr.price / base.price - 1) * 100 : 0;
+  return metricValue(curr, metric) - metricValue(base, metric);
+};
+
+/**
+ * 최신순 로그에서 index 시점의 비교 기준 스냅샷
+ */
+const findBase = (snapshots: Snapshot[], index: number, window: Exclude<InsightWindow, 'now'>): Snapshot | null => {
+  if (window === 'prev') return snapshots[index + 1] ?? null;
+  const target = snapshots[index].timestamp - WINDOW_MS[window];
+  let lo = index + 1, hi = snapshots.length - 1, found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (snapshots[mid].timestamp <= target) { found = mid; hi = mid - 1; } else { lo = mid + 1; }
+  }
+  if (found < 0) return null;
+  return target - snapshots[found].timestamp <= WINDOW_MS[window] ? snapshots[found] : null;
+};
+
+const conditionValue = (snapshots: Snapshot[], index: number, c: InsightCondition): number | null => {
+  if (c.window === 'now') return c.metric === 'trend' ? null : metricValue(snapshots[index], c.metric);
+  const base = findBase(snapshots, index, c.window);
+  return base ? metricDelta(snapshots[index], base, c.metric) : null;
+};
+
+const compare = (v: number, op: InsightOperator, value: number) => {
+  switch (op) {
+    case '>': return v > value;
+    case '<': return v < value;
+    case 'abs>': return Math.abs(v) > value;
+    case 'abs<': return Math.abs(v) < value;
+    case 'any': return true;
+  }
+};
+
+export const matchesRule = (snapshots: Snapshot[], index: number, rule: InsightRule) =>
+  rule.conditions.every(c => {
+    const v = conditionValue(snapshots, index, c);
+    return v !== null && compare(v, c.op, c.value);
+  });
+
+// --- 메시지 ---
+
+const signed = (v: number, digits: number) => `${v >= 0 ? '+' : ''}${v.toFixed(digits)}`;
+
+/**
+ * 템플릿 치환: {fair} {price} {oscillator} {fng} {mvrv} {deviation} {direction} 및 {metric:window} 변화량
+ */
+export const renderTemplate = (template: string, snapshots: Snapshot[], index: number): string => {
+  const s = snapshots[index];
+  return template.replace(/\{(\w+)(?::(\w+))?\}/g, (match, key: string, window?: string) => {
+    if (window) {
+      if (!(key in INSIGHT_METRICS) || !INSIGHT_WINDOWS.includes(window as InsightWindow) || window === 'now') return match;
+      const base = findBase(snapshots, index, window as Exclude<InsightWindow, 'now'>);
+      if (!base) return '-';
+      const d = metricDelta(s, base, key as InsightMetric);
+      return key === 'price' || key === 'deviation' ? `${signed(d, 1)}%` : key === 'fng' ? signed(d, 0) : signed(d, key === 'trend' ? 3 : 2);
+    }
+    switch (key) {
+      case 'fair': return Math.round(s.fair).toLocaleString();
+      case 'price': return Math.round(s.price).toLocaleString();
+      case 'oscillator': return signed(s.oscillator, 2);
+      case 'fng': return Math.round(s.fng).toString();
+      case 'mvrv': return s.mvrv.toFixed(2);
+      case 'deviation': return Math.abs(Math.round(deviationPct(s))).toString();
+      case 'direction': return s.price > s.fair ? '상회' : '하회';
+      default: return match;
+    }
+  });
+};
+
+export const describeInsightCondition = (c: InsightCondition): string => {
+  const target = c.window === 'now' ? INSIGHT_METRICS[c.metric] : `Δ${INSIGHT_METRICS[c.metric]}(${c.window})`;
+  if (c.op === 'any') return `${target} 데이터 있음`;
+  const op = c.op === 'abs>' ? '|x| >' : c.op === 'abs<' ? '|x| <' : c.op;
+  return `${target} ${op} ${c.value}`;
+};
+
+// --- 분석 ---
+
+const firstMatch = (snapshots: Snapshot[], index: number, rules: InsightRule[]) =>
+  rules.find(r => matchesRule(snapshots, index, r));
+
+/**
+ * 스냅샷 로그(최신순) 분석. 일치하는 요약 규칙이 없으면 빈 요약을 반환합니다.
+ */
+export const analyzeSnapshots = (snapshots: Snapshot[], rules: InsightRule[]): AIAnalysis => {
+  const active = rules.filter(r => r.enabled);
+  const summaryRules = active.filter(r => r.scope === 'summary');
+  const pointRules = active.filter(r => r.scope === 'point');
+  if (snapshots.length === 0) return { summary: '', insights: [] };
+
+  const summaryRule = firstMatch(snapshots, 0, summaryRules);
+  const trends: AIAnalysis['trends'] = {};
+  TREND_WINDOWS.forEach(w => {
+    const base = findBase(snapshots, 0, w);
+    if (base) trends[w] = metricDelta(snapshots[0], base, 'trend');
+  });
+
+  const insights: DateInsight[] = [];
+  snapshots.forEach((s, i) => {
+    const rule = firstMatch(snapshots, i, pointRules);
+    if (rule) insights.push({ timestamp: s.timestamp, insight: renderTemplate(rule.template, snapshots, i), severity: rule.severity });
+  });
+
+  return {
+    summary: summaryRule ? renderTemplate(summaryRule.template, snapshots, 0) : '',
+    severity: summaryRule?.severity,
+    trends,
+    insights,
+  };
+};
+
+// --- 저장소 ---
+
+const RULES_KEY = 'btc_compass_insight_rules';
+
+export const loadInsightRules = (): InsightRule[] => {
+  try {
+    const saved = localStorage.getItem(RULES_KEY);
+    const parsed = saved ? JSON.parse(saved) : null;
+    return Array.isArray(parsed) ? parsed : DEFAULT_INSIGHT_RULES;
+  } catch (e) {
+    return DEFAULT_INSIGHT_RULES;
+  }
+};
+
+export const saveInsightRules = (rules: InsightRule[]) => localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+
+export const resetInsightRules = () => localStorage.removeItem(RULES_KEY);
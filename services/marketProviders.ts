@@ -0,0 +1,290 @@
+import { FiatCurrency, FngData, FxHistoryPoint, FxRates, ProviderName } from '../types';
+import { ApiError, array, fetchJson, number, numeric, object, positive, record, tuple } from './apiSchema';
+
+/**
+ * 시세 제공자(Provider) 추상화 계층
+ * 각 제공자는 지원하는 기능만 구현하며, 호출 측에서 순서대로 장애 조치(failover)합니다.
+ * 응답은 apiSchema의 스키마로 검증하여, 형식이 바뀌면 NaN이나 기본값 대신 schema 오류로 실패합니다.
+ */
+export type KlineInterval = '1w' | '1d' | '5m';
+
+export interface Kline {
+  timestamp: number; // 봉 시작 시각 (ms)
+  close: number;
+  open?: number;     // 시가/고가/저가는 제공자가 주는 경우만 (꼬리 이상치 검사용)
+  high?: number;
+  low?: number;
+}
+
+export interface PriceProvider {
+  name: ProviderName;
+  intervals?: KlineInterval[]; // 지원 봉 간격 (없으면 전체)
+  maxKlines?: number;          // 한 번에 받을 수 있는 최대 봉 개수 (요청 limit을 이 값으로 줄임)
+  fetchTicker?: () => Promise<number>;
+  fetchKlines?: (interval: KlineInterval, limit: number) => Promise<Kline[]>;
+}
+
+export interface SentimentProvider {
+  name: ProviderName;
+  fetchFng: () => Promise<number>;
+  fetchFngHistory?: (limit: number) => Promise<FngData[]>; // limit 0 = 전체
+}
+
+export interface FxProvider {
+  name: ProviderName;
+  fetchRates: (symbols: FiatCurrency[]) => Promise<FxRates>;
+  fetchRateHistory?: (startDate: string, symbols: FiatCurrency[]) => Promise<FxHistoryPoint[]>; // startDate 이후 전체
+}
+
+/**
+ * 국내 거래소 원화 현물가 (김치 프리미엄 계산용)
+ */
+export interface KrwSpotProvider {
+  name: ProviderName;
+  fetchKrwTicker: () => Promise<number>;
+}
+
+/**
+ * 거래소별 종목 표기 (자산마다 다름)
+ */
+export interface MarketSymbols {
+  binance: string;   // BTCUSDT
+  coingecko: string; // bitcoin
+  kraken: string;    // XBTUSD
+  coinbase: string;  // BTC-USD
+  upbit: string;     // KRW-BTC
+  bithumb: string;   // BTC_KRW
+}
+
+export const BTC_MARKETS: MarketSymbols = { binance: 'BTCUSDT', coingecko: 'bitcoin', kraken: 'XBTUSD', coinbase: 'BTC-USD', upbit: 'KRW-BTC', bithumb: 'BTC_KRW' };
+
+export interface ProviderRegistry {
+  price: PriceProvider[];
+  sentiment: SentimentProvider[];
+  fx: FxProvider[];
+  krwSpot: KrwSpotProvider[];
+}
+
+export interface ProviderFailure {
+  provider: ProviderName;
+  error: unknown;
+}
+
+export interface SourcedValue<T> {
+  value: T;
+  source: ProviderName;
+  failures?: ProviderFailure[]; // 성공한 제공자 이전에 실패한 제공자
+}
+
+/**
+ * 모든 제공자가 실패했을 때의 오류 (제공자별 원인 포함)
+ */
+export class FailoverError extends Error {
+  failures: ProviderFailure[];
+
+  constructor(failures: ProviderFailure[]) {
+    const detail = failures.map(f => `${f.provider}: ${f.error instanceof Error ? f.error.message : String(f.error)}`).join(' / ');
+    super(`All providers failed (${detail || 'no capable provider'})`);
+    this.name = 'FailoverError';
+    this.failures = failures;
+  }
+}
+
+const assertKlines = (klines: Kline[]): Kline[] => {
+  if (klines.length === 0) throw new ApiError('schema', 'Empty kline response');
+  return klines;
+};
+
+const pickRates = (rates: Record<string, number>, symbols: FiatCurrency[]): FxRates => {
+  const result = {} as FxRates;
+  symbols.forEach(symbol => { result[symbol] = positive(number)(rates[symbol], `rates.${symbol}`); });
+  return result;
+};
+
+/**
+ * 등록 순서대로 제공자를 시도하여 처음 성공한 결과와 제공자 이름을 반환
+ */
+export const withFailover = async <P extends { name: ProviderName }, T>(
+  providers: P[],
+  call: (provider: P) => Promise<T> | undefined
+): Promise<SourcedValue<T>> => {
+  const failures: ProviderFailure[] = [];
+  for (const provider of providers) {
+    try {
+      const pending = call(provider);
+      if (!pending) continue; // 해당 기능 미지원
+      const value = await pending;
+      return failures.length > 0 ? { value, source: provider.name, failures } : { value, source: provider.name };
+    } catch (error) {
+      failures.push({ provider: provider.name, error });
+    }
+  }
+  throw new FailoverError(failures);
+};
+
+/**
+ * 제공자가 지원하는 봉 간격이면 요청, 아니면 undefined (장애 조치에서 건너뜀).
+ * 제공자의 최대 봉 개수를 넘는 limit은 줄여서 요청하므로 결과가 요청보다 짧을 수 있음
+ */
+export const requestKlines = (provider: PriceProvider, interval: KlineInterval, limit: number) =>
+  !provider.intervals || provider.intervals.includes(interval)
+    ? provider.fetchKlines?.(interval, Math.min(limit, provider.maxKlines ?? limit))
+    : undefined;
+
+// --- 응답 스키마 ---
+
+// [openTime, open, high, low, close, ...]
+const binanceKlines = array(tuple(number, numeric, numeric, numeric, positive()));
+const binanceTicker = object({ price: positive() });
+
+const coinGeckoTicker = record(object({ usd: positive(number) }));
+const coinGeckoChart = object({ prices: array(tuple(number, positive(number))) });
+
+const krakenTicker = object({ result: record(object({ c: tuple(positive()) })) });
+// result는 페어별 봉 배열과 'last'(다음 조회 기준 시각)를 함께 포함
+const krakenOhlc = object({ result: record((v, path) => Array.isArray(v) ? array(tuple(number, numeric, numeric, numeric, positive()))(v, path) : []) });
+
+const coinbaseTicker = object({ price: positive() });
+// [time, low, high, open, close, volume]
+const coinbaseCandles = array(tuple(number, number, number, number, positive(number)));
+
+// value와 timestamp(초)는 문자열
+const fngResponse = object({ data: array(object({ value: numeric, timestamp: numeric }), { minLength: 1 }) });
+
+const ratesResponse = object({ rates: record(number) });
+const rateHistoryResponse = object({ rates: record(record(number)) });
+
+const upbitTicker = array(object({ trade_price: positive(number) }), { minLength: 1 });
+const bithumbTicker = object({ data: object({ closing_price: positive() }) });
+
+// --- 가격 제공자 ---
+
+export const createBinanceProvider = (baseUrl = 'https://api.binance.com', symbol = BTC_MARKETS.binance): PriceProvider => ({
+  name: 'Binance',
+  fetchTicker: async () => (await fetchJson(`${baseUrl}/api/v3/ticker/price?symbol=${symbol}`, binanceTicker)).price,
+  fetchKlines: async (interval, limit) => {
+    const rows = await fetchJson(`${baseUrl}/api/v3/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`, binanceKlines);
+    return assertKlines(rows.map(([timestamp, open, high, low, close]) => ({ timestamp, open, high, low, close })));
+  },
+});
+
+export const createCoinGeckoProvider = (baseUrl = 'https://api.coingecko.com', coinId = BTC_MARKETS.coingecko): PriceProvider => ({
+  name: 'CoinGecko',
+  // market_chart는 봉 단위를 직접 지정할 수 없으므로 일봉/5분봉만 지원 (주봉은 일봉으로 대체됨)
+  intervals: ['1d', '5m'],
+  maxKlines: 365, // 무료 API는 최근 365일까지만 조회 가능
+  fetchTicker: async () => {
+    const json = await fetchJson(`${baseUrl}/api/v3/simple/price?ids=${coinId}&vs_currencies=usd`, coinGeckoTicker);
+    if (!json[coinId]) throw new ApiError('schema', `${coinId}: expected object, got undefined`, { path: coinId });
+    return json[coinId].usd;
+  },
+  fetchKlines: async (interval, limit) => {
+    const days = interval === '1d' ? limit : 1;
+    const query = interval === '1d' ? `days=${days}&interval=daily` : `days=${days}`;
+    const json = await fetchJson(`${baseUrl}/api/v3/coins/${coinId}/market_chart?vs_currency=usd&${query}`, coinGeckoChart);
+    return assertKlines(json.prices.map(([timestamp, close]) => ({ timestamp, close })).slice(-limit));
+  },
+});
+
+const KRAKEN_INTERVALS: Record<KlineInterval, number> = { '1w': 10080, '1d': 1440, '5m': 5 };
+
+export const createKrakenProvider = (baseUrl = 'https://api.kraken.com', pair = BTC_MARKETS.kraken): PriceProvider => ({
+  name: 'Kraken',
+  maxKlines: 720, // OHLC는 간격과 무관하게 최근 720개만 반환
+  fetchTicker: async () => {
+    const json = await fetchJson(`${baseUrl}/0/public/Ticker?pair=${pair}`, krakenTicker);
+    const ticker = Object.values(json.result)[0];
+    if (!ticker) throw new ApiError('schema', 'result: expected a ticker pair');
+    return ticker.c[0];
+  },
+  fetchKlines: async (interval, limit) => {
+    const json = await fetchJson(`${baseUrl}/0/public/OHLC?pair=${pair}&interval=${KRAKEN_INTERVALS[interval]}`, krakenOhlc);
+    const rows = Object.entries(json.result).find(([key]) => key !== 'last')?.[1] ?? [];
+    return assertKlines(rows.slice(-limit).map(([time, open, high, low, close]) => ({ timestamp: time * 1000, open, high, low, close })));
+  },
+});
+
+const COINBASE_GRANULARITY: Partial<Record<KlineInterval, number>> = { '1d': 86400, '5m': 300 };
+
+export const createCoinbaseProvider = (baseUrl = 'https://api.exchange.coinbase.com', product = BTC_MARKETS.coinbase): PriceProvider => ({
+  name: 'Coinbase',
+  intervals: ['1d', '5m'],
+  maxKlines: 300,
+  fetchTicker: async () => (await fetchJson(`${baseUrl}/products/${product}/ticker`, coinbaseTicker)).price,
+  // Coinbase 캔들은 최신순, 요청당 최대 300개
+  fetchKlines: async (interval, limit) => {
+    const granularity = COINBASE_GRANULARITY[interval];
+    if (!granularity) throw new Error(`Interval ${interval} not supported`);
+    const rows = await fetchJson(`${baseUrl}/products/${product}/candles?granularity=${granularity}`, coinbaseCandles);
+    const klines: Kline[] = rows.map(([time, low, high, open, close]) => ({ timestamp: time * 1000, low, high, open, close })).reverse();
+    return assertKlines(klines.slice(-limit));
+  },
+});
+
+// --- 심리 지수 / 환율 제공자 ---
+
+export const createAlternativeMeProvider = (baseUrl = 'https://api.alternative.me'): SentimentProvider => ({
+  name: 'alternative.me',
+  fetchFng: async () => (await fetchJson(`${baseUrl}/fng/?limit=1`, fngResponse)).data[0].value,
+  // 응답은 최신순
+  fetchFngHistory: async (limit) => {
+    const json = await fetchJson(`${baseUrl}/fng/?limit=${limit}`, fngResponse);
+    return json.data
+      .map(d => ({ date: new Date(d.timestamp * 1000).toISOString().split('T')[0], value: Math.round(d.value) }))
+      .reverse();
+  },
+});
+
+export const createFrankfurterProvider = (baseUrl = 'https://api.frankfurter.app'): FxProvider => ({
+  name: 'Frankfurter',
+  fetchRates: async (symbols) => {
+    const json = await fetchJson(`${baseUrl}/latest?from=USD&to=${symbols.join(',')}`, ratesResponse);
+    return pickRates(json.rates, symbols);
+  },
+  // 기간 조회 응답: { rates: { 'YYYY-MM-DD': { KRW: ..., ... } } } (영업일만)
+  fetchRateHistory: async (startDate, symbols) => {
+    const json = await fetchJson(`${baseUrl}/${startDate}..?from=USD&to=${symbols.join(',')}`, rateHistoryResponse);
+    const points: FxHistoryPoint[] = Object.entries(json.rates)
+      .map(([date, rates]) => ({ date, rates: rates as Partial<FxRates> }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (points.length === 0) throw new ApiError('schema', 'rates: empty FX history');
+    return points;
+  },
+});
+
+export const createExchangeRateApiProvider = (baseUrl = 'https://api.exchangerate-api.com'): FxProvider => ({
+  name: 'ExchangeRate-API',
+  fetchRates: async (symbols) => {
+    const json = await fetchJson(`${baseUrl}/v4/latest/USD`, ratesResponse);
+    return pickRates(json.rates, symbols);
+  },
+});
+
+// --- 국내 거래소 원화 현물가 ---
+
+export const createUpbitProvider = (baseUrl = 'https://api.upbit.com', market = BTC_MARKETS.upbit): KrwSpotProvider => ({
+  name: 'Upbit',
+  fetchKrwTicker: async () => (await fetchJson(`${baseUrl}/v1/ticker?markets=${market}`, upbitTicker))[0].trade_price,
+});
+
+export const createBithumbProvider = (baseUrl = 'https://api.bithumb.com', pair = BTC_MARKETS.bithumb): KrwSpotProvider => ({
+  name: 'Bithumb',
+  fetchKrwTicker: async () => (await fetchJson(`${baseUrl}/public/ticker/${pair}`, bithumbTicker)).data.closing_price,
+});
+
+/**
+ * 기본 제공자 순서: Binance → CoinGecko → Kraken → Coinbase (종목 표기는 자산별 markets)
+ */
+export const createProviderRegistry = (markets: MarketSymbols = BTC_MARKETS): ProviderRegistry => ({
+  price: [
+    createBinanceProvider(undefined, markets.binance),
+    createCoinGeckoProvider(undefined, markets.coingecko),
+    createKrakenProvider(undefined, markets.kraken),
+    createCoinbaseProvider(undefined, markets.coinbase),
+  ],
+  sentiment: [createAlternativeMeProvider()],
+  fx: [createFrankfurterProvider(), createExchangeRateApiProvider()],
+  krwSpot: [createUpbitProvider(undefined, markets.upbit), createBithumbProvider(undefined, markets.bithumb)],
+});
+
+export const DEFAULT_PROVIDERS: ProviderRegistry = createProviderRegistry();
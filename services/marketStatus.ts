@@ -0,0 +1,65 @@
+import { MarketStatus } from '../types';
+
+/**
+ * 단계 판정과 시장 국면 분류 (StageCard, 인디케이터, 분석 프롬프트가 같은 규칙을 공유)
+ */
+export interface Stage {
+  threshold: number;
+  label: string;
+}
+
+/**
+ * 내림차순으로 정렬된 stages에서 값이 threshold보다 크거나 같은 첫 번째 단계의 위치 (없으면 -1)
+ * 이를 통해 25, 45, 55 등의 경계값이 하위 구간이 아닌 정확한 해당 구간에 배정됨
+ */
+export const findStageIndex = <T extends { threshold: number }>(stages: T[], value: number): number =>
+  stages.findIndex(stage => value >= stage.threshold);
+
+export const findStage = <T extends { threshold: number }>(stages: T[], value: number): T | null =>
+  stages[findStageIndex(stages, value)] ?? null;
+
+/**
+ * 종합 리스크(0~100) → 시장 국면. 35 미만 매집, 70 초과 과열, 경계값 35와 70은 모두 균형
+ */
+const RISK_ACCUMULATE_BELOW = 35;
+const RISK_SELL_ABOVE = 70;
+
+export const classifyRisk = (riskPercent: number): MarketStatus => {
+  if (riskPercent < RISK_ACCUMULATE_BELOW) return MarketStatus.ACCUMULATE;
+  if (riskPercent > RISK_SELL_ABOVE) return MarketStatus.SELL;
+  return MarketStatus.STABLE;
+};
+
+export interface StatusLabel {
+  text: string;
+  desc: string;
+  headline: string;
+  color: string;
+  bg: string;
+}
+
+const STATUS_LABELS: Record<MarketStatus, StatusLabel> = {
+  [MarketStatus.ACCUMULATE]: {
+    text: '저평가 매집 국면',
+    desc: '통계적 저점 형성 및 매집 우위 구간',
+    headline: '가치 하단 임계점 진입: 장기 관점의 분할 매수가 통계적으로 유리한 구간입니다.',
+    color: 'text-emerald-400',
+    bg: 'bg-emerald-500/10'
+  },
+  [MarketStatus.SELL]: {
+    text: '고평가 과열 국면',
+    desc: '심리적 과열 및 리스크 관리 구간',
+    headline: '가치 상단 임계점 진입: 과열된 심리에 따른 변동성 확대가 우려됩니다.',
+    color: 'text-rose-400',
+    bg: 'bg-rose-500/10'
+  },
+  [MarketStatus.STABLE]: {
+    text: '가치 균형 구간',
+    desc: '중립적 추세 유지 및 관망 구간',
+    headline: '모델 균형 가격대 안착: 적정 가치 궤도 내에서의 안정적 움직임이 예상됩니다.',
+    color: 'text-amber-400',
+    bg: 'bg-amber-500/10'
+  },
+};
+
+export const getStatusLabel = (status: MarketStatus): StatusLabel => STATUS_LABELS[status] ?? STATUS_LABELS[MarketStatus.STABLE];
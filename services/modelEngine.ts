@@ -1,54 +1,149 @@
 
-import { GENESIS_DATE, HALVING_DATE, A_STD, B_STD, A_DECAY, B_DECAY } from '../constants';
-import { ModelValues } from '../types';
+import {
+  DEFAULT_ENSEMBLES,
+  S2F_INTERCEPT, S2F_EXPONENT, RAINBOW_SLOPE, RAINBOW_INTERCEPT
+} from '../constants';
+import { ModelBand, ModelCoefficients, ModelId, ModelValues, ModelWeights } from '../types';
+import { FALLBACK_HALVING_SCHEDULE, HALVING_INTERVAL, HalvingSchedule, getCyclePhase } from './halving';
+import { AssetConfig } from './assets';
 
-export const getDaysSinceGenesis = (date: Date): number => {
-  return Math.floor((date.getTime() - GENESIS_DATE.getTime()) / (1000 * 60 * 60 * 24));
+/**
+ * 자산 기준일(BTC는 제네시스 블록, AssetConfig.inceptionDate)로부터 경과 일수
+ */
+export const getDaysSinceGenesis = (date: Date, inception: Date): number => {
+  return Math.floor((date.getTime() - inception.getTime()) / (1000 * 60 * 60 * 24));
 };
 
-export const calcStandard = (days: number): number => A_STD * Math.pow(days, B_STD);
-export const calcDecaying = (days: number): number => A_DECAY * Math.pow(days, B_DECAY);
+/**
+ * 멱법칙 적정 가치. 계수(자산 고정 계수 또는 피팅 결과)는 호출부에서 전달합니다.
+ */
+export const calcStandard = (days: number, coef: ModelCoefficients): number => coef.aStd * Math.pow(days, coef.bStd);
+export const calcDecaying = (days: number, coef: ModelCoefficients): number => coef.aDecay * Math.pow(days, coef.bDecay);
 
-export const calcCycle = (days: number, date: Date): number => {
-  const base = calcStandard(days);
-  const cycleDays = Math.floor((date.getTime() - HALVING_DATE.getTime()) / (1000 * 60 * 60 * 24));
-  // 1460일(4년) 주기의 사인 파동 반영
-  const cyclePos = ((cycleDays % 1460) + 1460) % 1460;
-  const wave = 1 + 0.15 * Math.sin((2 * Math.PI * cyclePos) / 1460);
+export const calcCycle = (asset: AssetConfig, days: number, date: Date, coef: ModelCoefficients, halvings: HalvingSchedule): number => {
+  const base = calcStandard(days, coef);
+  // 실제 반감기 간 구간(추정치 포함)을 한 주기로 하는 사인 파동 반영 (반감기가 없는 자산은 Standard와 같음)
+  if (asset.events !== 'halving') return base;
+  const wave = 1 + 0.15 * Math.sin(2 * Math.PI * getCyclePhase(date, halvings));
   return base * wave;
 };
 
 /**
- * 하이브리드 가중치 재조정:
- * Decaying(40%) + Cycle(30%) + Standard(30%)
+ * Stock-to-Flow: 하루 144블록, 210,000블록마다 보상 반감을 가정한 유통량/연간 발행량 비율
  */
-export const calcWeightedTotal = (days: number, date: Date): number => {
-  return (calcDecaying(days) * 0.4) + (calcCycle(days, date) * 0.3) + (calcStandard(days) * 0.3);
+const BLOCKS_PER_DAY = 144;
+
+const getBlockReward = (height: number): number => 50 / Math.pow(2, Math.floor(height / HALVING_INTERVAL));
+
+export const estimateSupply = (days: number): number => {
+  let remaining = Math.max(0, days * BLOCKS_PER_DAY);
+  let supply = 0;
+  for (let epoch = 0; remaining > 0 && epoch < 64; epoch++) {
+    const blocks = Math.min(remaining, HALVING_INTERVAL);
+    supply += blocks * 50 / Math.pow(2, epoch);
+    remaining -= blocks;
+  }
+  return supply;
+};
+
+export const calcStockToFlow = (days: number): number => {
+  const supply = estimateSupply(days);
+  const annualFlow = getBlockReward(days * BLOCKS_PER_DAY) * BLOCKS_PER_DAY * 365;
+  if (supply <= 0 || annualFlow <= 0) return 0;
+  const sf = supply / annualFlow;
+  return Math.exp(S2F_INTERCEPT) * Math.pow(sf, S2F_EXPONENT) / supply;
+};
+
+export const calcRainbow = (days: number): number => Math.pow(10, RAINBOW_SLOPE * Math.log(Math.max(1, days)) + RAINBOW_INTERCEPT);
+
+/**
+ * 모델 레지스트리: 각 모델은 자체 적정 가치와 밴드 정의를 선언합니다.
+ */
+export interface ModelDefinition {
+  id: ModelId;
+  label: string;
+  fairValue: (asset: AssetConfig, days: number, date: Date, coef: ModelCoefficients, halvings: HalvingSchedule) => number;
+  band: (asset: AssetConfig, fair: number, days: number) => { upper: number; lower: number };
+}
+
+// 멱법칙 계열 모델은 자산별 배율(AssetConfig.modelBand), 나머지는 모델 고유의 로그 폭
+const ratioBand = (asset: AssetConfig, fair: number) => ({ upper: fair * asset.modelBand.upper, lower: fair * asset.modelBand.lower });
+const logBand = (sigma: number) => (_asset: AssetConfig, fair: number) => ({ upper: fair * Math.exp(sigma), lower: fair * Math.exp(-sigma) });
+
+export const MODEL_REGISTRY: ModelDefinition[] = [
+  { id: 'standard', label: 'STANDARD', fairValue: (_asset, days, _date, coef) => calcStandard(days, coef), band: ratioBand },
+  { id: 'decaying', label: 'DECAYING', fairValue: (_asset, days, _date, coef) => calcDecaying(days, coef), band: ratioBand },
+  { id: 'cycle', label: 'CYCLE', fairValue: (asset, days, date, coef, halvings) => calcCycle(asset, days, date, coef, halvings), band: ratioBand },
+  { id: 'stockToFlow', label: 'STOCK-TO-FLOW', fairValue: (_asset, days) => calcStockToFlow(days), band: logBand(0.9) },
+  // Rainbow 차트의 최상단/최하단 색 띠 폭 (log10 ±0.4)
+  { id: 'rainbow', label: 'RAINBOW', fairValue: (_asset, days) => calcRainbow(days), band: logBand(0.4 * Math.LN10) },
+];
+
+export const DEFAULT_WEIGHTS: ModelWeights = DEFAULT_ENSEMBLES[0].weights;
+
+/**
+ * 자산에 정의된 모델 (가중치가 있어도 정의되지 않은 모델은 계산에서 제외)
+ */
+export const getAssetModels = (asset: AssetConfig): ModelDefinition[] =>
+  MODEL_REGISTRY.filter(m => asset.models.includes(m.id));
+
+/**
+ * 앙상블 가중 평균 (가중치 합으로 정규화, 합이 0이면 기본 하이브리드 사용)
+ * 기본 하이브리드도 자산 모델과 겹치지 않으면 자산 모델 단순 평균
+ * halvings는 사이클 모델이 쓰는 반감기 일정 (생략 시 내장 기준값)
+ */
+export const calcWeightedTotal = (
+  asset: AssetConfig,
+  days: number,
+  date: Date,
+  coef: ModelCoefficients = asset.coefficients,
+  weights: ModelWeights = DEFAULT_WEIGHTS,
+  halvings: HalvingSchedule = FALLBACK_HALVING_SCHEDULE
+): number => {
+  const models = getAssetModels(asset);
+  const entries = models.filter(m => (weights[m.id] || 0) > 0);
+  const totalWeight = entries.reduce((acc, m) => acc + weights[m.id]!, 0);
+  if (totalWeight <= 0) {
+    if (weights !== DEFAULT_WEIGHTS) return calcWeightedTotal(asset, days, date, coef, DEFAULT_WEIGHTS, halvings);
+    return models.reduce((acc, m) => acc + m.fairValue(asset, days, date, coef, halvings), 0) / models.length;
+  }
+  return entries.reduce((acc, m) => acc + m.fairValue(asset, days, date, coef, halvings) * weights[m.id]!, 0) / totalWeight;
 };
 
 /**
  * Volatility Decay (변동성 감쇄): 
  * 자산이 성숙해짐에 따라 변동성(밴드 폭)이 줄어드는 현상 반영.
- * 과거 0.5 수준에서 미래 0.4~0.35 수준으로 점진적 수렴.
+ * 기준일(asset.sigma.referenceDay)까지는 기본 폭, 이후 점진적으로 수렴.
  */
-export const getDynamicSigma = (days: number): number => {
-  const baseSigma = 0.5;
-  const decayRate = 0.12; // 감쇄 속도 조절 파라미터
-  const referenceDay = 5800; // 현재 시점(약 2024-2025년)을 기준으로 설정
-  return baseSigma * Math.pow(referenceDay / Math.max(referenceDay, days), decayRate);
+export const getDynamicSigma = (asset: AssetConfig, days: number): number => {
+  const { base, decayRate, referenceDay } = asset.sigma;
+  return base * Math.pow(referenceDay / Math.max(referenceDay, days), decayRate);
 };
 
-export const getModelValues = (date: Date): ModelValues => {
-  const days = getDaysSinceGenesis(date);
-  const weighted = calcWeightedTotal(days, date);
-  const sigma = getDynamicSigma(days);
+export const getModelValues = (
+  asset: AssetConfig,
+  date: Date,
+  coef: ModelCoefficients = asset.coefficients,
+  weights: ModelWeights = DEFAULT_WEIGHTS,
+  halvings: HalvingSchedule = FALLBACK_HALVING_SCHEDULE
+): ModelValues => {
+  const days = getDaysSinceGenesis(date, asset.inceptionDate);
+  const weighted = calcWeightedTotal(asset, days, date, coef, weights, halvings);
+  const sigma = getDynamicSigma(asset, days);
+
+  const components: Partial<Record<ModelId, ModelBand>> = {};
+  getAssetModels(asset).forEach(m => {
+    const fair = m.fairValue(asset, days, date, coef, halvings);
+    components[m.id] = { fair, ...m.band(asset, fair, days) };
+  });
   
   return {
-    standard: calcStandard(days),
-    decaying: calcDecaying(days),
-    cycle: calcCycle(days, date),
+    standard: calcStandard(days, coef),
+    decaying: calcDecaying(days, coef),
+    cycle: calcCycle(asset, days, date, coef, halvings),
     weighted,
     upper: weighted * Math.exp(sigma), 
     lower: weighted * Math.exp(-sigma),
+    components,
   };
 };
@@ -0,0 +1,193 @@
+import { PriceData, ModelCoefficients } from '../types';
+import { getDaysSinceGenesis } from './modelEngine';
+import { AssetConfig } from './assets';
+
+/**
+ * 멱법칙(Power-Law) 계수 적합 모듈
+ * price = A * days^B  →  ln(price) = ln(A) + B * ln(days) 를 로그-로그 회귀로 추정합니다.
+ *
+ * - 'ols': 최소제곱 회귀 (잔차 정규 가정, 해석적 신뢰구간)
+ * - 'quantile': 분위 회귀 (τ=0.5 이면 LAD). 버블 구간 이상치에 강건하며 신뢰구간은 시드 고정 부트스트랩으로 산출
+ */
+export type FitMethod = 'ols' | 'quantile';
+
+export interface FitOptions {
+  method: FitMethod;
+  quantile?: number;        // 분위 회귀의 τ (기본 0.5 = LAD)
+  recencyHalfLife?: number; // 최근 데이터 가중 반감기(일). 지정 시 가중 회귀 (Decaying 모델용)
+  bootstrapSamples?: number;
+  seed?: number;
+}
+
+export interface PowerLawFit {
+  a: number;
+  b: number;
+  r2: number;
+  sigma: number;            // ln 공간 잔차 표준편차
+  n: number;
+  ci95: { a: [number, number]; b: [number, number] };
+}
+
+export interface ModelFitResult {
+  standard: PowerLawFit;
+  decaying: PowerLawFit;
+  coefficients: ModelCoefficients;
+}
+
+interface Sample {
+  x: number; // ln(days)
+  y: number; // ln(price)
+  w: number;
+}
+
+const Z_95 = 1.959964;
+const IRLS_ITERATIONS = 50;
+const IRLS_EPSILON = 1e-6;
+const DEFAULT_DECAY_HALF_LIFE = 1460; // 반감기 1 사이클(4년)
+
+const toSamples = (history: PriceData[], inception: Date, halfLife?: number): Sample[] => {
+  const points = history
+    .map(p => ({ days: getDaysSinceGenesis(new Date(p.date), inception), price: p.price }))
+    .filter(p => p.days > 0 && p.price > 0);
+  const lastDay = points.length > 0 ? points[points.length - 1].days : 0;
+  return points.map(p => ({
+    x: Math.log(p.days),
+    y: Math.log(p.price),
+    w: halfLife ? Math.pow(0.5, (lastDay - p.days) / halfLife) : 1,
+  }));
+};
+
+/**
+ * 가중 최소제곱: [절편, 기울기]
+ */
+const weightedLeastSquares = (samples: Sample[], weights: number[]): [number, number] => {
+  let sw = 0, sx = 0, sy = 0;
+  samples.forEach((s, i) => { sw += weights[i]; sx += weights[i] * s.x; sy += weights[i] * s.y; });
+  const mx = sx / sw;
+  const my = sy / sw;
+  let sxx = 0, sxy = 0;
+  samples.forEach((s, i) => {
+    sxx += weights[i] * (s.x - mx) * (s.x - mx);
+    sxy += weights[i] * (s.x - mx) * (s.y - my);
+  });
+  const slope = sxy / sxx;
+  return [my - slope * mx, slope];
+};
+
+/**
+ * IRLS 기반 분위 회귀: 잔차 부호에 따라 τ / (1-τ) 비대칭 가중을 반복 적용
+ */
+const quantileRegression = (samples: Sample[], tau: number, initial?: [number, number]): [number, number] => {
+  let coef = initial ?? weightedLeastSquares(samples, samples.map(s => s.w));
+  for (let iter = 0; iter < IRLS_ITERATIONS; iter++) {
+    const weights = samples.map(s => {
+      const r = s.y - (coef[0] + coef[1] * s.x);
+      const side = r >= 0 ? tau : 1 - tau;
+      return s.w * side / Math.max(Math.abs(r), IRLS_EPSILON);
+    });
+    const next = weightedLeastSquares(samples, weights);
+    const converged = Math.abs(next[0] - coef[0]) < 1e-7 && Math.abs(next[1] - coef[1]) < 1e-7;
+    coef = next;
+    if (converged) break;
+  }
+  return coef;
+};
+
+const summarize = (samples: Sample[], coef: [number, number]) => {
+  const sw = samples.reduce((acc, s) => acc + s.w, 0);
+  const my = samples.reduce((acc, s) => acc + s.w * s.y, 0) / sw;
+  let ssRes = 0, ssTot = 0;
+  samples.forEach(s => {
+    const r = s.y - (coef[0] + coef[1] * s.x);
+    ssRes += s.w * r * r;
+    ssTot += s.w * (s.y - my) * (s.y - my);
+  });
+  const dof = Math.max(1, samples.length - 2);
+  // 가중치 합을 표본 수로 정규화한 잔차 분산
+  const sigma = Math.sqrt((ssRes / sw) * samples.length / dof);
+  return { r2: ssTot > 0 ? 1 - ssRes / ssTot : 0, sigma };
+};
+
+// 재현 가능한 부트스트랩을 위한 시드 고정 난수 (mulberry32)
+const createRandom = (seed: number) => {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const percentile = (sorted: number[], p: number): number => {
+  const idx = (sorted.length - 1) * p;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+};
+
+export const fitPowerLaw = (asset: AssetConfig, history: PriceData[], options: FitOptions): PowerLawFit => {
+  const samples = toSamples(history, asset.inceptionDate, options.recencyHalfLife);
+  if (samples.length < 3) throw new Error(`Not enough data points to fit: ${samples.length}`);
+
+  const tau = options.quantile ?? 0.5;
+  const solve = (s: Sample[], initial?: [number, number]) => options.method === 'ols'
+    ? weightedLeastSquares(s, s.map(p => p.w))
+    : quantileRegression(s, tau, initial);
+
+  const coef = solve(samples);
+  const { r2, sigma } = summarize(samples, coef);
+
+  let interceptCi: [number, number];
+  let slopeCi: [number, number];
+
+  if (options.method === 'ols') {
+    const sw = samples.reduce((acc, s) => acc + s.w, 0);
+    const mx = samples.reduce((acc, s) => acc + s.w * s.x, 0) / sw;
+    const sxx = samples.reduce((acc, s) => acc + s.w * (s.x - mx) * (s.x - mx), 0) * samples.length / sw;
+    const seSlope = sigma / Math.sqrt(sxx);
+    const seIntercept = sigma * Math.sqrt(1 / samples.length + (mx * mx) / sxx);
+    slopeCi = [coef[1] - Z_95 * seSlope, coef[1] + Z_95 * seSlope];
+    interceptCi = [coef[0] - Z_95 * seIntercept, coef[0] + Z_95 * seIntercept];
+  } else {
+    const random = createRandom(options.seed ?? 42);
+    const count = options.bootstrapSamples ?? 30;
+    const intercepts: number[] = [];
+    const slopes: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const resample = samples.map(() => samples[Math.floor(random() * samples.length)]);
+      const [c0, c1] = solve(resample, coef); // 전체 적합값에서 시작하여 수렴 가속
+      intercepts.push(c0);
+      slopes.push(c1);
+    }
+    intercepts.sort((x, y) => x - y);
+    slopes.sort((x, y) => x - y);
+    interceptCi = [percentile(intercepts, 0.025), percentile(intercepts, 0.975)];
+    slopeCi = [percentile(slopes, 0.025), percentile(slopes, 0.975)];
+  }
+
+  return {
+    a: Math.exp(coef[0]),
+    b: coef[1],
+    r2,
+    sigma,
+    n: samples.length,
+    ci95: {
+      a: [Math.exp(interceptCi[0]), Math.exp(interceptCi[1])],
+      b: slopeCi,
+    },
+  };
+};
+
+/**
+ * Standard는 전체 구간 균등 가중, Decaying은 최근 사이클에 가중을 둔 적합으로 성장 둔화를 반영
+ */
+export const fitModelCoefficients = (asset: AssetConfig, history: PriceData[], options: FitOptions = { method: 'quantile' }): ModelFitResult => {
+  const standard = fitPowerLaw(asset, history, options);
+  const decaying = fitPowerLaw(asset, history, { ...options, recencyHalfLife: options.recencyHalfLife ?? DEFAULT_DECAY_HALF_LIFE });
+  return {
+    standard,
+    decaying,
+    coefficients: { aStd: standard.a, bStd: standard.b, aDecay: decaying.a, bDecay: decaying.b },
+  };
+};
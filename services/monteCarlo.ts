@@ -0,0 +1,162 @@
+/**
+ * 몬테카를로 전망 엔진 (모델 의존성 없는 순수 계산, Web Worker에서 실행)
+ *
+ * 가격의 모델 대비 로그 잔차 r = ln(price / fair)를 평균 회귀 AR(1)로 적합합니다.
+ *   r[t+1] - μ = φ · (r[t] - μ) + ε
+ * ε는 과거 혁신값을 복원 추출(bootstrap)하거나 같은 표준편차의 정규분포에서 뽑습니다.
+ * 밴드 도달은 잔차가 ±σ(해당일 동적 밴드 폭)에 닿았는지로 판정합니다.
+ */
+export const FAN_PERCENTILES = [5, 25, 50, 75, 95] as const;
+export type FanPercentile = typeof FAN_PERCENTILES[number];
+
+export type InnovationMethod = 'bootstrap' | 'gaussian';
+
+export interface ResidualPoint {
+  day: number;      // 일 단위 시간 (연속 일자 판정용)
+  residual: number; // ln(price / fair)
+}
+
+export interface ResidualFit {
+  mean: number;
+  phi: number;            // 일간 회귀 계수
+  halfLifeDays: number;
+  innovationStd: number;
+  innovations: number[];  // 부트스트랩 표본 (일간 연속 구간이 부족하면 비어 있음)
+}
+
+export interface MonteCarloRequest {
+  fit: ResidualFit;
+  startResidual: number;
+  sigmas: number[];       // 1일차부터 일별 밴드 폭 (길이 = 시뮬레이션 일수)
+  checkpoints: number[];  // 집계할 경과 일수 (오름차순, 1 ~ sigmas.length)
+  paths: number;
+  method: InnovationMethod;
+  seed: number;
+}
+
+export interface FanCheckpoint {
+  day: number;
+  residuals: Record<FanPercentile, number>;
+  touchUpper: number; // 해당 시점까지 상단 밴드에 한 번이라도 도달한 경로 비율
+  touchFair: number;  // 적정가를 교차한 경로 비율
+  touchLower: number;
+}
+
+export interface MonteCarloResult {
+  fit: Omit<ResidualFit, 'innovations'>;
+  checkpoints: FanCheckpoint[];
+  paths: number;
+  method: InnovationMethod;
+}
+
+const MIN_DAILY_PAIRS = 250;
+const DEFAULT_HALF_LIFE_DAYS = 365;
+
+/**
+ * 연속 일자 쌍으로 AR(1) 계수를 추정. 일간 데이터가 부족하면 기본 반감기와 전체 분산으로 근사
+ */
+export const fitResiduals = (points: ResidualPoint[]): ResidualFit => {
+  const n = points.length;
+  const mean = n > 0 ? points.reduce((s, p) => s + p.residual, 0) / n : 0;
+  const variance = n > 1 ? points.reduce((s, p) => s + (p.residual - mean) ** 2, 0) / (n - 1) : 0.25;
+
+  let sxx = 0, sxy = 0;
+  const pairs: [number, number][] = [];
+  for (let i = 1; i < n; i++) {
+    if (points[i].day - points[i - 1].day !== 1) continue;
+    const x = points[i - 1].residual - mean;
+    const y = points[i].residual - mean;
+    sxx += x * x;
+    sxy += x * y;
+    pairs.push([x, y]);
+  }
+
+  if (pairs.length < MIN_DAILY_PAIRS || sxx <= 0) {
+    const phi = Math.pow(0.5, 1 / DEFAULT_HALF_LIFE_DAYS);
+    return { mean, phi, halfLifeDays: DEFAULT_HALF_LIFE_DAYS, innovationStd: Math.sqrt(variance * (1 - phi * phi)), innovations: [] };
+  }
+
+  const phi = Math.min(0.99999, Math.max(0, sxy / sxx));
+  const innovations = pairs.map(([x, y]) => y - phi * x);
+  const innovationStd = Math.sqrt(innovations.reduce((s, e) => s + e * e, 0) / Math.max(1, innovations.length - 1));
+  const halfLifeDays = phi > 0 ? Math.log(0.5) / Math.log(phi) : 0;
+  return { mean, phi, halfLifeDays, innovationStd, innovations };
+};
+
+// 재현 가능한 난수 (mulberry32)
+const createRandom = (seed: number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const percentile = (sorted: Float64Array, p: number) => sorted[Math.round((p / 100) * (sorted.length - 1))];
+
+export const runMonteCarlo = (req: MonteCarloRequest): MonteCarloResult => {
+  const { fit, startResidual, sigmas, paths } = req;
+  const checkpoints = req.checkpoints.filter(d => d >= 1 && d <= sigmas.length);
+  const random = createRandom(req.seed);
+  const useBootstrap = req.method === 'bootstrap' && fit.innovations.length > 0;
+
+  let spare: number | null = null;
+  const gaussian = () => {
+    if (spare !== null) {
+      const v = spare;
+      spare = null;
+      return v;
+    }
+    const u = Math.max(random(), 1e-12);
+    const radius = Math.sqrt(-2 * Math.log(u));
+    const theta = 2 * Math.PI * random();
+    spare = radius * Math.sin(theta);
+    return radius * Math.cos(theta);
+  };
+  const innovation = useBootstrap
+    ? () => fit.innovations[Math.floor(random() * fit.innovations.length)]
+    : () => gaussian() * fit.innovationStd;
+
+  const values = checkpoints.map(() => new Float64Array(paths));
+  const touches = checkpoints.map(() => ({ upper: 0, fair: 0, lower: 0 }));
+  const startAbove = startResidual >= 0;
+
+  for (let path = 0; path < paths; path++) {
+    let r = startResidual;
+    let upper = false, fair = false, lower = false;
+    let next = 0;
+    for (let day = 1; day <= sigmas.length && next < checkpoints.length; day++) {
+      r = fit.mean + fit.phi * (r - fit.mean) + innovation();
+      if (r >= sigmas[day - 1]) upper = true;
+      if (r <= -sigmas[day - 1]) lower = true;
+      if (startAbove ? r <= 0 : r >= 0) fair = true;
+      while (next < checkpoints.length && checkpoints[next] === day) {
+        values[next][path] = r;
+        if (upper) touches[next].upper++;
+        if (fair) touches[next].fair++;
+        if (lower) touches[next].lower++;
+        next++;
+      }
+    }
+  }
+
+  const { innovations: _innovations, ...fitSummary } = fit;
+  return {
+    fit: fitSummary,
+    paths,
+    method: useBootstrap ? 'bootstrap' : 'gaussian',
+    checkpoints: checkpoints.map((day, i) => {
+      const sorted = values[i].sort();
+      return {
+        day,
+        residuals: Object.fromEntries(FAN_PERCENTILES.map(p => [p, percentile(sorted, p)])) as Record<FanPercentile, number>,
+        touchUpper: touches[i].upper / paths,
+        touchFair: touches[i].fair / paths,
+        touchLower: touches[i].lower / paths,
+      };
+    }),
+  };
+};
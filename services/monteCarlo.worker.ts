@@ -0,0 +1,5 @@
+import { MonteCarloRequest, runMonteCarlo } from './monteCarlo';
+
+self.onmessage = (e: MessageEvent<MonteCarloRequest>) => {
+  self.postMessage(runMonteCarlo(e.data));
+};
@@ -0,0 +1,177 @@
+import { PriceData } from '../types';
+import { GENESIS_DATE } from '../constants';
+import { STORES, idbDelete, idbGet, idbPut, isIdbAvailable } from './idb';
+import { estimateSupply, getDaysSinceGenesis } from './modelEngine';
+
+/**
+ * 온체인 지표 어댑터: 실현 시가총액(Realized Cap)을 가져와 실제 MVRV Z-Score를 계산합니다.
+ *
+ * 입력은 CSV 또는 JSON (배열 또는 { data: [...] })이며 열 이름은 대소문자/구분자를 무시하고 인식합니다.
+ * - 날짜: date | time | timestamp (초/밀리초 숫자 또는 ISO 문자열)
+ * - 실현 시가총액: realized_cap | CapRealUSD (필수)
+ * - 시가총액: market_cap | CapMrktCurUSD (선택, 없으면 가격 × 추정 유통량)
+ */
+export interface OnchainPoint {
+  date: string;
+  realizedCap: number;
+  marketCap?: number;
+}
+
+export interface OnchainDataset {
+  points: OnchainPoint[];
+  source: 'file' | 'http';
+  label: string;      // 파일명 또는 URL
+  importedAt: number;
+}
+
+export interface MvrvPoint {
+  date: string;
+  mvrv: number;   // 시가총액 / 실현 시가총액
+  zScore: number; // (시가총액 - 실현 시가총액) / 시가총액 표준편차 (해당 시점까지 누적)
+}
+
+const DATASET_KEY = 'BTC';
+const SOURCE_URL_KEY = 'btc_compass_onchain_url';
+const MAX_STALE_DAYS = 7; // 마지막 데이터보다 이만큼 이후 시점은 추정치로 대체
+
+const DATE_KEYS = ['date', 'time', 'timestamp'];
+const REALIZED_KEYS = ['realizedcap', 'caprealusd'];
+const MARKET_KEYS = ['marketcap', 'capmrktcurusd'];
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const parseDate = (raw: unknown): string | null => {
+  if (raw === undefined || raw === null || raw === '') return null;
+  const num = typeof raw === 'number' ? raw : /^\d+$/.test(String(raw)) ? parseInt(String(raw)) : NaN;
+  const date = Number.isFinite(num) ? new Date(num < 1e12 ? num * 1000 : num) : new Date(String(raw));
+  return isNaN(date.getTime()) ? null : date.toISOString().split('T')[0];
+};
+
+const pick = (row: Record<string, unknown>, keys: string[]): unknown => {
+  const entry = Object.entries(row).find(([k]) => keys.includes(normalizeKey(k)));
+  return entry?.[1];
+};
+
+const toPoints = (rows: Record<string, unknown>[]): OnchainPoint[] => {
+  const points: OnchainPoint[] = [];
+  rows.forEach(row => {
+    const date = parseDate(pick(row, DATE_KEYS));
+    const realizedCap = parseFloat(String(pick(row, REALIZED_KEYS)));
+    const marketCap = parseFloat(String(pick(row, MARKET_KEYS)));
+    if (!date || !Number.isFinite(realizedCap) || realizedCap <= 0) return;
+    points.push({ date, realizedCap, marketCap: Number.isFinite(marketCap) && marketCap > 0 ? marketCap : undefined });
+  });
+  if (points.length === 0) throw new Error('실현 시가총액(realized cap) 열을 찾을 수 없습니다.');
+  return points.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const parseCsv = (text: string): Record<string, unknown>[] => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim());
+  const headers = lines[0].split(',').map(h => h.trim().replace(/^"|"$/g, ''));
+  return lines.slice(1).map(line => {
+    const cells = line.split(',').map(c => c.trim().replace(/^"|"$/g, ''));
+    return Object.fromEntries(headers.map((h, i) => [h, cells[i]]));
+  });
+};
+
+export const parseOnchainText = (text: string): OnchainPoint[] => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const json = JSON.parse(trimmed);
+    const rows = Array.isArray(json) ? json : json?.data;
+    if (!Array.isArray(rows)) throw new Error('JSON은 배열 또는 { data: [...] } 형식이어야 합니다.');
+    return toPoints(rows);
+  }
+  return toPoints(parseCsv(trimmed));
+};
+
+/**
+ * 시가총액이 없으면 해당일 가격 × 추정 유통량으로 보완한 뒤 누적 표준편차 기반 Z-Score 계산
+ * (각 시점까지의 데이터만 사용하므로 과거 값에 미래 정보가 섞이지 않음)
+ */
+export const computeMvrvSeries = (points: OnchainPoint[], history: PriceData[]): MvrvPoint[] => {
+  const priceMap = new Map(history.map(p => [p.date, p.price]));
+  const series: MvrvPoint[] = [];
+  let n = 0, mean = 0, m2 = 0;
+  points.forEach(p => {
+    const price = priceMap.get(p.date);
+    const marketCap = p.marketCap ?? (price ? price * estimateSupply(getDaysSinceGenesis(new Date(p.date), GENESIS_DATE)) : undefined);
+    if (!marketCap) return;
+    n++;
+    const delta = marketCap - mean;
+    mean += delta / n;
+    m2 += delta * (marketCap - mean);
+    const std = n > 1 ? Math.sqrt(m2 / (n - 1)) : 0;
+    series.push({
+      date: p.date,
+      mvrv: marketCap / p.realizedCap,
+      zScore: std > 0 ? (marketCap - p.realizedCap) / std : 0,
+    });
+  });
+  return series;
+};
+
+/**
+ * 날짜 → MVRV Z-Score 조회. 데이터 범위 밖(이전 또는 MAX_STALE_DAYS 초과 이후)이면 null
+ */
+export const createMvrvLookup = (series: MvrvPoint[]) => (date: string): number | null => {
+  const key = date.slice(0, 10);
+  let lo = 0, hi = series.length - 1, found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (series[mid].date <= key) { found = mid; lo = mid + 1; } else { hi = mid - 1; }
+  }
+  if (found < 0) return null;
+  const gapDays = (new Date(key).getTime() - new Date(series[found].date).getTime()) / (1000 * 60 * 60 * 24);
+  return gapDays <= MAX_STALE_DAYS ? series[found].zScore : null;
+};
+
+// --- 저장 / 가져오기 ---
+
+export const loadOnchainDataset = async (): Promise<OnchainDataset | null> => {
+  if (!isIdbAvailable()) return null;
+  try {
+    return (await idbGet<OnchainDataset>(STORES.ONCHAIN, DATASET_KEY)) ?? null;
+  } catch (e) {
+    console.warn("On-chain dataset read failed:", e);
+    return null;
+  }
+};
+
+const saveOnchainDataset = async (dataset: OnchainDataset): Promise<OnchainDataset> => {
+  if (isIdbAvailable()) await idbPut(STORES.ONCHAIN, dataset, DATASET_KEY);
+  return dataset;
+};
+
+export const clearOnchainDataset = async (): Promise<void> => {
+  localStorage.removeItem(SOURCE_URL_KEY);
+  if (isIdbAvailable()) await idbDelete(STORES.ONCHAIN, DATASET_KEY);
+};
+
+export const importOnchainFile = async (file: File): Promise<OnchainDataset> =>
+  saveOnchainDataset({ points: parseOnchainText(await file.text()), source: 'file', label: file.name, importedAt: Date.now() });
+
+export const getOnchainSourceUrl = (): string => localStorage.getItem(SOURCE_URL_KEY) || '';
+
+export const fetchOnchainFromUrl = async (url: string): Promise<OnchainDataset> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status}: ${url}`);
+  const dataset = await saveOnchainDataset({ points: parseOnchainText(await res.text()), source: 'http', label: url, importedAt: Date.now() });
+  localStorage.setItem(SOURCE_URL_KEY, url);
+  return dataset;
+};
+
+/**
+ * 설정된 HTTP 소스가 있으면 갱신을 시도하고, 실패 시 저장된 데이터셋을 사용
+ */
+export const syncOnchainDataset = async (): Promise<OnchainDataset | null> => {
+  const url = getOnchainSourceUrl();
+  if (url) {
+    try {
+      return await fetchOnchainFromUrl(url);
+    } catch (e) {
+      console.warn("On-chain source refresh failed:", e);
+    }
+  }
+  return loadOnchainDataset();
+};
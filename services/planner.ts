@@ -0,0 +1,216 @@
+import { ModelCoefficients, ModelWeights, PriceData } from '../types';
+import { DEFAULT_WEIGHTS, getModelValues } from './modelEngine';
+import { calculateIndicators } from './indicators';
+import { AssetConfig } from './assets';
+import { FALLBACK_HALVING_SCHEDULE, HalvingSchedule } from './halving';
+import { findStageIndex } from './marketStatus';
+
+/**
+ * 모델 기반 분할 매수(DCA) / 분할 익절 플래너
+ *
+ * - 주기별 매수액 = 기본액(예산 / 회차) × 배수. 배수는 오실레이터 단계 가중치와 종합 리스크로 결정
+ * - 미래 회차는 오실레이터가 적정가(0)로 반감기 REVERSION_HALF_LIFE_DAYS에 걸쳐 회귀한다고 가정한 예상 경로로 계산
+ * - 익절 사다리는 적정가~상단 밴드 구간의 로그 위치로 정의하여 날짜별 모델 값에 따라 움직임
+ */
+export interface PlanOptions {
+  asset: AssetConfig;
+  budget: number;        // 총 투입 예산 (USD)
+  horizonDays: number;
+  periodDays: number;
+  price: number;
+  oscillator: number;
+  riskPercent: number;
+  startDate?: Date;
+  coefficients?: ModelCoefficients;
+  weights?: ModelWeights;
+  halvings?: HalvingSchedule;
+}
+
+export interface PlanPeriod {
+  date: string;
+  expectedPrice: number;
+  oscillator: number;
+  multiplier: number;
+  amount: number;
+  btc: number;
+}
+
+export interface TakeProfitLevel {
+  bandPosition: number;  // 0 = 적정가, 1 = 상단 밴드 (로그 기준)
+  sellFraction: number;  // 도달 시 보유량 대비 매도 비율
+  price: number;
+  oscillator: number;
+}
+
+export interface DcaPlan {
+  periods: PlanPeriod[];
+  totalBtc: number;
+  avgPrice: number;
+  takeProfits: TakeProfitLevel[];
+}
+
+export interface PlanSimulation {
+  startDate: string;
+  endDate: string;
+  invested: number;
+  btcHeld: number;
+  realized: number;      // 익절 매도 대금
+  finalValue: number;    // 미투입 예산 + 익절 대금 + 보유 BTC 평가액
+  returnPct: number;
+  dcaReturnPct: number;  // 같은 예산을 균등 분할 매수했을 때 수익률
+  takeProfitsHit: number;
+}
+
+const REVERSION_HALF_LIFE_DAYS = 365;
+const MAX_MULTIPLIER = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 자산 stages.OSCILLATOR 순서(광기 → 심연)에 대응하는 단계별 매수 가중치
+const STAGE_MULTIPLIERS = [0, 0.25, 0.5, 1, 1.5, 2, 2.5];
+
+export const TAKE_PROFIT_LADDER = [
+  { bandPosition: 0.5, sellFraction: 0.1 },
+  { bandPosition: 0.75, sellFraction: 0.2 },
+  { bandPosition: 1.0, sellFraction: 0.3 },
+  { bandPosition: 1.25, sellFraction: 0.4 },
+];
+
+const toKey = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * 오실레이터 단계 가중치 × 리스크 계수(리스크 50% = 1배, 0% = 2배, 100% = 0배)
+ */
+export const getAllocationMultiplier = (asset: AssetConfig, oscillator: number, riskPercent: number): number => {
+  const stageIdx = findStageIndex(asset.stages.OSCILLATOR, oscillator);
+  const stageWeight = STAGE_MULTIPLIERS[stageIdx] ?? 1;
+  const riskFactor = Math.max(0, Math.min(2, 2 * (1 - riskPercent / 100)));
+  return Math.min(MAX_MULTIPLIER, stageWeight * riskFactor);
+};
+
+export const getTakeProfitLevels = (
+  asset: AssetConfig,
+  date: Date,
+  coef: ModelCoefficients = asset.coefficients,
+  weights: ModelWeights = DEFAULT_WEIGHTS,
+  halvings: HalvingSchedule = FALLBACK_HALVING_SCHEDULE
+): TakeProfitLevel[] => {
+  const m = getModelValues(asset, date, coef, weights, halvings);
+  const span = Math.log(m.upper / m.weighted);
+  return TAKE_PROFIT_LADDER.map(rung => ({
+    ...rung,
+    price: m.weighted * Math.exp(span * rung.bandPosition),
+    oscillator: span * rung.bandPosition,
+  }));
+};
+
+export const buildDcaPlan = (options: PlanOptions): DcaPlan => {
+  const { asset } = options;
+  const coef = options.coefficients ?? asset.coefficients;
+  const weights = options.weights ?? DEFAULT_WEIGHTS;
+  const halvings = options.halvings ?? FALLBACK_HALVING_SCHEDULE;
+  const start = options.startDate ?? new Date();
+  const count = Math.max(1, Math.ceil(options.horizonDays / options.periodDays));
+
+  const raw = Array.from({ length: count }, (_, i) => {
+    const date = new Date(start.getTime() + i * options.periodDays * DAY_MS);
+    if (i === 0) {
+      return { date, expectedPrice: options.price, oscillator: options.oscillator, multiplier: getAllocationMultiplier(asset, options.oscillator, options.riskPercent) };
+    }
+    const osc = options.oscillator * Math.pow(0.5, (i * options.periodDays) / REVERSION_HALF_LIFE_DAYS);
+    const fair = getModelValues(asset, date, coef, weights, halvings).weighted;
+    const expectedPrice = fair * Math.exp(osc);
+    const s = calculateIndicators(asset, expectedPrice, date, 50, coef, weights, null, halvings);
+    return { date, expectedPrice, oscillator: osc, multiplier: getAllocationMultiplier(asset, osc, s.riskPercent) };
+  });
+
+  // 예산 제약: 배수 비중대로 전체 예산을 배분 (전 구간 배수 0이면 균등 분할)
+  const totalWeight = raw.reduce((acc, p) => acc + p.multiplier, 0);
+  const periods: PlanPeriod[] = raw.map(p => {
+    const amount = totalWeight > 0 ? options.budget * p.multiplier / totalWeight : options.budget / count;
+    return { date: toKey(p.date), expectedPrice: p.expectedPrice, oscillator: p.oscillator, multiplier: p.multiplier, amount, btc: amount / p.expectedPrice };
+  });
+
+  const totalBtc = periods.reduce((acc, p) => acc + p.btc, 0);
+  const end = new Date(start.getTime() + options.horizonDays * DAY_MS);
+  return {
+    periods,
+    totalBtc,
+    avgPrice: totalBtc > 0 ? options.budget / totalBtc : 0,
+    takeProfits: getTakeProfitLevels(asset, end, coef, weights, halvings),
+  };
+};
+
+/**
+ * 과거 구간(1년 간격 시작)마다 동일 규칙으로 분할 매수 + 사다리 익절을 재생
+ * 과거 회차는 미래 정보를 쓰지 않도록 기본액 × 당시 배수만큼 매수하며, 남은 예산은 현금으로 보유
+ */
+export const simulatePlanHistory = (
+  history: PriceData[],
+  options: {
+    asset: AssetConfig;
+    budget: number;
+    horizonDays: number;
+    periodDays: number;
+    getFng?: (date: string) => number;
+    getMvrvZ?: (date: string) => number | null;
+    coefficients?: ModelCoefficients;
+    weights?: ModelWeights;
+    halvings?: HalvingSchedule;
+  }
+): PlanSimulation[] => {
+  const { asset } = options;
+  const coef = options.coefficients ?? asset.coefficients;
+  const weights = options.weights ?? DEFAULT_WEIGHTS;
+  const halvings = options.halvings ?? FALLBACK_HALVING_SCHEDULE;
+  const getFng = options.getFng ?? (() => 50);
+  const getMvrvZ = options.getMvrvZ ?? (() => null);
+  const series = history.filter(p => p.price > 0);
+  const count = Math.max(1, Math.ceil(options.horizonDays / options.periodDays));
+  const base = options.budget / count;
+  const results: PlanSimulation[] = [];
+
+  for (let startIdx = 0; startIdx + options.horizonDays < series.length; startIdx += 365) {
+    const window = series.slice(startIdx, startIdx + options.horizonDays + 1);
+    let remaining = options.budget;
+    let btc = 0;
+    let realized = 0;
+    let dcaBtc = 0;
+    let hits = 0;
+    const triggered = new Set<number>();
+
+    window.forEach((p, i) => {
+      const date = new Date(p.date);
+      if (i % options.periodDays === 0 && i / options.periodDays < count) {
+        const s = calculateIndicators(asset, p.price, date, getFng(p.date), coef, weights, getMvrvZ(p.date), halvings);
+        const spend = Math.min(remaining, base * getAllocationMultiplier(asset, s.oscillator, s.riskPercent));
+        remaining -= spend;
+        btc += spend / p.price;
+        dcaBtc += base / p.price;
+      }
+      if (btc <= 0) return;
+      getTakeProfitLevels(asset, date, coef, weights, halvings).forEach((rung, k) => {
+        if (triggered.has(k) || p.price < rung.price) return;
+        triggered.add(k);
+        hits++;
+        const amount = btc * rung.sellFraction;
+        btc -= amount;
+        realized += amount * p.price;
+      });
+    });
+
+    const last = window[window.length - 1];
+    const finalValue = remaining + realized + btc * last.price;
+    results.push({
+      startDate: window[0].date,
+      endDate: last.date,
+      invested: options.budget - remaining,
+      btcHeld: btc,
+      realized,
+      finalValue,
+      returnPct: finalValue / options.budget - 1,
+      dcaReturnPct: (dcaBtc * last.price) / options.budget - 1,
+      takeProfitsHit: hits,
+    });
+  }
+  return results;
+};
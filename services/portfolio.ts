@@ -0,0 +1,168 @@
+import { PriceData } from '../types';
+
+/**
+ * 보유 포지션 기록 및 평균 단가 기반 손익 계산
+ * 매도 시 평균 단가를 원가로 차감하는 이동평균법을 사용하며, 원화 손익은 거래 시점 환율로 별도 장부를 유지합니다.
+ */
+export type TradeSide = 'buy' | 'sell';
+export type TradeCurrency = 'USD' | 'KRW';
+
+export interface PortfolioTrade {
+  id: string;
+  date: string;         // YYYY-MM-DD
+  side: TradeSide;
+  amount: number;       // BTC 수량
+  price: number;        // 거래 통화 기준 단가
+  fee: number;          // 거래 통화 기준 수수료
+  currency: TradeCurrency;
+  usdKrw: number;       // 거래 시점 환율 (KRW/USD)
+}
+
+export interface PortfolioSummary {
+  holdings: number;
+  avgCostUsd: number;
+  avgCostKrw: number;
+  costBasisUsd: number;
+  costBasisKrw: number;
+  marketValueUsd: number;
+  marketValueKrw: number;
+  realizedUsd: number;
+  realizedKrw: number;
+  unrealizedUsd: number;
+  unrealizedKrw: number;
+}
+
+export interface PositionPoint {
+  date: string;
+  holdings: number;
+  avgCost: number | null;
+}
+
+const STORAGE_KEY = 'btc_compass_portfolio';
+const CSV_HEADER = 'date,side,amount,price,fee,currency,usd_krw';
+
+const sortTrades = (trades: PortfolioTrade[]) =>
+  [...trades].sort((a, b) => a.date.localeCompare(b.date));
+
+const toUsd = (value: number, t: PortfolioTrade) => t.currency === 'USD' ? value : value / t.usdKrw;
+const toKrw = (value: number, t: PortfolioTrade) => t.currency === 'KRW' ? value : value * t.usdKrw;
+
+/**
+ * 거래를 시간순으로 적용하는 장부. 보유량을 초과하는 매도는 보유량까지만 반영
+ */
+const createLedger = () => {
+  const state = { holdings: 0, costUsd: 0, costKrw: 0, realizedUsd: 0, realizedKrw: 0 };
+  const apply = (t: PortfolioTrade) => {
+    if (t.side === 'buy') {
+      state.holdings += t.amount;
+      state.costUsd += toUsd(t.amount * t.price + t.fee, t);
+      state.costKrw += toKrw(t.amount * t.price + t.fee, t);
+      return;
+    }
+    const amount = Math.min(t.amount, state.holdings);
+    if (amount <= 0) return;
+    const ratio = amount / state.holdings;
+    const releasedUsd = state.costUsd * ratio;
+    const releasedKrw = state.costKrw * ratio;
+    state.realizedUsd += toUsd(amount * t.price - t.fee, t) - releasedUsd;
+    state.realizedKrw += toKrw(amount * t.price - t.fee, t) - releasedKrw;
+    state.holdings -= amount;
+    state.costUsd -= releasedUsd;
+    state.costKrw -= releasedKrw;
+    if (state.holdings < 1e-12) Object.assign(state, { holdings: 0, costUsd: 0, costKrw: 0 });
+  };
+  return { state, apply };
+};
+
+export const summarizePortfolio = (trades: PortfolioTrade[], priceUsd: number, usdKrw: number): PortfolioSummary => {
+  const { state, apply } = createLedger();
+  sortTrades(trades).forEach(apply);
+  const marketValueUsd = state.holdings * priceUsd;
+  const marketValueKrw = marketValueUsd * usdKrw;
+  return {
+    holdings: state.holdings,
+    avgCostUsd: state.holdings > 0 ? state.costUsd / state.holdings : 0,
+    avgCostKrw: state.holdings > 0 ? state.costKrw / state.holdings : 0,
+    costBasisUsd: state.costUsd,
+    costBasisKrw: state.costKrw,
+    marketValueUsd,
+    marketValueKrw,
+    realizedUsd: state.realizedUsd,
+    realizedKrw: state.realizedKrw,
+    unrealizedUsd: marketValueUsd - state.costUsd,
+    unrealizedKrw: marketValueKrw - state.costKrw,
+  };
+};
+
+/**
+ * 일간 시계열 날짜별 보유량/평균 단가(USD). 첫 거래 이전 구간은 제외
+ */
+export const buildPositionSeries = (trades: PortfolioTrade[], history: PriceData[]): PositionPoint[] => {
+  const sorted = sortTrades(trades);
+  if (sorted.length === 0) return [];
+  const { state, apply } = createLedger();
+  const points: PositionPoint[] = [];
+  let i = 0;
+  history.forEach(h => {
+    while (i < sorted.length && sorted[i].date <= h.date) apply(sorted[i++]);
+    if (i === 0) return;
+    points.push({ date: h.date, holdings: state.holdings, avgCost: state.holdings > 0 ? state.costUsd / state.holdings : null });
+  });
+  return points;
+};
+
+// --- 저장소 ---
+
+export const loadTrades = (): PortfolioTrade[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveTrades = (trades: PortfolioTrade[]) => localStorage.setItem(STORAGE_KEY, JSON.stringify(sortTrades(trades)));
+
+// --- CSV ---
+
+export const tradesToCsv = (trades: PortfolioTrade[]): string =>
+  [CSV_HEADER, ...sortTrades(trades).map(t => [t.date, t.side, t.amount, t.price, t.fee, t.currency, t.usdKrw].join(','))].join('\n');
+
+/**
+ * CSV → 거래 목록. 헤더 필수이며 잘못된 행은 행 번호와 함께 오류
+ */
+export const parseTradesCsv = (text: string, defaultUsdKrw: number): PortfolioTrade[] => {
+  const lines = text.trim().split(/\r?\n/).filter(l => l.trim());
+  if (lines.length === 0) return [];
+  const header = lines[0].toLowerCase().split(',').map(h => h.trim());
+  const col = (name: string) => header.indexOf(name);
+  if (col('date') < 0 || col('side') < 0 || col('amount') < 0 || col('price') < 0) {
+    throw new Error('CSV 헤더에 date, side, amount, price 열이 필요합니다.');
+  }
+  return lines.slice(1).map((line, idx) => {
+    const cells = line.split(',').map(c => c.trim());
+    const get = (name: string) => col(name) >= 0 ? cells[col(name)] : undefined;
+    const date = get('date') || '';
+    const side = get('side')?.toLowerCase();
+    const currency = (get('currency')?.toUpperCase() || 'USD') as TradeCurrency;
+    const amount = parseFloat(get('amount') || '');
+    const price = parseFloat(get('price') || '');
+    const fee = parseFloat(get('fee') || '0') || 0;
+    const usdKrw = parseFloat(get('usd_krw') || '') || defaultUsdKrw;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || (side !== 'buy' && side !== 'sell') || (currency !== 'USD' && currency !== 'KRW')
+      || !(amount > 0) || !(price > 0) || fee < 0) {
+      throw new Error(`CSV ${idx + 2}행 형식이 올바르지 않습니다.`);
+    }
+    return { id: `trade-${Date.now()}-${idx}`, date, side, amount, price, fee, currency, usdKrw };
+  });
+};
+
+/**
+ * 기존 거래에 가져온 거래를 병합 (날짜·구분·수량·단가·통화가 같으면 중복으로 간주)
+ */
+export const mergeTrades = (base: PortfolioTrade[], incoming: PortfolioTrade[]): PortfolioTrade[] => {
+  const keyOf = (t: PortfolioTrade) => [t.date, t.side, t.amount, t.price, t.currency].join('|');
+  const seen = new Set(base.map(keyOf));
+  return [...base, ...incoming.filter(t => !seen.has(keyOf(t)))];
+};
@@ -0,0 +1,118 @@
+/**
+ * 실시간 체결가 스트리밍 클라이언트
+ * 소켓 생성 함수와 메시지 파서를 주입받으므로 거래소 스트림 대신 로컬 목(mock) 소켓 서버로도 구동할 수 있습니다.
+ */
+export type StreamStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface SocketLike {
+  onopen: ((ev: Event) => void) | null;
+  onmessage: ((ev: { data: unknown }) => void) | null;
+  onclose: ((ev: CloseEvent) => void) | null;
+  onerror: ((ev: Event) => void) | null;
+  close: () => void;
+}
+
+export interface PriceStreamOptions {
+  url: string;
+  parse: (data: unknown) => number | null;  // 메시지 → 가격 (무시할 메시지는 null)
+  onPrice: (price: number) => void;
+  onStatus?: (status: StreamStatus) => void;
+  socketFactory?: (url: string) => SocketLike;
+  minIntervalMs?: number;   // 가격 콜백 최소 간격 (UI 갱신 부하 제한)
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+export interface PriceStream {
+  stop: () => void;
+}
+
+export const BINANCE_STREAM_URL = 'wss://stream.binance.com:9443/ws/btcusdt@aggTrade';
+const STREAM_URL_KEY = 'btc_compass_stream_url';
+
+/**
+ * 스트림 주소 (BTC는 localStorage에 로컬 목 서버 주소를 지정하면 우선 사용)
+ */
+export const getStreamUrl = (symbol: string = 'BTCUSDT'): string => {
+  if (symbol !== 'BTCUSDT') return `wss://stream.binance.com:9443/ws/${symbol.toLowerCase()}@aggTrade`;
+  return localStorage.getItem(STREAM_URL_KEY) || BINANCE_STREAM_URL;
+};
+
+/**
+ * Binance aggTrade 메시지: { e: 'aggTrade', p: '가격', ... }
+ */
+export const parseBinanceTrade = (data: unknown): number | null => {
+  try {
+    const msg: unknown = typeof data === 'string' ? JSON.parse(data) : data;
+    const price = typeof msg === 'object' && msg !== null && 'p' in msg ? parseFloat(String(msg.p)) : NaN;
+    return Number.isFinite(price) && price > 0 ? price : null;
+  } catch {
+    return null;
+  }
+};
+
+export const createPriceStream = (options: PriceStreamOptions): PriceStream => {
+  const factory = options.socketFactory ?? ((url: string) => new WebSocket(url));
+  const minInterval = options.minIntervalMs ?? 1000;
+  const initialBackoff = options.initialBackoffMs ?? 1000;
+  const maxBackoff = options.maxBackoffMs ?? 30000;
+
+  let socket: SocketLike | null = null;
+  let stopped = false;
+  let backoff = initialBackoff;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastEmit = 0;
+  let pending: number | null = null;
+
+  const emit = () => {
+    flushTimer = null;
+    if (pending === null || stopped) return;
+    lastEmit = Date.now();
+    options.onPrice(pending);
+    pending = null;
+  };
+
+  const connect = () => {
+    if (stopped) return;
+    socket = factory(options.url);
+
+    socket.onopen = () => {
+      backoff = initialBackoff;
+      options.onStatus?.('open');
+    };
+
+    socket.onmessage = (ev) => {
+      const price = options.parse(ev.data);
+      if (price === null) return;
+      pending = price;
+      // 최소 간격 내 추가 체결은 마지막 가격만 모아서 전달
+      if (!flushTimer) flushTimer = setTimeout(emit, Math.max(0, minInterval - (Date.now() - lastEmit)));
+    };
+
+    socket.onerror = () => socket?.close();
+
+    socket.onclose = () => {
+      socket = null;
+      if (stopped) return;
+      // 지수 백오프 후 재연결
+      options.onStatus?.('reconnecting');
+      reconnectTimer = setTimeout(connect, backoff);
+      backoff = Math.min(maxBackoff, backoff * 2);
+    };
+  };
+
+  options.onStatus?.('connecting');
+  connect();
+
+  return {
+    stop: () => {
+      stopped = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (flushTimer) clearTimeout(flushTimer);
+      socket?.close();
+      socket = null;
+      options.onStatus?.('closed');
+    },
+  };
+};
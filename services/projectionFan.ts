@@ -0,0 +1,103 @@
+import { ModelCoefficients, ModelWeights } from '../types';
+import { AssetConfig } from './assets';
+import { HalvingSchedule } from './halving';
+import { getDaysSinceGenesis, getDynamicSigma, getModelValues } from './modelEngine';
+import {
+  FAN_PERCENTILES, FanPercentile, InnovationMethod, MonteCarloRequest, MonteCarloResult, fitResiduals, runMonteCarlo
+} from './monteCarlo';
+
+/**
+ * 몬테카를로 전망 팬: 과거 잔차 적합 → Worker 시뮬레이션 → 시점별 적정가로 가격 환산
+ */
+export const FAN_PATHS = 2000;
+export const FAN_STEP_DAYS = 7; // 차트용 집계 간격
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FanPricePoint {
+  day: number;        // 시작일(마지막 일봉) 이후 경과 일수
+  timestamp: number;
+  fair: number;
+  prices: Record<FanPercentile, number>;
+  touchUpper: number;
+  touchFair: number;
+  touchLower: number;
+}
+
+export interface ProjectionFan {
+  points: FanPricePoint[];
+  summary: MonteCarloResult['fit'];
+  paths: number;
+  method: InnovationMethod;
+}
+
+export interface ProjectionFanOptions {
+  asset: AssetConfig;
+  residuals: { timestamp: number; residual: number }[]; // 일별 ln(price / fair), 시간순
+  startDate: Date;
+  chartHorizonDays: number;   // 차트 팬 구간 (FAN_STEP_DAYS 간격)
+  targetDays: number[];       // 추가 집계 시점 (예: 전망 표의 3/5/7/10/15년)
+  coef: ModelCoefficients;
+  weights: ModelWeights;
+  halvings: HalvingSchedule;
+  method?: InnovationMethod;
+  paths?: number;
+}
+
+const runInWorker = (req: MonteCarloRequest): Promise<MonteCarloResult> => {
+  if (typeof Worker === 'undefined') return Promise.resolve(runMonteCarlo(req));
+  return new Promise(resolve => {
+    const worker = new Worker(new URL('./monteCarlo.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<MonteCarloResult>) => {
+      worker.terminate();
+      resolve(e.data);
+    };
+    worker.onerror = (e) => {
+      console.warn("Monte Carlo worker failed, running on main thread:", e.message);
+      worker.terminate();
+      resolve(runMonteCarlo(req));
+    };
+    worker.postMessage(req);
+  });
+};
+
+export const simulateProjectionFan = async (options: ProjectionFanOptions): Promise<ProjectionFan | null> => {
+  const { asset, residuals, startDate, coef, weights, halvings } = options;
+  if (residuals.length === 0) return null;
+
+  const chartDays = Array.from({ length: Math.floor(options.chartHorizonDays / FAN_STEP_DAYS) }, (_, i) => (i + 1) * FAN_STEP_DAYS);
+  const checkpoints = Array.from(new Set([...chartDays, ...options.targetDays.filter(d => d >= 1)])).sort((a, b) => a - b);
+  if (checkpoints.length === 0) return null;
+
+  const startDays = getDaysSinceGenesis(startDate, asset.inceptionDate);
+  const sigmas = Array.from({ length: checkpoints[checkpoints.length - 1] }, (_, i) => getDynamicSigma(asset, startDays + i + 1));
+
+  const result = await runInWorker({
+    fit: fitResiduals(residuals.map(p => ({ day: Math.round(p.timestamp / DAY_MS), residual: p.residual }))),
+    startResidual: residuals[residuals.length - 1].residual,
+    sigmas,
+    checkpoints,
+    paths: options.paths ?? FAN_PATHS,
+    method: options.method ?? 'bootstrap',
+    seed: Math.floor(startDate.getTime() / DAY_MS),
+  });
+
+  return {
+    summary: result.fit,
+    paths: result.paths,
+    method: result.method,
+    points: result.checkpoints.map(cp => {
+      const timestamp = startDate.getTime() + cp.day * DAY_MS;
+      const fair = getModelValues(asset, new Date(timestamp), coef, weights, halvings).weighted;
+      return {
+        day: cp.day,
+        timestamp,
+        fair,
+        prices: Object.fromEntries(FAN_PERCENTILES.map(p => [p, fair * Math.exp(cp.residuals[p])])) as Record<FanPercentile, number>,
+        touchUpper: cp.touchUpper,
+        touchFair: cp.touchFair,
+        touchLower: cp.touchLower,
+      };
+    }),
+  };
+};
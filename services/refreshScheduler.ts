@@ -0,0 +1,50 @@
+/**
+ * 주기적 새로고침 스케줄러
+ * 탭이 숨겨진 동안에는 실행을 미루고, 다시 보일 때 주기가 지났으면 즉시 한 번 실행합니다.
+ */
+export interface RefreshScheduler {
+  stop: () => void;
+}
+
+export const REFRESH_INTERVALS = [
+  { label: 'OFF', minutes: 0 },
+  { label: '5M', minutes: 5 },
+  { label: '15M', minutes: 15 },
+  { label: '1H', minutes: 60 },
+];
+
+export const createRefreshScheduler = (task: () => Promise<void> | void, intervalMs: number): RefreshScheduler => {
+  let lastRun = Date.now();
+  let running = false;
+
+  const run = async () => {
+    if (running) return;
+    running = true;
+    lastRun = Date.now();
+    try {
+      await task();
+    } finally {
+      running = false;
+    }
+  };
+
+  const tick = () => {
+    if (typeof document !== 'undefined' && document.hidden) return;
+    if (Date.now() - lastRun >= intervalMs) run();
+  };
+
+  const onVisibility = () => {
+    if (!document.hidden) tick();
+  };
+
+  // 절전/백그라운드 지연에 대비해 주기보다 촘촘하게 확인
+  const timer = setInterval(tick, Math.min(intervalMs, 60000));
+  if (typeof document !== 'undefined') document.addEventListener('visibilitychange', onVisibility);
+
+  return {
+    stop: () => {
+      clearInterval(timer);
+      if (typeof document !== 'undefined') document.removeEventListener('visibilitychange', onVisibility);
+    },
+  };
+};
@@ -0,0 +1,98 @@
+import { ModelCoefficients, ModelWeights, Snapshot } from '../types';
+import { AlertContext } from './alerts';
+import { AssetConfig } from './assets';
+import { HalvingSchedule } from './halving';
+import { calculateIndicators } from './indicators';
+import { SnapshotPriceSources, resolveSnapshotPrice } from './dataQuality';
+import { SNAPSHOT_INTERVAL_MS } from './snapshotStore';
+
+/**
+ * 4시간 스냅샷 백필 스케줄
+ *
+ * 슬롯은 마지막 스냅샷 시각부터 절대 시간(ms)으로 4시간씩 진행하므로 서머타임·시간대 변경과 무관하게
+ * 간격이 일정합니다. 로그가 비어 있으면 현재 시각 하나만 기록합니다.
+ */
+
+/**
+ * 스냅샷 표시 라벨 (로컬 시간). 올해가 아닌 시점은 연도(YY.)를 앞에 표기
+ */
+export const formatSnapshotDate = (date: Date, now: Date = new Date()): string => {
+  const m = date.getMonth() + 1;
+  const d = date.getDate();
+  const h = date.getHours();
+  const label = `${m}.${d}.${h}h`;
+  return date.getFullYear() === now.getFullYear() ? label : `${String(date.getFullYear()).slice(2)}.${label}`;
+};
+
+/**
+ * 마지막 스냅샷 이후 now까지 채워야 할 슬롯 시각 (오름차순, now 포함)
+ */
+export const getBackfillTimestamps = (lastTimestamp: number | null, now: number, intervalMs: number = SNAPSHOT_INTERVAL_MS): number[] => {
+  const timestamps: number[] = [];
+  for (let cursor = (lastTimestamp ?? now - intervalMs) + intervalMs; cursor <= now; cursor += intervalMs) {
+    timestamps.push(cursor);
+  }
+  return timestamps;
+};
+
+export interface BackfillContext {
+  asset: AssetConfig;
+  lastTimestamp: number | null;
+  prices: SnapshotPriceSources;          // prices.now가 백필 기준 시각
+  fngAt: (isoDate: string) => number;
+  mvrvAt: (isoDate: string) => number | null;
+  coef: ModelCoefficients;
+  weights: ModelWeights;
+  halvings: HalvingSchedule;
+}
+
+export interface BackfillResult {
+  snapshots: Snapshot[];
+  alertContexts: AlertContext[]; // 알림 평가 대상 (시간순)
+}
+
+/**
+ * 빈 슬롯마다 가격을 정해 지표 스냅샷을 생성. 쓸 가격이 없는 슬롯은 건너뜁니다.
+ */
+export const backfillSnapshots = (ctx: BackfillContext): BackfillResult => {
+  const snapshots: Snapshot[] = [];
+  const alertContexts: AlertContext[] = [];
+  const nowDate = new Date(ctx.prices.now);
+
+  getBackfillTimestamps(ctx.lastTimestamp, ctx.prices.now).forEach(cursor => {
+    // 근접 5분봉이 없으면 현재가/일봉 종가로 대체하고 출처를 플래그로 기록
+    const resolved = resolveSnapshotPrice(cursor, ctx.prices);
+    if (!resolved) return;
+    const date = new Date(cursor);
+    const iso = date.toISOString();
+    const fng = ctx.fngAt(iso);
+    const s = calculateIndicators(ctx.asset, resolved.price, date, fng, ctx.coef, ctx.weights, ctx.mvrvAt(iso), ctx.halvings);
+
+    snapshots.push({
+      id: cursor,
+      timestamp: cursor,
+      date: formatSnapshotDate(date, nowDate),
+      status: s.status,
+      oscillator: s.oscillator,
+      fng,
+      mvrv: s.mvrv,
+      price: resolved.price,
+      fair: s.model.weighted,
+      ...(resolved.flags.length > 0 ? { flags: resolved.flags } : {})
+    });
+    // 이상치·갱신 안 된 현재가로 만든 스냅샷은 알림 평가에서 제외
+    if (resolved.flags.some(f => f === 'outlier' || f === 'stale_ticker')) return;
+    alertContexts.push({
+      timestamp: cursor,
+      price: resolved.price,
+      fair: s.model.weighted,
+      upper: s.model.upper,
+      lower: s.model.lower,
+      oscillator: s.oscillator,
+      status: s.status,
+      fng
+    });
+  });
+
+  return { snapshots, alertContexts };
+};
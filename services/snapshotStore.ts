@@ -0,0 +1,156 @@
+import { MarketStatus, Snapshot, SnapshotFlag } from '../types';
+import { STORES, idbDeleteMany, idbGetAll, idbPutMany, isIdbAvailable } from './idb';
+import { AssetId, DEFAULT_ASSET_ID } from './assets';
+
+/**
+ * 스냅샷 로그 저장소 (IndexedDB, timestamp 키)
+ *
+ * 보존 정책: 최근 30일은 4시간 간격 전체, 그 이전은 하루(로컬 날짜)당 마지막 스냅샷 1개만 유지
+ * 스키마: 레코드마다 버전(v)을 기록하고 읽을 때 현재 버전으로 변환합니다.
+ *   v1 = localStorage 'btc_compass_history' 시절 형식 (최대 100개, id/date 라벨 포함)
+ *   v2 = IndexedDB 레코드
+ * 자산별 로그: 레코드에 asset을 기록하며(없으면 BTC), BTC는 기존과 같이 timestamp, 다른 자산은 'ETH:<timestamp>' 키를 사용
+ */
+export const SNAPSHOT_SCHEMA_VERSION = 2;
+export const SNAPSHOT_INTERVAL_MS = 4 * 60 * 60 * 1000;
+
+const RECENT_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+const LEGACY_KEY = 'btc_compass_history';
+
+type StoredSnapshot = Snapshot & { v: number; asset?: AssetId };
+
+const num = (value: unknown, fallback = 0): number => {
+  const n = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : fallback;
+};
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const SNAPSHOT_FLAGS: SnapshotFlag[] = ['daily_close', 'interpolated', 'outlier', 'stale_ticker'];
+
+// 배열(JSON) 또는 ';' 구분 문자열(CSV)
+const parseFlags = (value: unknown): SnapshotFlag[] | undefined => {
+  const list: unknown[] = Array.isArray(value) ? value : typeof value === 'string' ? value.split(';').map(f => f.trim()) : [];
+  const flags = list.filter((f): f is SnapshotFlag => SNAPSHOT_FLAGS.includes(f as SnapshotFlag));
+  return flags.length > 0 ? flags : undefined;
+};
+
+/**
+ * 임의 버전 레코드 → 현재 스키마. timestamp가 없으면 복구 불가(null)
+ */
+export const migrateSnapshot = (raw: unknown): Snapshot | null => {
+  if (!isRecord(raw)) return null;
+  const timestamp = num(raw.timestamp, NaN);
+  if (!Number.isFinite(timestamp) || timestamp <= 0) return null;
+  const status = Object.values(MarketStatus).find(s => s === raw.status) ?? MarketStatus.STABLE;
+  const flags = parseFlags(raw.flags);
+  return {
+    id: timestamp,
+    date: typeof raw.date === 'string' ? raw.date : '',
+    timestamp,
+    status,
+    oscillator: num(raw.oscillator),
+    fng: num(raw.fng, 50),
+    mvrv: num(raw.mvrv),
+    price: num(raw.price),
+    fair: num(raw.fair),
+    ...(flags ? { flags } : {}),
+  };
+};
+
+const localDayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${d.getMonth() + 1}-${d.getDate()}`;
+};
+
+/**
+ * 보존 정책상 삭제할 스냅샷의 timestamp 목록
+ */
+export const selectExpired = (snapshots: Snapshot[], now: number = Date.now()): number[] => {
+  const cutoff = now - RECENT_WINDOW_MS;
+  const old = snapshots.filter(s => s.timestamp < cutoff);
+  const keepPerDay = new Map<string, number>();
+  old.forEach(s => {
+    const day = localDayKey(s.timestamp);
+    if ((keepPerDay.get(day) ?? -Infinity) < s.timestamp) keepPerDay.set(day, s.timestamp);
+  });
+  return old.filter(s => keepPerDay.get(localDayKey(s.timestamp)) !== s.timestamp).map(s => s.timestamp);
+};
+
+const newestFirst = (snapshots: Snapshot[]) => [...snapshots].sort((a, b) => b.timestamp - a.timestamp);
+
+const snapshotKey = (assetId: AssetId, timestamp: number): IDBValidKey =>
+  assetId === DEFAULT_ASSET_ID ? timestamp : `${assetId}:${timestamp}`;
+
+const putSnapshots = (snapshots: Snapshot[], assetId: AssetId) =>
+  idbPutMany<StoredSnapshot>(STORES.SNAPSHOTS, snapshots.map(s => ({ key: snapshotKey(assetId, s.timestamp), value: { ...s, v: SNAPSHOT_SCHEMA_VERSION, asset: assetId } })));
+
+const loadAssetRecords = async (assetId: AssetId): Promise<StoredSnapshot[]> =>
+  (await idbGetAll<StoredSnapshot>(STORES.SNAPSHOTS)).filter(r => (r.asset ?? DEFAULT_ASSET_ID) === assetId);
+
+/**
+ * localStorage 로그를 IndexedDB로 1회 이전 (이전 성공 후 원본 삭제)
+ */
+const migrateLegacyLog = async (): Promise<void> => {
+  const saved = localStorage.getItem(LEGACY_KEY);
+  if (!saved) return;
+  try {
+    const parsed = JSON.parse(saved);
+    const snapshots = (Array.isArray(parsed) ? parsed : []).map(migrateSnapshot).filter((s): s is Snapshot => s !== null);
+    if (snapshots.length > 0) await putSnapshots(snapshots, DEFAULT_ASSET_ID);
+    localStorage.removeItem(LEGACY_KEY);
+  } catch (e) {
+    console.warn("Legacy snapshot migration failed:", e);
+  }
+};
+
+/**
+ * 자산의 전체 스냅샷 (최신순). 이전 버전 레코드는 변환 후 다시 기록
+ */
+export const loadSnapshots = async (assetId: AssetId = DEFAULT_ASSET_ID): Promise<Snapshot[]> => {
+  if (!isIdbAvailable()) return [];
+  try {
+    if (assetId === DEFAULT_ASSET_ID) await migrateLegacyLog();
+    const records = await loadAssetRecords(assetId);
+    const snapshots = records.map(migrateSnapshot).filter((s): s is Snapshot => s !== null);
+    const outdated = records.filter(r => r.v !== SNAPSHOT_SCHEMA_VERSION).map(migrateSnapshot).filter((s): s is Snapshot => s !== null);
+    if (outdated.length > 0) await putSnapshots(outdated, assetId);
+    return newestFirst(snapshots);
+  } catch (e) {
+    console.warn("Snapshot store read failed:", e);
+    return [];
+  }
+};
+
+/**
+ * 새 스냅샷을 기존 목록과 병합 저장하고 보존 정책을 적용한 전체 목록(최신순)을 반환
+ */
+export const saveSnapshots = async (existing: Snapshot[], incoming: Snapshot[], assetId: AssetId = DEFAULT_ASSET_ID): Promise<Snapshot[]> => {
+  const merged = new Map<number, Snapshot>();
+  existing.forEach(s => merged.set(s.timestamp, s));
+  incoming.forEach(s => merged.set(s.timestamp, s));
+  const all = Array.from(merged.values());
+  const expired = new Set(selectExpired(all));
+  const kept = newestFirst(all.filter(s => !expired.has(s.timestamp)));
+  if (!isIdbAvailable()) return kept;
+  try {
+    await putSnapshots(incoming.filter(s => !expired.has(s.timestamp)), assetId);
+    if (expired.size > 0) await idbDeleteMany(STORES.SNAPSHOTS, Array.from(expired).map(t => snapshotKey(assetId, t)));
+  } catch (e) {
+    console.warn("Snapshot store write failed:", e);
+  }
+  return kept;
+};
+
+/**
+ * 해당 자산의 로그만 삭제 (다른 자산 로그는 유지)
+ */
+export const clearSnapshots = async (assetId: AssetId = DEFAULT_ASSET_ID): Promise<void> => {
+  if (!isIdbAvailable()) return;
+  try {
+    const records = await loadAssetRecords(assetId);
+    await idbDeleteMany(STORES.SNAPSHOTS, records.map(r => snapshotKey(assetId, r.timestamp)));
+  } catch (e) {
+    console.warn("Snapshot store clear failed:", e);
+  }
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { MarketStatus } from '../types';
+import { AlertContext, AlertRule, evaluateAlerts, isTriggered } from '../services/alerts';
+
+const MINUTE_MS = 60 * 1000;
+const T0 = Date.UTC(2025, 0, 1);
+
+// minutes분 시점의 평가 컨텍스트 (적정가 100, 밴드 60~160)
+const ctx = (minutes: number, price: number, values: Partial<AlertContext> = {}): AlertContext => ({
+  timestamp: T0 + minutes * MINUTE_MS,
+  price,
+  fair: 100,
+  upper: 160,
+  lower: 60,
+  oscillator: Math.log(price / 100),
+  status: MarketStatus.STABLE,
+  fng: 50,
+  ...values,
+});
+
+const fairCross: AlertRule = { id: 'fair-up', enabled: true, cooldownMinutes: 60, condition: { kind: 'priceBand', band: 'fair', direction: 'above' } };
+
+// 적정가를 오르내리는 가격 경로: 10, 20, 40, 70분에 상향 돌파
+const zigzag = [ctx(0, 95), ctx(10, 105), ctx(15, 95), ctx(20, 105), ctx(30, 95), ctx(40, 105), ctx(50, 95), ctx(70, 105)];
+
+describe('isTriggered', () => {
+  it('이전 시점에서 기준선을 넘어야 발동 (머물러 있으면 발동하지 않음)', () => {
+    expect(isTriggered(fairCross.condition, ctx(0, 95), ctx(1, 105))).toBe(true);
+    expect(isTriggered(fairCross.condition, ctx(0, 105), ctx(1, 110))).toBe(false);
+    expect(isTriggered({ kind: 'fng', threshold: 25, direction: 'below' }, ctx(0, 100, { fng: 25 }), ctx(1, 100, { fng: 24 }))).toBe(true);
+    expect(isTriggered({ kind: 'status', status: MarketStatus.SELL }, ctx(0, 100), ctx(1, 100, { status: MarketStatus.SELL }))).toBe(true);
+  });
+});
+
+describe('evaluateAlerts 쿨다운', () => {
+  it('쿨다운 동안의 재돌파는 무시하고 쿨다운이 지나면 다시 발동', () => {
+    const result = evaluateAlerts([fairCross], null, zigzag);
+    expect(result.events.map(e => (e.timestamp - T0) / MINUTE_MS)).toEqual([10, 70]);
+    expect(result.rules[0].lastTriggeredAt).toBe(T0 + 70 * MINUTE_MS);
+    expect(result.context).toEqual(zigzag[zigzag.length - 1]);
+  });
+
+  it('쿨다운 경계 시각(정확히 cooldownMinutes 뒤)에는 발동', () => {
+    const rule = { ...fairCross, cooldownMinutes: 10 };
+    const result = evaluateAlerts([rule], null, zigzag);
+    expect(result.events.map(e => (e.timestamp - T0) / MINUTE_MS)).toEqual([10, 20, 40, 70]);
+  });
+
+  it('쿨다운 0이면 모든 돌파에서 발동', () => {
+    const result = evaluateAlerts([{ ...fairCross, cooldownMinutes: 0 }], null, zigzag);
+    expect(result.events).toHaveLength(4);
+  });
+
+  it('저장된 마지막 발동 시각도 쿨다운에 반영', () => {
+    const rule = { ...fairCross, lastTriggeredAt: T0 - 30 * MINUTE_MS };
+    const result = evaluateAlerts([rule], ctx(0, 95), [ctx(10, 105), ctx(20, 95), ctx(40, 105)]);
+    expect(result.events.map(e => (e.timestamp - T0) / MINUTE_MS)).toEqual([40]);
+  });
+
+  it('규칙별로 쿨다운을 따로 적용하고 비활성 규칙은 평가하지 않음', () => {
+    const short = { ...fairCross, id: 'short', cooldownMinutes: 5 };
+    const disabled = { ...fairCross, id: 'off', enabled: false };
+    const result = evaluateAlerts([fairCross, short, disabled], null, zigzag);
+    expect(result.events.filter(e => e.ruleId === 'fair-up')).toHaveLength(2);
+    expect(result.events.filter(e => e.ruleId === 'short')).toHaveLength(4);
+    expect(result.events.some(e => e.ruleId === 'off')).toBe(false);
+    expect(fairCross.lastTriggeredAt).toBeUndefined();
+  });
+
+  it('직전 시점보다 이른 컨텍스트는 평가하지 않음', () => {
+    const result = evaluateAlerts([fairCross], ctx(30, 95), [ctx(10, 105), ctx(40, 105)]);
+    expect(result.events.map(e => (e.timestamp - T0) / MINUTE_MS)).toEqual([40]);
+  });
+});
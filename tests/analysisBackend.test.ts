@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MarketStatus, ModelValues, Snapshot } from '../types';
+import { DEFAULT_INSIGHT_RULES, analyzeSnapshots } from '../services/insights';
+import { BTC_ASSET } from '../services/assets';
+import {
+  AnalysisInput, AnalysisProvider, AnalysisSettings, DEFAULT_ANALYSIS_SETTINGS,
+  createMockProvider, mergeImportedAnalysisSettings, runAnalysis, validateAnalysis,
+} from '../services/analysisBackend';
+
+const HOUR = 60 * 60 * 1000;
+const T0 = Date.UTC(2025, 0, 1);
+
+// 4시간 간격 스냅샷 (최신순)
+const snapshots: Snapshot[] = [0.1, 0.05, 0, -0.05].map((oscillator, i) => {
+  const timestamp = T0 - i * 4 * HOUR;
+  return { id: timestamp, date: '', timestamp, status: MarketStatus.STABLE, oscillator, fng: 50, mvrv: 2, price: 90000, fair: 80000 };
+});
+
+const model: ModelValues = { standard: 80000, decaying: 78000, cycle: 82000, weighted: 80000, upper: 160000, lower: 40000, components: {} };
+const input: AnalysisInput = { asset: BTC_ASSET, snapshots, model, rules: DEFAULT_INSIGHT_RULES };
+const localAnalysis = analyzeSnapshots(snapshots, DEFAULT_INSIGHT_RULES);
+
+const provider = (analyze: AnalysisProvider['analyze']): AnalysisProvider => ({ id: 'openai', label: 'Remote', analyze });
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('validateAnalysis', () => {
+  it('코드 블록으로 감싼 JSON 응답, 알 수 없는 시점·심각도는 버림', () => {
+    const raw = '```json\n' + JSON.stringify({
+      summary: ' 요약 ',
+      severity: 'urgent',
+      trends: { '1d': 0.4, '7d': 'up' },
+      insights: [
+        { timestamp: snapshots[1].timestamp, insight: '하락 전환', severity: 'warning' },
+        { timestamp: 123, insight: '없는 시점' },
+        { timestamp: snapshots[2].timestamp, insight: '  ' },
+      ],
+    }) + '\n```';
+    expect(validateAnalysis(raw, snapshots)).toEqual({
+      summary: '요약',
+      severity: undefined,
+      trends: { '1d': 0.4 },
+      insights: [{ timestamp: snapshots[1].timestamp, insight: '하락 전환', severity: 'warning' }],
+    });
+  });
+
+  it('형식이 잘못된 응답은 예외', () => {
+    expect(() => validateAnalysis('분석 결과입니다', snapshots)).toThrow(SyntaxError);
+    expect(() => validateAnalysis('[1, 2]', snapshots)).toThrow('JSON 객체가 아닙니다');
+    expect(() => validateAnalysis({ summary: '', insights: [] }, snapshots)).toThrow('summary 누락');
+    expect(() => validateAnalysis({ summary: '요약', insights: {} }, snapshots)).toThrow('insights가 배열이 아닙니다');
+  });
+});
+
+describe('runAnalysis', () => {
+  it('제공자 결과를 그대로 사용', async () => {
+    const outcome = await runAnalysis(input, createMockProvider({ summary: '원격 요약', insights: [] }, 0));
+    expect(outcome).toEqual({ analysis: { summary: '원격 요약', severity: undefined, trends: undefined, insights: [] }, providerId: 'mock', label: 'Mock' });
+  });
+
+  it('제공자 오류 시 로컬 엔진 결과와 사유', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const outcome = await runAnalysis(input, provider(async () => { throw new Error('HTTP 500'); }));
+    expect(outcome.analysis).toEqual(localAnalysis);
+    expect(outcome.providerId).toBe('local');
+    expect(outcome.fallbackReason).toBe('Remote: HTTP 500');
+  });
+
+  it('형식이 잘못된 응답도 로컬 엔진으로 대체', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const outcome = await runAnalysis(input, createMockProvider({ insights: [] }, 0));
+    expect(outcome.providerId).toBe('local');
+    expect(outcome.fallbackReason).toBe('Mock: summary 누락');
+  });
+
+  it('중단 신호를 무시하는 제공자도 시간 초과 후 로컬 엔진으로 대체', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const pending = runAnalysis(input, provider(() => new Promise(() => {})), { timeoutMs: 2000 });
+    await vi.advanceTimersByTimeAsync(2000);
+    const outcome = await pending;
+    expect(outcome.analysis).toEqual(localAnalysis);
+    expect(outcome.fallbackReason).toBe('Remote: 2초 내에 응답이 없습니다');
+  });
+
+  it('외부 signal로 중단되면 대체하지 않고 예외 전달', async () => {
+    const controller = new AbortController();
+    const pending = runAnalysis(input, createMockProvider(undefined, 1000), { signal: controller.signal });
+    controller.abort(new Error('replaced'));
+    await expect(pending).rejects.toThrow('replaced');
+  });
+});
+
+describe('mergeImportedAnalysisSettings', () => {
+  it('가져온 파일의 제공자와 엔드포인트 주소는 무시', () => {
+    const current: AnalysisSettings = { ...DEFAULT_ANALYSIS_SETTINGS, provider: 'local', openaiUrl: 'http://localhost:11434/v1' };
+    const merged = mergeImportedAnalysisSettings(current, {
+      provider: 'openai',
+      openaiUrl: 'https://attacker.example/v1',
+      openaiModel: 'qwen2.5',
+      timeoutMs: 30000,
+    });
+    expect(merged).toEqual({ ...current, openaiModel: 'qwen2.5', timeoutMs: 30000 });
+  });
+});
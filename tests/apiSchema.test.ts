@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ApiError, array, classifyError, fetchJson, number, numeric, object, oneOf, optional, parse, positive, tuple } from '../services/apiSchema';
+import { FailoverError, createBinanceProvider, createCoinbaseProvider, withFailover } from '../services/marketProviders';
+
+/**
+ * 응답 스키마 검증과 fetchJson의 오류 분류 (fetch는 고정 응답으로 대체)
+ */
+const reply = (body: unknown, init: ResponseInit = {}) =>
+  vi.fn(async () => new Response(typeof body === 'string' ? body : JSON.stringify(body), init));
+
+const rejection = async (pending: Promise<unknown> | (() => Promise<unknown>)): Promise<ApiError> => {
+  try {
+    await (typeof pending === 'function' ? pending() : pending);
+  } catch (e) {
+    if (e instanceof ApiError) return e;
+    throw e;
+  }
+  throw new Error('expected ApiError');
+};
+
+const ticker = object({ price: positive() });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('schema combinators', () => {
+  it('숫자 문자열, 허용 목록, 선택 필드', () => {
+    expect(parse(object({ price: numeric, side: oneOf(['buy', 'sell'] as const), note: optional(number) }), { price: '1.5', side: 'buy', note: null }))
+      .toEqual({ price: 1.5, side: 'buy', note: undefined });
+  });
+
+  it('실패 위치를 path로 보고', async () => {
+    const error = rejection(async () => parse(array(tuple(number, positive())), [[1, '2'], [3, '-4']]));
+    await expect(error).resolves.toMatchObject({ kind: 'schema', path: '[1][1]' });
+  });
+});
+
+describe('fetchJson', () => {
+  it('스키마 불일치는 kind: schema (URL, 상태, 위치 포함)', async () => {
+    vi.stubGlobal('fetch', reply({ price: 'abc' }));
+    const error = await rejection(fetchJson('https://example.test/ticker', ticker));
+    expect(error.kind).toBe('schema');
+    expect(error.path).toBe('price');
+    expect(error.url).toBe('https://example.test/ticker');
+    expect(error.status).toBe(200);
+  });
+
+  it('JSON이 아닌 본문도 kind: schema', async () => {
+    vi.stubGlobal('fetch', reply('<html>maintenance</html>'));
+    expect((await rejection(fetchJson('https://example.test/ticker', ticker))).kind).toBe('schema');
+  });
+
+  it('429는 kind: rate_limit과 Retry-After', async () => {
+    vi.stubGlobal('fetch', reply({ msg: 'Too many requests' }, { status: 429, headers: { 'Retry-After': '30' } }));
+    const error = await rejection(fetchJson('https://example.test/ticker', ticker));
+    expect(error.kind).toBe('rate_limit');
+    expect(error.status).toBe(429);
+    expect(error.retryAfter).toBe(30);
+  });
+
+  it('Binance 차단(418)도 rate_limit, 그 밖의 오류 상태는 http', async () => {
+    vi.stubGlobal('fetch', reply({}, { status: 418 }));
+    const banned = await rejection(fetchJson('https://example.test/ticker', ticker));
+    expect(banned.kind).toBe('rate_limit');
+    expect(banned.retryAfter).toBeUndefined();
+
+    vi.stubGlobal('fetch', reply({}, { status: 503 }));
+    expect((await rejection(fetchJson('https://example.test/ticker', ticker))).kind).toBe('http');
+  });
+
+  it('연결 실패는 kind: network', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+    expect((await rejection(fetchJson('https://example.test/ticker', ticker))).kind).toBe('network');
+  });
+
+  it('성공 시 검증된 값 반환', async () => {
+    vi.stubGlobal('fetch', reply({ price: '97000.5', extra: true }));
+    expect(await fetchJson('https://example.test/ticker', ticker)).toEqual({ price: 97000.5 });
+  });
+});
+
+describe('제공자 오류 분류', () => {
+  it('제공자 응답의 스키마 불일치와 요청 한도 초과를 구분하여 다음 제공자로 넘어감', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (input: string | URL | Request) => {
+      const url = String(input);
+      if (url.includes('binance')) return new Response(JSON.stringify([[1735689600000, '1', '2', '0.5', 'x']]));
+      return new Response('{}', { status: 429 });
+    }));
+    const providers = [createBinanceProvider(), createCoinbaseProvider()];
+    const error = await withFailover(providers, p => p.fetchKlines?.('1d', 10)).catch(e => e);
+    expect(error).toBeInstanceOf(FailoverError);
+    const failures = (error as FailoverError).failures;
+    expect(failures.map(f => [f.provider, classifyError(f.error)])).toEqual([['Binance', 'schema'], ['Coinbase', 'rate_limit']]);
+  });
+
+  it('ApiError가 아닌 예외는 schema로 분류', () => {
+    expect(classifyError(new TypeError('x is undefined'))).toBe('schema');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { MarketStatus, PriceData } from '../types';
+import { getModelValues } from '../services/modelEngine';
+import { runAllStrategies, runBacktest } from '../services/backtest';
+import { BTC_ASSET } from '../services/assets';
+
+// 분기 간격 5개 시점, 시작~끝 정확히 365일
+const QUARTERLY: PriceData[] = [
+  { date: '2021-01-01', price: 100 },
+  { date: '2021-04-01', price: 150 },
+  { date: '2021-07-01', price: 75 },
+  { date: '2021-10-01', price: 120 },
+  { date: '2022-01-01', price: 200 },
+];
+
+// 적정가 대비 오실레이터가 정해진 일간 시계열 (매집 → 균형 → 과열 → 매집)
+const SIGNAL_OSC = [-0.6, 0, 0.6, -0.6];
+const SIGNAL: PriceData[] = SIGNAL_OSC.map((osc, i) => {
+  const date = `2024-06-0${i + 1}`;
+  return { date, price: getModelValues(BTC_ASSET, new Date(date)).weighted * Math.exp(osc) };
+});
+
+describe('runBacktest', () => {
+  it('DCA: 매 시점 전액 매수, 시간가중 CAGR과 최대 낙폭은 가격 경로와 같음', () => {
+    const r = runBacktest(QUARTERLY, { asset: BTC_ASSET, strategy: 'dca', contribution: 100, periodDays: 1, feeRate: 0 });
+    expect(r.cagr).toBeCloseTo(1, 9);          // 100 → 200, 1년
+    expect(r.maxDrawdown).toBeCloseTo(0.5, 9); // 150 → 75
+    expect(r.invested).toBe(500);
+    expect(r.timeInMarket).toBe(1);
+    expect(r.trades.map(t => [t.date, t.side, t.usd])).toEqual(QUARTERLY.map(p => [p.date, 'BUY', 100]));
+    expect(r.btcHeld).toBeCloseTo(QUARTERLY.reduce((acc, p) => acc + 100 / p.price, 0), 9);
+    expect(r.finalEquity).toBeCloseTo(r.btcHeld * 200, 9);
+    expect(r.equityCurve.map(p => p.index)).toEqual(QUARTERLY.map(p => expect.closeTo(p.price / 100, 9)));
+  });
+
+  it('수수료는 매수 수량에서 차감', () => {
+    const r = runBacktest(QUARTERLY.slice(0, 2), { asset: BTC_ASSET, strategy: 'dca', contribution: 100, periodDays: 1, feeRate: 0.01 });
+    expect(r.trades[0].btc).toBeCloseTo(0.99, 9);
+  });
+
+  it('Signal: 매집 국면 전액 매수, 과열 국면 전량 매도', () => {
+    const r = runBacktest(SIGNAL, { asset: BTC_ASSET, strategy: 'signal', contribution: 100, periodDays: 1, feeRate: 0 });
+    expect(r.trades.map(t => [t.date, t.side, t.status])).toEqual([
+      ['2024-06-01', 'BUY', MarketStatus.ACCUMULATE],
+      ['2024-06-03', 'SELL', MarketStatus.SELL],
+      ['2024-06-04', 'BUY', MarketStatus.ACCUMULATE],
+    ]);
+    const [firstBuy, sell, lastBuy] = r.trades;
+    expect(firstBuy.usd).toBe(100);
+    expect(sell.btc).toBeCloseTo(firstBuy.btc, 12);
+    expect(sell.usd).toBeCloseTo(firstBuy.btc * SIGNAL[2].price, 9);
+    // 균형·과열 국면 입금분과 매도 대금을 마지막 매집에서 모두 매수
+    expect(lastBuy.usd).toBeCloseTo(sell.usd + 300, 9);
+    expect(r.timeInMarket).toBe(0.75); // 매도한 날만 미보유
+  });
+
+  it('기간 필터 후 2개 미만이면 예외', () => {
+    expect(() => runBacktest(QUARTERLY, { asset: BTC_ASSET, strategy: 'dca', contribution: 100, periodDays: 1, startDate: '2022-01-01' })).toThrow('Not enough history');
+  });
+
+  it('runAllStrategies는 전략별 결과를 순서대로 반환', () => {
+    expect(runAllStrategies(QUARTERLY, { asset: BTC_ASSET, contribution: 100, periodDays: 1 }).map(r => r.strategy)).toEqual(['dca', 'riskDca', 'signal']);
+  });
+});
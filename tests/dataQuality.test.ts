@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { assessDataHealth, DataHealthInput, fillDailyGaps } from '../services/dataQuality';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2018, 4, 13);
+const NOW = Date.UTC(2025, 4, 1, 12);
+
+const dateAt = (days: number) => new Date(START + days * DAY_MS).toISOString().split('T')[0];
+
+// 일봉 없이 주봉 종가(7일 간격)만 있는 구간 + 끝에 일봉 구간
+const weeklyThenDaily = (weeks: number, dailyDays: number, skip: number[] = []) => {
+  const rawMap = new Map<string, number>();
+  for (let w = 0; w <= weeks; w++) rawMap.set(dateAt(w * 7), 10000 + w);
+  for (let d = 1; d <= dailyDays; d++) {
+    if (!skip.includes(d)) rawMap.set(dateAt(weeks * 7 + d), 20000 + d);
+  }
+  return fillDailyGaps(rawMap);
+};
+
+const input = (interpolatedDates: string[]): DataHealthInput => ({
+  now: NOW,
+  daily: [],
+  weekly: [],
+  intraday: [],
+  reordered: {},
+  ticker: { price: 60000, live: true },
+  interpolatedDates,
+  fxRates: { KRW: 1380, EUR: 0.9, JPY: 145, GBP: 0.78 },
+  fxHistory: [],
+});
+
+const missingDays = (interpolatedDates: string[]) =>
+  assessDataHealth(input(interpolatedDates)).issues.filter(issue => issue.kind === 'missing_days');
+
+describe('assessDataHealth missing_days', () => {
+  it('주봉 종가만 있는 구간의 빈 날은 누락으로 보고하지 않음', () => {
+    const { interpolatedDates } = weeklyThenDaily(300, 30);
+    expect(interpolatedDates).toHaveLength(300 * 6);
+    expect(missingDays(interpolatedDates)).toEqual([]);
+  });
+
+  it('보간 기록에는 주간 해상도 구간도 그대로 남음', () => {
+    const { interpolatedDates } = weeklyThenDaily(3, 5);
+    expect(assessDataHealth(input(interpolatedDates)).interpolatedDates).toEqual(interpolatedDates);
+  });
+
+  it('일봉 구간의 실제 누락은 구간별로 보고', () => {
+    const { interpolatedDates } = weeklyThenDaily(300, 30, [10, 20, 21]);
+    const issues = missingDays(interpolatedDates);
+    expect(issues).toHaveLength(2);
+    expect(issues.map(issue => issue.level)).toEqual(['warning', 'warning']);
+    expect(issues[0].message).toContain(`${dateAt(300 * 7 + 20)} ~ ${dateAt(300 * 7 + 21)} 2일`);
+    expect(issues[1].message).toBe(`${dateAt(300 * 7 + 10)} 일봉 없음 (직전 종가로 채움)`);
+  });
+
+  it('주간 간격이 아닌 6일 누락은 단독이면 보고', () => {
+    const gap = Array.from({ length: 6 }, (_, i) => dateAt(40 + i));
+    expect(missingDays(gap)).toHaveLength(1);
+  });
+
+  it('7일 넘는 누락은 error', () => {
+    const gap = Array.from({ length: 10 }, (_, i) => dateAt(40 + i));
+    expect(missingDays(gap)[0].level).toBe('error');
+  });
+});
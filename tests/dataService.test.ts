@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FALLBACK_FX_RATES } from '../constants';
+import { fetchMarketData } from '../services/dataService';
+import { BTC_ASSET } from '../services/assets';
+
+/**
+ * fetchMarketData 대체 경로 검증. fetch는 호스트별 응답 표로 대체하며,
+ * node에는 IndexedDB가 없으므로 캐시 없음(첫 실행) 상태로 동작합니다.
+ */
+type Reply = { status?: number; body?: unknown; headers?: Record<string, string> } | 'network';
+type Routes = Record<string, Reply>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 4, 1, 12);
+
+const binanceKlines = (intervalMs: number, count: number) =>
+  Array.from({ length: count }, (_, i) => {
+    const t = NOW - (count - i) * intervalMs;
+    return [t, '60000', '60500', '59500', '60000', '100'];
+  });
+
+const HEALTHY: Routes = {
+  'api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=1d': { body: binanceKlines(DAY_MS, 30) },
+  'api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=1w': { body: binanceKlines(7 * DAY_MS, 10) },
+  'api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=5m': { body: binanceKlines(5 * 60 * 1000, 144) },
+  'api.binance.com/api/v3/ticker/price': { body: { price: '60100' } },
+  'api.alternative.me/fng/?limit=1': { body: { data: [{ value: '62', timestamp: String(NOW / 1000) }] } },
+  'api.alternative.me/fng/?limit=0': { body: { data: [{ value: '62', timestamp: String(NOW / 1000) }] } },
+  'api.frankfurter.app/latest': { body: { rates: { KRW: 1380, EUR: 0.9, JPY: 145, GBP: 0.78 } } },
+  'api.frankfurter.app/2010-07-19..': { body: { rates: { '2025-04-30': { KRW: 1380, EUR: 0.9, JPY: 145, GBP: 0.78 } } } },
+  'api.upbit.com': { body: [{ trade_price: 85000000 }] },
+};
+
+const match = (routes: Routes, url: string): Reply | undefined => {
+  const key = Object.keys(routes).filter(k => url.includes(k)).sort((a, b) => b.length - a.length)[0];
+  return key !== undefined ? routes[key] : undefined;
+};
+
+// overrides → 정상 응답 표 순으로 가장 길게 일치하는 경로의 응답, 없으면 404 (번들 데이터셋 포함)
+const mockFetch = (overrides: Routes = {}, base: Routes = HEALTHY) => vi.fn(async (input: string | URL | Request) => {
+  const url = String(input);
+  const reply = match(overrides, url) ?? match(base, url) ?? { status: 404, body: {} };
+  if (reply === 'network') throw new TypeError('Failed to fetch');
+  return new Response(JSON.stringify(reply.body ?? {}), { status: reply.status ?? 200, headers: reply.headers });
+});
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('fetchMarketData', () => {
+  it('모든 제공자 정상 응답', async () => {
+    vi.stubGlobal('fetch', mockFetch());
+    const data = await fetchMarketData(BTC_ASSET);
+    expect(data.dataSource).toBe('Binance');
+    expect(data.currentPrice).toBe(60100);
+    expect(data.fngValue).toBe(62);
+    expect(data.fxRates.KRW).toBe(1380);
+    expect(data.errors).toEqual([]);
+  });
+
+  it('전체 연결 불가 시 기본값과 fatal network 오류', async () => {
+    vi.stubGlobal('fetch', mockFetch({}, { '': 'network' }));
+    const data = await fetchMarketData(BTC_ASSET);
+    expect(data.dataSource).toBe('Fallback');
+    expect(data.currentPrice).toBe(98000);
+    expect(data.fxRates).toEqual(FALLBACK_FX_RATES);
+    expect(data.history).toEqual([]);
+    expect(data.health.tickerStale).toBe(true);
+    expect(data.errors.some(e => e.fatal && e.piece === 'history' && e.kind === 'network')).toBe(true);
+  });
+
+  it('Binance 요청 한도 초과 시 CoinGecko로 대체하고 비치명적 오류 기록', async () => {
+    const prices = Array.from({ length: 30 }, (_, i) => [NOW - (30 - i) * DAY_MS, 59000]);
+    const fetchMock = mockFetch({
+      'api.binance.com': { status: 429, headers: { 'Retry-After': '60' } },
+      'api.coingecko.com/api/v3/coins/bitcoin/market_chart': { body: { prices } },
+      'api.coingecko.com/api/v3/simple/price': { body: { bitcoin: { usd: 59100 } } },
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const data = await fetchMarketData(BTC_ASSET);
+    expect(data.sources.history).toBe('CoinGecko');
+    // 무료 API 조회 한도(365일)로 줄여서 요청
+    expect(fetchMock.mock.calls.map(([url]) => String(url))).toContain('https://api.coingecko.com/api/v3/coins/bitcoin/market_chart?vs_currency=usd&days=365&interval=daily');
+    expect(data.sources.ticker).toBe('CoinGecko');
+    expect(data.currentPrice).toBe(59100);
+    const limited = data.errors.filter(e => e.provider === 'Binance');
+    expect(limited.every(e => e.kind === 'rate_limit' && e.status === 429 && e.retryAfter === 60)).toBe(true);
+    // 주봉은 대체 제공자가 없어 치명적 오류로 남고 일봉만으로 구성
+    expect(limited.filter(e => e.fatal).map(e => e.piece)).toEqual(['weekly']);
+    expect(limited.filter(e => !e.fatal).map(e => e.piece).sort()).toEqual(['history', 'intraday', 'ticker']);
+  });
+
+  it('환율 제공자 전부 실패 시 대체 환율 사용', async () => {
+    vi.stubGlobal('fetch', mockFetch({
+      'api.frankfurter.app': { status: 503 },
+      'api.exchangerate-api.com': 'network',
+    }));
+    const data = await fetchMarketData(BTC_ASSET);
+    expect(data.sources.fx).toBe('Fallback');
+    expect(data.fxRates).toEqual(FALLBACK_FX_RATES);
+    expect(data.errors.filter(e => e.piece === 'fx').map(e => [e.provider, e.kind, e.fatal])).toEqual([
+      ['Frankfurter', 'http', true],
+      ['ExchangeRate-API', 'network', true],
+    ]);
+  });
+
+  it('응답 형식이 바뀌면 schema 오류로 다음 제공자 사용', async () => {
+    vi.stubGlobal('fetch', mockFetch({
+      'api.binance.com/api/v3/ticker/price': { body: { lastPrice: '60100' } },
+      'api.coingecko.com/api/v3/simple/price': { body: { bitcoin: { usd: 59900 } } },
+    }));
+    const data = await fetchMarketData(BTC_ASSET);
+    expect(data.currentPrice).toBe(59900);
+    expect(data.errors).toEqual([expect.objectContaining({ piece: 'ticker', provider: 'Binance', kind: 'schema', fatal: false })]);
+  });
+
+  it('주봉 종가는 주 마지막 날에 두고 기준 시계열 값은 덮어쓰지 않음', async () => {
+    const week = (y: number, m: number, d: number, close: string) => [Date.UTC(y, m, d), close, close, close, close, '100'];
+    vi.stubGlobal('fetch', mockFetch({
+      'api.binance.com/api/v3/klines?symbol=BTCUSDT&interval=1w': { body: [week(2017, 5, 25, '9999'), week(2017, 6, 2, '2600')] },
+    }));
+    const { history } = await fetchMarketData(BTC_ASSET);
+    const byDate = new Map(history.map(p => [p.date, p.price]));
+    expect(byDate.get('2017-07-01')).toBe(2480); // 대체 분기 데이터
+    expect(byDate.get('2017-07-02')).toBe(2480);
+    expect(byDate.get('2017-07-08')).toBe(2600);
+  });
+
+  it('심리 지수 실패 시 중립값 50', async () => {
+    vi.stubGlobal('fetch', mockFetch({ 'api.alternative.me': { status: 500 } }));
+    const data = await fetchMarketData(BTC_ASSET);
+    expect(data.sources.fng).toBe('Fallback');
+    expect(data.fngValue).toBe(50);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { EXPORT_FORMAT, EXPORT_VERSION, parseCsv, parseImportFile } from '../services/dataTransfer';
+
+const bundle = (settings: Record<string, unknown>, lists: Record<string, unknown[]> = {}) => JSON.stringify({
+  format: EXPORT_FORMAT, version: EXPORT_VERSION, exportedAt: '2025-01-01T00:00:00.000Z',
+  snapshots: [], alertRules: [], alertLog: [], settings, ...lists,
+});
+
+const rule = (condition: unknown, id = 'r1') => ({ id, enabled: true, cooldownMinutes: 60, condition });
+
+describe('parseCsv', () => {
+  it('따옴표 셀의 쉼표, 줄바꿈, 이스케이프된 따옴표', () => {
+    expect(parseCsv('a,b,c\r\n1,"x, y","say ""hi""\nbye"\n\n')).toEqual([
+      ['a', 'b', 'c'],
+      ['1', 'x, y', 'say "hi"\nbye'],
+    ]);
+  });
+});
+
+describe('parseImportFile', () => {
+  it('스냅샷 CSV: 따옴표로 감싼 셀도 열 위치 유지', () => {
+    const csv = [
+      'timestamp,datetime,status,price,fair,oscillator,fng,mvrv,flags',
+      '1735689600000,"2025-01-01T00:00:00.000Z",STABLE,"95000",80000,0.17,60,2.1,"daily_close;interpolated"',
+      '1735704000000,2025-01-01T04:00:00.000Z,STABLE,,80000,0.17,60,2.1,',
+    ].join('\n');
+    const payload = parseImportFile(csv);
+    expect(payload.snapshots).toHaveLength(1);
+    expect(payload.snapshots[0]).toMatchObject({ timestamp: 1735689600000, price: 95000, fair: 80000, flags: ['daily_close', 'interpolated'] });
+    expect(payload.skipped).toBe(1);
+  });
+
+  it('설정 값은 키별 스키마를 통과한 것만 가져옴', () => {
+    const payload = parseImportFile(bundle({
+      btc_compass_stream_url: 'ws://localhost:8765',
+      btc_compass_onchain_url: 'javascript:alert(1)',
+      btc_compass_block_source_url: 'not a url',
+      btc_compass_chart_settings: '{"range":"1y","scale":"log"',
+      btc_compass_insight_rules: '[{"id":"r1"}]',
+      btc_compass_refresh_minutes: '15',
+      btc_compass_display_currency: 'EUR',
+      btc_compass_live_mode: 'yes',
+      btc_compass_unknown: 'ignored',
+    }));
+    expect(payload.settings).toEqual({
+      btc_compass_stream_url: 'ws://localhost:8765',
+      btc_compass_refresh_minutes: '15',
+      btc_compass_display_currency: 'EUR',
+    });
+    expect(payload.skipped).toBe(5);
+  });
+
+  it('알림 규칙은 조건 종류별 필드까지 검증', () => {
+    const valid = [
+      rule({ kind: 'priceBand', band: 'upper', direction: 'above' }, 'band'),
+      rule({ kind: 'oscillator', threshold: -0.4, direction: 'below' }, 'osc'),
+      rule({ kind: 'status', status: 'SELL' }, 'status'),
+      { ...rule({ kind: 'fng', threshold: 25, direction: 'below' }, 'fng'), lastTriggeredAt: 1735689600000 },
+    ];
+    const malformed = [
+      rule({ kind: 'priceBand', band: 'middle', direction: 'above' }),
+      rule({ kind: 'priceBand', band: 'upper' }),
+      rule({ kind: 'oscillator', threshold: '0.4', direction: 'above' }),
+      rule({ kind: 'oscillator', threshold: 0.4, direction: 'sideways' }),
+      rule({ kind: 'status', status: 'PANIC' }),
+      rule({ kind: 'fng', direction: 'below' }),
+      rule({ kind: 'volume', threshold: 1, direction: 'above' }),
+      rule(null),
+      { ...rule({ kind: 'fng', threshold: 25, direction: 'below' }), cooldownMinutes: '60' },
+    ];
+    const payload = parseImportFile(bundle({}, { alertRules: [...valid, ...malformed] }));
+    expect(payload.alertRules.map(r => r.id)).toEqual(['band', 'osc', 'status', 'fng']);
+    expect(payload.alertRules[3]).toEqual(valid[3]);
+    expect(payload.skipped).toBe(malformed.length);
+  });
+
+  it('알림 기록은 필수 필드가 모두 있어야 가져옴', () => {
+    const event = { id: 'e1', ruleId: 'r1', timestamp: 1735689600000, message: '가격 상단 밴드 상향 돌파', price: 95000 };
+    const payload = parseImportFile(bundle({}, { alertLog: [event, { ...event, id: 'e2', price: null }, { ...event, id: 'e3', ruleId: undefined }] }));
+    expect(payload.alertLog).toEqual([event]);
+    expect(payload.skipped).toBe(2);
+  });
+
+  it('형식이 다른 JSON은 거부', () => {
+    expect(() => parseImportFile('{"format":"other"}')).toThrow('내보내기 파일이 아닙니다');
+    expect(() => parseImportFile('{"format":')).toThrow('JSON 형식');
+  });
+});
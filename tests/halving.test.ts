@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  FALLBACK_HALVING_SCHEDULE, HALVING_INTERVAL, buildHalvingSchedule, getCyclePhase, loadHalvingSchedule, syncHalvingSchedule
+} from '../services/halving';
+
+/**
+ * Esplora 블록 API(mempool.space 형식)를 높이별 블록 시각 표로 대체하여 반감기 일정 추정을 검증.
+ * node에는 localStorage가 없으므로 메모리 저장소로 대체합니다.
+ */
+const NOW = Date.UTC(2025, 4, 1, 12);
+const TIP_HEIGHT = 895000;
+const TIP_TIME = NOW - 10 * 60 * 1000;
+const AVG_BLOCK_SECONDS = 540;
+const SAMPLE_BLOCKS = 2016;
+
+// 과거 반감기 블록 시각 (번들 기준값과 구분되도록 임의 값)
+const HALVING_TIMES: Record<number, number> = {
+  210000: Date.UTC(2012, 10, 28),
+  420000: Date.UTC(2016, 6, 9),
+  630000: Date.UTC(2020, 4, 11),
+  840000: Date.UTC(2024, 3, 20),
+};
+
+const BLOCK_TIMES: Record<number, number> = {
+  ...HALVING_TIMES,
+  [TIP_HEIGHT]: TIP_TIME,
+  [TIP_HEIGHT - SAMPLE_BLOCKS]: TIP_TIME - SAMPLE_BLOCKS * AVG_BLOCK_SECONDS * 1000,
+};
+
+const esplora = (fail: (url: string) => boolean = () => false) => vi.fn(async (input: string | URL | Request) => {
+  const url = String(input);
+  if (fail(url)) return new Response('', { status: 503 });
+  if (url.endsWith('/blocks/tip/height')) return new Response(String(TIP_HEIGHT));
+  const byHeight = url.match(/\/block-height\/(\d+)$/);
+  if (byHeight && BLOCK_TIMES[Number(byHeight[1])] !== undefined) return new Response(`hash${byHeight[1]}`);
+  const byHash = url.match(/\/block\/hash(\d+)$/);
+  if (byHash) return new Response(JSON.stringify({ height: Number(byHash[1]), timestamp: BLOCK_TIMES[Number(byHash[1])] / 1000 }));
+  return new Response('Block not found', { status: 404 });
+});
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+  vi.stubGlobal('localStorage', memoryStorage());
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('syncHalvingSchedule', () => {
+  it('확인된 반감기는 블록 시각, 미래 반감기는 팁 높이와 평균 블록 간격으로 추정', async () => {
+    const fetch = esplora();
+    vi.stubGlobal('fetch', fetch);
+    const schedule = await syncHalvingSchedule();
+
+    expect(schedule.source).toBe('network');
+    expect(schedule.tip).toEqual({ height: TIP_HEIGHT, timestamp: TIP_TIME, avgBlockSeconds: AVG_BLOCK_SECONDS });
+    expect(schedule.events.filter(e => !e.estimated).map(e => e.timestamp)).toEqual(Object.values(HALVING_TIMES));
+
+    const next = schedule.events.find(e => e.estimated)!;
+    expect(next.epoch).toBe(5);
+    expect(next.timestamp).toBe(TIP_TIME + (5 * HALVING_INTERVAL - TIP_HEIGHT) * AVG_BLOCK_SECONDS * 1000);
+    expect(schedule.events.map(e => e.epoch)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(String(fetch.mock.calls[0][0])).toBe('https://mempool.space/api/blocks/tip/height');
+  });
+
+  it('캐시가 신선하면 네트워크 없이 재사용하고, 강제 갱신 시 이미 확인한 반감기 블록은 다시 조회하지 않음', async () => {
+    vi.stubGlobal('fetch', esplora());
+    await syncHalvingSchedule();
+
+    const cachedFetch = esplora();
+    vi.stubGlobal('fetch', cachedFetch);
+    expect((await syncHalvingSchedule()).source).toBe('cache');
+    expect(cachedFetch).not.toHaveBeenCalled();
+    expect(loadHalvingSchedule().source).toBe('cache');
+
+    await syncHalvingSchedule(true);
+    expect(cachedFetch.mock.calls.map(c => String(c[0])).some(url => url.endsWith(`/block-height/${HALVING_INTERVAL}`))).toBe(false);
+  });
+
+  it('블록 소스 설정을 사용', async () => {
+    localStorage.setItem('btc_compass_block_source_url', 'http://localhost:3002/api');
+    const fetch = esplora();
+    vi.stubGlobal('fetch', fetch);
+    await syncHalvingSchedule();
+    expect(fetch.mock.calls.every(c => String(c[0]).startsWith('http://localhost:3002/api/'))).toBe(true);
+  });
+
+  it('API 실패 시 캐시가 없으면 내장 기준값', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+    expect(await syncHalvingSchedule()).toBe(FALLBACK_HALVING_SCHEDULE);
+    expect(loadHalvingSchedule()).toBe(FALLBACK_HALVING_SCHEDULE);
+  });
+
+  it('블록 조회가 실패하면 캐시를 갱신하지 않고 기존 캐시, 캐시도 없으면 내장 기준값', async () => {
+    vi.stubGlobal('fetch', esplora());
+    await syncHalvingSchedule();
+    vi.stubGlobal('fetch', esplora(url => url.endsWith('/blocks/tip/height')));
+    const schedule = await syncHalvingSchedule(true);
+    expect(schedule.source).toBe('cache');
+    expect(schedule.tip.height).toBe(TIP_HEIGHT);
+
+    localStorage.removeItem('btc_compass_halving_cache');
+    vi.stubGlobal('fetch', esplora(url => url.includes(`/block-height/${2 * HALVING_INTERVAL}`)));
+    expect(await syncHalvingSchedule()).toBe(FALLBACK_HALVING_SCHEDULE);
+    expect(localStorage.getItem('btc_compass_halving_cache')).toBeNull();
+  });
+});
+
+describe('getCyclePhase', () => {
+  const schedule = buildHalvingSchedule(
+    Object.entries(HALVING_TIMES).map(([height, timestamp]) => ({ height: Number(height), timestamp })),
+    { height: TIP_HEIGHT, timestamp: TIP_TIME, avgBlockSeconds: AVG_BLOCK_SECONDS },
+    'network'
+  );
+
+  it('주어진 일정의 반감기 구간 내 진행률', () => {
+    const [, second, third] = schedule.events;
+    expect(getCyclePhase(new Date(second.timestamp), schedule)).toBe(0);
+    expect(getCyclePhase(new Date((second.timestamp + third.timestamp) / 2), schedule)).toBeCloseTo(0.5, 9);
+  });
+
+  it('다음 반감기 추정 시각(블록 간격)에 따라 현재 구간 진행률이 달라짐', () => {
+    const date = new Date(Date.UTC(2026, 0, 1));
+    const fourth = schedule.events[3].timestamp;
+    const nextAt = (s: typeof schedule) => s.events[4].timestamp;
+    expect(getCyclePhase(date, schedule)).toBeCloseTo((date.getTime() - fourth) / (nextAt(schedule) - fourth), 9);
+    expect(nextAt(schedule)).toBeLessThan(nextAt(FALLBACK_HALVING_SCHEDULE));
+    expect(getCyclePhase(date, schedule)).toBeGreaterThan(getCyclePhase(date, FALLBACK_HALVING_SCHEDULE));
+  });
+});
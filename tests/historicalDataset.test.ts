@@ -0,0 +1,27 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { HistoryDataset, decodeHistoryDataset } from '../services/historicalDataset';
+import { ETH_ASSET } from '../services/assets';
+
+const dataset: HistoryDataset = JSON.parse(readFileSync('public/data/btc-daily.json', 'utf8'));
+
+describe('bundled BTC daily dataset', () => {
+  it('checksum 검증 후 하루 간격 종가로 복원', () => {
+    const history = decodeHistoryDataset(dataset);
+    expect(history).toHaveLength(dataset.count);
+    expect(history[0]).toEqual({ date: '2013-04-28', price: 134.21 });
+    const byDate = new Map(history.map(p => [p.date, p.price]));
+    expect(byDate.get('2014-01-01')).toBe(771.4);
+    expect(byDate.get('2017-12-17')).toBe(19140.8);
+  });
+
+  it('차분이 손상되면 checksum 불일치', () => {
+    const tokens = dataset.deltas.split(',');
+    tokens[100] = (parseInt(tokens[100], 36) + 1).toString(36);
+    expect(() => decodeHistoryDataset({ ...dataset, deltas: tokens.join(',') })).toThrow('Checksum mismatch');
+  });
+
+  it('다른 자산의 데이터셋으로는 복원하지 않음', () => {
+    expect(() => decodeHistoryDataset(dataset, ETH_ASSET)).toThrow('Dataset asset mismatch');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { MarketStatus } from '../types';
+import { getModelValues } from '../services/modelEngine';
+import { calculateIndicators } from '../services/indicators';
+import { BTC_ASSET } from '../services/assets';
+
+const DATE = new Date('2024-06-01');
+const FAIR = getModelValues(BTC_ASSET, DATE).weighted;
+const priceAt = (oscillator: number) => FAIR * Math.exp(oscillator);
+
+describe('calculateIndicators', () => {
+  it('적정가에서는 오실레이터 0, MVRV 추정치 2.5, 균형 국면', () => {
+    const r = calculateIndicators(BTC_ASSET, priceAt(0), DATE, 50);
+    expect(r.model.weighted).toBeCloseTo(FAIR, 6);
+    expect(r.oscillator).toBeCloseTo(0, 9);
+    expect(r.mvrvEst).toBeCloseTo(2.5, 9);
+    expect(r.mvrvIsEstimate).toBe(true);
+    // 가격 50 * 0.6 + 심리 50 * 0.2 + MVRV (2.5 / 6) * 100 * 0.2
+    expect(r.riskPercent).toBeCloseTo(30 + 10 + (2.5 / 6) * 20, 9);
+    expect(r.status).toBe(MarketStatus.STABLE);
+  });
+
+  it('오실레이터 -0.5 이하는 가격 리스크 0, 매집 국면', () => {
+    const r = calculateIndicators(BTC_ASSET, priceAt(-0.6), DATE, 20);
+    expect(r.oscillator).toBeCloseTo(-0.6, 9);
+    expect(r.riskPercent).toBeCloseTo(4, 9); // 심리만 반영, MVRV 추정치는 음수라 0
+    expect(r.status).toBe(MarketStatus.ACCUMULATE);
+  });
+
+  it('오실레이터 +0.5 이상과 탐욕 심리는 과열 국면', () => {
+    const r = calculateIndicators(BTC_ASSET, priceAt(0.5), DATE, 80);
+    expect(r.riskPercent).toBeGreaterThanOrEqual(70);
+    expect(r.status).toBe(MarketStatus.SELL);
+  });
+
+  it('실측 MVRV Z-Score가 있으면 추정치 대신 사용', () => {
+    const estimated = calculateIndicators(BTC_ASSET, priceAt(0), DATE, 50);
+    const measured = calculateIndicators(BTC_ASSET, priceAt(0), DATE, 50, undefined, undefined, 6);
+    expect(measured.mvrv).toBe(6);
+    expect(measured.mvrvEst).toBeCloseTo(estimated.mvrvEst, 9);
+    expect(measured.mvrvIsEstimate).toBe(false);
+    expect(measured.riskPercent - estimated.riskPercent).toBeCloseTo(20 - (2.5 / 6) * 20, 9);
+  });
+
+  it('가격이 0 이하이면 오실레이터 0', () => {
+    expect(calculateIndicators(BTC_ASSET, 0, DATE, 50).oscillator).toBe(0);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { MarketStatus, Snapshot } from '../types';
+import { analyzeSnapshots, DEFAULT_INSIGHT_RULES, renderTemplate } from '../services/insights';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 4, 1, 12);
+
+// 최신순 로그용 스냅샷 (daysAgo일 전)
+const snap = (daysAgo: number, values: Partial<Snapshot> = {}): Snapshot => ({
+  id: NOW - daysAgo * DAY_MS,
+  date: new Date(NOW - daysAgo * DAY_MS).toISOString(),
+  timestamp: NOW - daysAgo * DAY_MS,
+  status: MarketStatus.STABLE,
+  oscillator: 0,
+  fng: 50,
+  mvrv: 2,
+  price: 100,
+  fair: 100,
+  ...values,
+});
+
+const analyze = (snapshots: Snapshot[]) => analyzeSnapshots(snapshots, DEFAULT_INSIGHT_RULES);
+const rule = (id: string) => DEFAULT_INSIGHT_RULES.find(r => r.id === id)!;
+
+describe('analyzeSnapshots 기본 규칙', () => {
+  it('오실레이터 상단/하단이면 과열/저점 요약', () => {
+    expect(analyze([snap(0, { oscillator: 0.5 })]).summary).toBe(rule('overheat').template);
+    expect(analyze([snap(0, { oscillator: -0.5 })]).summary).toBe(rule('bottom').template);
+  });
+
+  it('스냅샷이 하나뿐이면 적정가 대비 위치 요약과 심리 기준 코멘트', () => {
+    const result = analyze([snap(0, { price: 120, fair: 100, fng: 75 })]);
+    expect(result.summary).toContain('적정 가치(100) 대비 약 20% 상회 중입니다.');
+    expect(result.severity).toBe('info');
+    expect(result.insights).toEqual([{ timestamp: NOW, insight: rule('point-greed').template, severity: 'warning' }]);
+    expect(analyze([snap(0, { fng: 20 })]).insights[0].insight).toBe(rule('point-fear').template);
+    expect(analyze([snap(0)]).insights[0].insight).toBe(rule('point-neutral').template);
+  });
+
+  it('하루 전 대비 종합 추세로 상승/둔화/균형 요약', () => {
+    expect(analyze([snap(0, { oscillator: 0.1 }), snap(1)]).summary).toContain('추세 상승:');
+    expect(analyze([snap(0, { oscillator: -0.1 }), snap(1)]).summary).toContain('추세 둔화:');
+    expect(analyze([snap(0, { oscillator: 0.01 }), snap(1)]).summary).toBe(rule('balanced').template);
+  });
+
+  it('직전 스냅샷 대비 변화로 시점별 코멘트', () => {
+    const comment = (curr: Partial<Snapshot>) => analyze([snap(0, curr), snap(1)]).insights[0].insight;
+    expect(comment({ oscillator: 0.005, fng: 51 })).toBe(rule('point-flat').template);
+    expect(comment({ oscillator: 0.1, fng: 55 })).toBe(rule('point-recovery').template);
+    expect(comment({ oscillator: -0.1, fng: 45 })).toBe(rule('point-risk').template);
+    expect(comment({ oscillator: 0.1, fng: 45 })).toBe(rule('point-divergence').template);
+    expect(comment({ oscillator: -0.1, fng: 55 })).toBe(rule('point-mixed').template);
+  });
+
+  it('비활성 규칙은 건너뜀', () => {
+    const rules = DEFAULT_INSIGHT_RULES.map(r => r.id === 'overheat' ? { ...r, enabled: false } : r);
+    expect(analyzeSnapshots([snap(0, { oscillator: 0.5 })], rules).summary).toContain('스냅샷 분석:');
+  });
+});
+
+describe('추세 기간별 기준 스냅샷', () => {
+  it('기간 이전의 가장 가까운 스냅샷을 기간의 2배 이내에서만 사용', () => {
+    // 1d 기준은 3일 전뿐이라 없음, 7d는 10일 전, 30d는 40일 전
+    const result = analyze([snap(0, { oscillator: 0.3 }), snap(3, { oscillator: 0.2 }), snap(10, { oscillator: 0.1 }), snap(40)]);
+    expect(result.trends?.['1d']).toBeUndefined();
+    expect(result.trends?.['7d']).toBeCloseTo(0.2);
+    expect(result.trends?.['30d']).toBeCloseTo(0.3);
+  });
+
+  it('정확히 기간 전 스냅샷이 있으면 그 시점을 사용', () => {
+    const result = analyze([snap(0, { oscillator: 0.3 }), snap(1, { oscillator: 0.25 }), snap(7, { oscillator: 0.2 })]);
+    expect(result.trends?.['1d']).toBeCloseTo(0.05);
+    expect(result.trends?.['7d']).toBeCloseTo(0.1);
+    expect(result.trends?.['30d']).toBeUndefined();
+  });
+
+  it('7일·30일 기준이 없으면 중기 추세 규칙은 건너뜀', () => {
+    const short = analyze([snap(0, { oscillator: 0.3 }), snap(1, { oscillator: 0.1 })]);
+    expect(short.summary).toContain('추세 상승:');
+    const long = analyze([snap(0, { oscillator: 0.3 }), snap(7, { oscillator: 0.2 }), snap(30)]);
+    expect(long.summary).toContain('중기 상승 추세:');
+  });
+});
+
+describe('renderTemplate', () => {
+  const snapshots = [snap(0, { price: 110, fair: 100, oscillator: 0.12, fng: 64, mvrv: 2.5 }), snap(1, { price: 100, fng: 60, mvrv: 2 })];
+
+  it('현재 값 치환', () => {
+    expect(renderTemplate('{price} {fair} {oscillator} {fng} {mvrv} {deviation}% {direction}', snapshots, 0))
+      .toBe('110 100 +0.12 64 2.50 10% 상회');
+    expect(renderTemplate('{deviation}% {direction}', [snap(0, { price: 90, fair: 100 })], 0)).toBe('10% 하회');
+  });
+
+  it('기간 변화량 치환', () => {
+    expect(renderTemplate('{price:1d} {fng:prev} {mvrv:1d} {trend:prev}', snapshots, 0)).toBe('+10.0% +4 +0.50 +0.260');
+  });
+
+  it('기준 스냅샷이 없으면 -', () => {
+    expect(renderTemplate('{trend:7d}', snapshots, 0)).toBe('-');
+    expect(renderTemplate('{fng:prev}', snapshots, 1)).toBe('-');
+  });
+
+  it('알 수 없는 키와 기간은 그대로 유지', () => {
+    expect(renderTemplate('{unknown} {price:now} {price:2d} {volume:1d}', snapshots, 0)).toBe('{unknown} {price:now} {price:2d} {volume:1d}');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { STAGES } from '../constants';
+import { MarketStatus } from '../types';
+import { classifyRisk, findStage, findStageIndex, getStatusLabel } from '../services/marketStatus';
+
+const fngLabel = (value: number) => findStage(STAGES.FNG, value)?.label;
+
+describe('findStageIndex', () => {
+  it('경계값은 해당 상위 구간에 배정', () => {
+    expect(fngLabel(75)).toBe(STAGES.FNG[0].label);
+    expect(fngLabel(55)).toBe(STAGES.FNG[1].label);
+    expect(fngLabel(45)).toBe(STAGES.FNG[2].label);
+    expect(fngLabel(25)).toBe(STAGES.FNG[3].label);
+    expect(fngLabel(0)).toBe(STAGES.FNG[4].label);
+  });
+
+  it('경계 직전 값은 하위 구간', () => {
+    expect(fngLabel(74.9)).toBe(STAGES.FNG[1].label);
+    expect(fngLabel(54.9)).toBe(STAGES.FNG[2].label);
+    expect(fngLabel(44.9)).toBe(STAGES.FNG[3].label);
+    expect(fngLabel(24.9)).toBe(STAGES.FNG[4].label);
+  });
+
+  it('최하단 임계값 미만은 -1', () => {
+    expect(findStageIndex(STAGES.FNG, -1)).toBe(-1);
+    expect(findStage(STAGES.FNG, -1)).toBeNull();
+  });
+
+  it('-Infinity 하한이 있는 단계는 항상 매칭', () => {
+    expect(findStageIndex(STAGES.OSCILLATOR, -10)).toBe(STAGES.OSCILLATOR.length - 1);
+    expect(findStageIndex(STAGES.MVRV, -3)).toBe(STAGES.MVRV.length - 1);
+  });
+
+  it('오실레이터/MVRV 경계', () => {
+    expect(findStageIndex(STAGES.OSCILLATOR, 0.5)).toBe(0);
+    expect(findStageIndex(STAGES.OSCILLATOR, -0.1)).toBe(3);
+    expect(findStageIndex(STAGES.OSCILLATOR, -0.11)).toBe(4);
+    expect(findStageIndex(STAGES.MVRV, 7)).toBe(0);
+    expect(findStageIndex(STAGES.MVRV, 0.1)).toBe(4);
+    expect(findStageIndex(STAGES.MVRV, 0.09)).toBe(5);
+  });
+});
+
+describe('classifyRisk', () => {
+  it('35 미만 매집, 35~70 균형, 70 초과 과열', () => {
+    expect(classifyRisk(0)).toBe(MarketStatus.ACCUMULATE);
+    expect(classifyRisk(34.99)).toBe(MarketStatus.ACCUMULATE);
+    expect(classifyRisk(35)).toBe(MarketStatus.STABLE);
+    expect(classifyRisk(69.99)).toBe(MarketStatus.STABLE);
+    expect(classifyRisk(70)).toBe(MarketStatus.STABLE);
+    expect(classifyRisk(70.01)).toBe(MarketStatus.SELL);
+    expect(classifyRisk(100)).toBe(MarketStatus.SELL);
+  });
+});
+
+describe('getStatusLabel', () => {
+  it('국면별 표시 색상', () => {
+    expect(getStatusLabel(MarketStatus.ACCUMULATE).color).toBe('text-emerald-400');
+    expect(getStatusLabel(MarketStatus.STABLE).color).toBe('text-amber-400');
+    expect(getStatusLabel(MarketStatus.SELL).color).toBe('text-rose-400');
+  });
+});
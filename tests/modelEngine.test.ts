@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { A_STD, B_STD, DEFAULT_ENSEMBLES, GENESIS_DATE, PINNED_COEFFICIENTS } from '../constants';
+import {
+  DEFAULT_WEIGHTS, MODEL_REGISTRY, calcCycle, calcStandard, calcWeightedTotal,
+  estimateSupply, getDaysSinceGenesis, getDynamicSigma, getModelValues
+} from '../services/modelEngine';
+import { FALLBACK_HALVING_SCHEDULE, HALVING_INTERVAL } from '../services/halving';
+import { BTC_ASSET, ETH_ASSET } from '../services/assets';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('getDaysSinceGenesis', () => {
+  it('제네시스 블록 당일은 0일, 하루 뒤는 1일', () => {
+    expect(getDaysSinceGenesis(GENESIS_DATE, GENESIS_DATE)).toBe(0);
+    expect(getDaysSinceGenesis(new Date(GENESIS_DATE.getTime() + DAY_MS), GENESIS_DATE)).toBe(1);
+  });
+
+  it('하루 미만 경과는 내림', () => {
+    expect(getDaysSinceGenesis(new Date(GENESIS_DATE.getTime() + DAY_MS - 1), GENESIS_DATE)).toBe(0);
+  });
+});
+
+describe('power-law models', () => {
+  it('Standard 모델은 a * days^b', () => {
+    expect(calcStandard(5000, PINNED_COEFFICIENTS)).toBeCloseTo(A_STD * Math.pow(5000, B_STD), 6);
+  });
+
+  it('Cycle 모델은 Standard 대비 ±15% 범위의 파동', () => {
+    for (let days = 1000; days <= 7000; days += 250) {
+      const date = new Date(GENESIS_DATE.getTime() + days * DAY_MS);
+      const ratio = calcCycle(BTC_ASSET, days, date, PINNED_COEFFICIENTS, FALLBACK_HALVING_SCHEDULE) / calcStandard(days, PINNED_COEFFICIENTS);
+      expect(ratio).toBeGreaterThanOrEqual(0.85 - 1e-9);
+      expect(ratio).toBeLessThanOrEqual(1.15 + 1e-9);
+    }
+  });
+});
+
+describe('estimateSupply', () => {
+  it('첫 반감기까지 1,050만 개 발행', () => {
+    const days = HALVING_INTERVAL / 144;
+    expect(estimateSupply(days)).toBeCloseTo(10_500_000, 0);
+  });
+
+  it('공급량은 2,100만 개를 넘지 않음', () => {
+    expect(estimateSupply(365 * 200)).toBeLessThanOrEqual(21_000_000);
+  });
+});
+
+describe('calcWeightedTotal', () => {
+  const date = new Date('2024-06-01T00:00:00Z');
+  const days = getDaysSinceGenesis(date, GENESIS_DATE);
+
+  it('단일 모델 가중치는 해당 모델 값과 같음', () => {
+    MODEL_REGISTRY.forEach(m => {
+      expect(calcWeightedTotal(BTC_ASSET, days, date, PINNED_COEFFICIENTS, { [m.id]: 1 })).toBeCloseTo(m.fairValue(BTC_ASSET, days, date, PINNED_COEFFICIENTS, FALLBACK_HALVING_SCHEDULE), 6);
+    });
+  });
+
+  it('가중치 합으로 정규화', () => {
+    const a = calcWeightedTotal(BTC_ASSET, days, date, PINNED_COEFFICIENTS, { standard: 1, decaying: 1 });
+    const b = calcWeightedTotal(BTC_ASSET, days, date, PINNED_COEFFICIENTS, { standard: 3, decaying: 3 });
+    expect(a).toBeCloseTo(b, 6);
+  });
+
+  it('가중치 합이 0이면 기본 앙상블 사용', () => {
+    expect(calcWeightedTotal(BTC_ASSET, days, date, PINNED_COEFFICIENTS, {})).toBeCloseTo(calcWeightedTotal(BTC_ASSET, days, date, PINNED_COEFFICIENTS, DEFAULT_ENSEMBLES[0].weights), 6);
+  });
+});
+
+describe('getModelValues', () => {
+  it('밴드는 가중 평균의 exp(±sigma)', () => {
+    const date = new Date('2025-01-01T00:00:00Z');
+    const days = getDaysSinceGenesis(date, GENESIS_DATE);
+    const values = getModelValues(BTC_ASSET, date);
+    const sigma = getDynamicSigma(BTC_ASSET, days);
+    expect(values.weighted).toBeCloseTo(calcWeightedTotal(BTC_ASSET, days, date, PINNED_COEFFICIENTS, DEFAULT_WEIGHTS), 6);
+    expect(values.upper / values.weighted).toBeCloseTo(Math.exp(sigma), 9);
+    expect(values.lower / values.weighted).toBeCloseTo(Math.exp(-sigma), 9);
+  });
+
+  it('모든 레지스트리 모델의 구성 요소를 포함', () => {
+    const values = getModelValues(BTC_ASSET, new Date('2025-01-01T00:00:00Z'));
+    MODEL_REGISTRY.forEach(m => {
+      const band = values.components[m.id];
+      expect(band.fair).toBeGreaterThan(0);
+      expect(band.lower).toBeLessThan(band.fair);
+      expect(band.upper).toBeGreaterThan(band.fair);
+    });
+  });
+
+  it('멱법칙 모델 밴드는 자산별 배율', () => {
+    const date = new Date('2025-01-01T00:00:00Z');
+    [BTC_ASSET, ETH_ASSET].forEach(asset => {
+      const band = getModelValues(asset, date).components.standard!;
+      expect(band.upper / band.fair).toBeCloseTo(asset.modelBand.upper, 12);
+      expect(band.lower / band.fair).toBeCloseTo(asset.modelBand.lower, 12);
+    });
+    expect(ETH_ASSET.modelBand.upper).toBeGreaterThan(BTC_ASSET.modelBand.upper);
+  });
+});
+
+describe('getDynamicSigma', () => {
+  it('BTC는 기준일 이전 0.5, 이후 단조 감소', () => {
+    expect(getDynamicSigma(BTC_ASSET, 1000)).toBe(0.5);
+    expect(getDynamicSigma(BTC_ASSET, 5800)).toBe(0.5);
+    expect(getDynamicSigma(BTC_ASSET, 8000)).toBeLessThan(0.5);
+    expect(getDynamicSigma(BTC_ASSET, 12000)).toBeLessThan(getDynamicSigma(BTC_ASSET, 8000));
+  });
+
+  it('자산별 기본 폭·기준일 사용', () => {
+    const { base, decayRate, referenceDay } = ETH_ASSET.sigma;
+    expect(getDynamicSigma(ETH_ASSET, referenceDay)).toBe(base);
+    expect(getDynamicSigma(ETH_ASSET, referenceDay * 2)).toBeCloseTo(base * Math.pow(0.5, decayRate), 12);
+    const date = new Date(Date.UTC(2025, 0, 1));
+    const m = getModelValues(ETH_ASSET, date);
+    expect(m.upper / m.weighted).toBeCloseTo(Math.exp(getDynamicSigma(ETH_ASSET, getDaysSinceGenesis(date, ETH_ASSET.inceptionDate))), 9);
+  });
+});
+
+describe('asset configuration', () => {
+  it('ETH는 출시일 기준 일수와 자산 모델만 사용', () => {
+    const m = getModelValues(ETH_ASSET, new Date(Date.UTC(2025, 0, 1)));
+    expect(Object.keys(m.components).sort()).toEqual(['decaying', 'standard']);
+    expect(m.weighted).toBeGreaterThan(m.components.decaying!.fair * 0.5);
+    expect(m.weighted).toBeLessThan(m.components.standard!.fair * 2);
+  });
+
+  it('반감기가 없는 자산의 Cycle 모델은 Standard와 같음', () => {
+    const date = new Date(Date.UTC(2024, 5, 1));
+    const days = getDaysSinceGenesis(date, ETH_ASSET.inceptionDate);
+    expect(calcCycle(ETH_ASSET, days, date, ETH_ASSET.coefficients, FALLBACK_HALVING_SCHEDULE)).toBeCloseTo(calcStandard(days, ETH_ASSET.coefficients), 6);
+  });
+});
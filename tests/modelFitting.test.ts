@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { GENESIS_DATE } from '../constants';
+import { PriceData } from '../types';
+import { fitModelCoefficients, fitPowerLaw } from '../services/modelFitting';
+import { BTC_ASSET } from '../services/assets';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const A = 1e-17;
+const B = 5.8;
+const Z_95 = 1.959964;
+
+const dateAt = (days: number) => new Date(GENESIS_DATE.getTime() + days * DAY_MS).toISOString().split('T')[0];
+const powerLaw = (days: number) => A * Math.pow(days, B);
+
+// 500일부터 150일 간격 31개 시점
+const DAYS = Array.from({ length: 31 }, (_, i) => 500 + i * 150);
+
+// 정확한 멱법칙 시계열
+const EXACT: PriceData[] = DAYS.map(d => ({ date: dateAt(d), price: powerLaw(d) }));
+
+// 같은 날짜에 ln 공간 ±EPS 쌍: 회귀선은 그대로이고 잔차는 모두 ±EPS
+const EPS = 0.2;
+const PAIRED: PriceData[] = DAYS.flatMap(d => [
+  { date: dateAt(d), price: powerLaw(d) * Math.exp(EPS) },
+  { date: dateAt(d), price: powerLaw(d) * Math.exp(-EPS) },
+]);
+
+// 후반부 버블 구간 (5개 시점만 5배)
+const BUBBLE: PriceData[] = DAYS.map((d, i) => ({ date: dateAt(d), price: powerLaw(d) * (i >= 24 && i < 29 ? 5 : 1) }));
+
+describe('fitPowerLaw (OLS)', () => {
+  it('정확한 멱법칙은 계수를 그대로 복원', () => {
+    const fit = fitPowerLaw(BTC_ASSET, EXACT, { method: 'ols' });
+    expect(fit.b).toBeCloseTo(B, 6);
+    expect(Math.log(fit.a)).toBeCloseTo(Math.log(A), 4);
+    expect(fit.r2).toBeCloseTo(1, 9);
+    expect(fit.sigma).toBeLessThan(1e-6);
+    expect(fit.n).toBe(DAYS.length);
+  });
+
+  it('대칭 잔차 쌍: R², σ, 95% 신뢰구간', () => {
+    const fit = fitPowerLaw(BTC_ASSET, PAIRED, { method: 'ols' });
+    const n = PAIRED.length;
+    expect(fit.b).toBeCloseTo(B, 6);
+
+    const ys = PAIRED.map(p => Math.log(p.price));
+    const my = ys.reduce((a, y) => a + y, 0) / n;
+    const ssTot = ys.reduce((a, y) => a + (y - my) ** 2, 0);
+    expect(fit.r2).toBeCloseTo(1 - (n * EPS * EPS) / ssTot, 9);
+    expect(fit.sigma).toBeCloseTo(EPS * Math.sqrt(n / (n - 2)), 9);
+
+    const xs = DAYS.flatMap(d => [Math.log(d), Math.log(d)]);
+    const mx = xs.reduce((a, x) => a + x, 0) / n;
+    const sxx = xs.reduce((a, x) => a + (x - mx) ** 2, 0);
+    const halfWidth = Z_95 * fit.sigma / Math.sqrt(sxx);
+    expect(fit.ci95.b[0]).toBeCloseTo(fit.b - halfWidth, 9);
+    expect(fit.ci95.b[1]).toBeCloseTo(fit.b + halfWidth, 9);
+    expect(fit.ci95.a[0]).toBeLessThan(fit.a);
+    expect(fit.ci95.a[1]).toBeGreaterThan(fit.a);
+  });
+
+  it('표본이 3개 미만이면 예외', () => {
+    expect(() => fitPowerLaw(BTC_ASSET, EXACT.slice(0, 2), { method: 'ols' })).toThrow('Not enough data points');
+  });
+});
+
+describe('fitPowerLaw (LAD)', () => {
+  it('버블 구간 이상치에도 멱법칙을 복원, OLS는 치우침', () => {
+    const lad = fitPowerLaw(BTC_ASSET, BUBBLE, { method: 'quantile' });
+    const ols = fitPowerLaw(BTC_ASSET, BUBBLE, { method: 'ols' });
+    expect(lad.b).toBeCloseTo(B, 3);
+    expect(Math.abs(ols.b - B)).toBeGreaterThan(0.05);
+  });
+
+  it('부트스트랩 신뢰구간은 시드가 같으면 동일, 다르면 달라짐', () => {
+    const first = fitPowerLaw(BTC_ASSET, PAIRED, { method: 'quantile', seed: 7 });
+    const again = fitPowerLaw(BTC_ASSET, PAIRED, { method: 'quantile', seed: 7 });
+    const other = fitPowerLaw(BTC_ASSET, PAIRED, { method: 'quantile', seed: 8 });
+    expect(again.ci95).toEqual(first.ci95);
+    expect(other.ci95.b).not.toEqual(first.ci95.b);
+    expect(first.ci95.b[0]).toBeLessThanOrEqual(first.b);
+    expect(first.ci95.b[1]).toBeGreaterThanOrEqual(first.b);
+  });
+});
+
+describe('fitModelCoefficients', () => {
+  it('Standard/Decaying 적합 결과를 계수로 묶음', () => {
+    const result = fitModelCoefficients(BTC_ASSET, EXACT, { method: 'ols' });
+    expect(result.coefficients).toEqual({ aStd: result.standard.a, bStd: result.standard.b, aDecay: result.decaying.a, bDecay: result.decaying.b });
+    // 정확한 멱법칙은 최근 가중과 무관하게 같은 기울기
+    expect(result.decaying.b).toBeCloseTo(B, 6);
+  });
+});
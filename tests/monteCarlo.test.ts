@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { MonteCarloRequest, ResidualFit, ResidualPoint, fitResiduals, runMonteCarlo } from '../services/monteCarlo';
+
+const PHI = 0.98;
+
+// 고정 잡음(±0.02 사이 결정적 수열)을 넣은 AR(1) 잔차 1,000일
+const noise = (i: number) => 0.02 * Math.sin(i * 12.9898) * Math.cos(i * 78.233);
+const AR1: ResidualPoint[] = [];
+for (let day = 0, r = 0.8; day < 1000; day++) {
+  AR1.push({ day, residual: r });
+  r = PHI * r + noise(day);
+}
+
+const fit = (overrides: Partial<ResidualFit> = {}): ResidualFit => ({
+  mean: 0, phi: 0.99, halfLifeDays: Math.log(0.5) / Math.log(0.99), innovationStd: 0.01, innovations: [], ...overrides,
+});
+
+const request = (overrides: Partial<MonteCarloRequest> = {}): MonteCarloRequest => ({
+  fit: fit(),
+  startResidual: 1,
+  sigmas: Array.from({ length: 400 }, () => 0.5),
+  checkpoints: [30, 69, 200, 400],
+  paths: 500,
+  method: 'gaussian',
+  seed: 42,
+  ...overrides,
+});
+
+describe('fitResiduals', () => {
+  it('연속 일자 쌍으로 AR(1) 계수와 반감기 추정', () => {
+    const result = fitResiduals(AR1);
+    expect(result.phi).toBeCloseTo(PHI, 2);
+    expect(result.halfLifeDays).toBeCloseTo(Math.log(0.5) / Math.log(result.phi), 9);
+    expect(result.innovations).toHaveLength(999);
+    expect(result.innovationStd).toBeGreaterThan(0);
+  });
+
+  it('연속되지 않은 일자는 쌍에서 제외', () => {
+    const weekly = AR1.filter(p => p.day % 7 === 0);
+    const result = fitResiduals(weekly);
+    expect(result.innovations).toEqual([]);
+    expect(result.halfLifeDays).toBe(365);
+  });
+
+  it('일간 쌍이 부족하면 기본 반감기 365일과 전체 분산으로 근사', () => {
+    const result = fitResiduals(AR1.slice(0, 100));
+    expect(result.halfLifeDays).toBe(365);
+    expect(result.phi).toBeCloseTo(Math.pow(0.5, 1 / 365), 12);
+    expect(result.innovations).toEqual([]);
+  });
+});
+
+describe('runMonteCarlo', () => {
+  it('같은 seed는 같은 결과, 다른 seed는 다른 결과', () => {
+    expect(runMonteCarlo(request())).toEqual(runMonteCarlo(request()));
+    expect(runMonteCarlo(request({ seed: 43 })).checkpoints[0].residuals).not.toEqual(runMonteCarlo(request()).checkpoints[0].residuals);
+
+    const bootstrap = request({ method: 'bootstrap', fit: fitResiduals(AR1) });
+    expect(runMonteCarlo(bootstrap)).toEqual(runMonteCarlo(bootstrap));
+  });
+
+  it('중앙값은 평균으로 회귀 (반감기마다 절반)', () => {
+    const result = runMonteCarlo(request());
+    const median = (day: number) => result.checkpoints.find(c => c.day === day)!.residuals[50];
+    expect(median(30)).toBeCloseTo(Math.pow(0.99, 30), 1);
+    expect(median(69)).toBeCloseTo(0.5, 1);
+    expect(median(400)).toBeCloseTo(Math.pow(0.99, 400), 1);
+    expect(median(30)).toBeGreaterThan(median(69));
+    expect(median(69)).toBeGreaterThan(median(200));
+  });
+
+  it('0이 아닌 평균으로도 회귀', () => {
+    const result = runMonteCarlo(request({ fit: fit({ mean: -0.2 }), startResidual: 0.3 }));
+    expect(result.checkpoints[result.checkpoints.length - 1].residuals[50]).toBeCloseTo(-0.2 + 0.5 * Math.pow(0.99, 400), 1);
+  });
+
+  it('분위수는 오름차순이고 밴드·적정가 도달 비율은 시간에 따라 줄지 않음', () => {
+    const result = runMonteCarlo(request({ fit: fit({ innovationStd: 0.05 }) }));
+    result.checkpoints.forEach(c => {
+      expect(c.residuals[5]).toBeLessThanOrEqual(c.residuals[25]);
+      expect(c.residuals[25]).toBeLessThanOrEqual(c.residuals[50]);
+      expect(c.residuals[50]).toBeLessThanOrEqual(c.residuals[75]);
+      expect(c.residuals[75]).toBeLessThanOrEqual(c.residuals[95]);
+    });
+    // 시작 잔차(1)가 상단 밴드(0.5) 위이므로 첫날부터 상단 도달
+    expect(result.checkpoints[0].touchUpper).toBe(1);
+    for (let i = 1; i < result.checkpoints.length; i++) {
+      expect(result.checkpoints[i].touchFair).toBeGreaterThanOrEqual(result.checkpoints[i - 1].touchFair);
+      expect(result.checkpoints[i].touchLower).toBeGreaterThanOrEqual(result.checkpoints[i - 1].touchLower);
+    }
+  });
+
+  it('혁신 표본이 없으면 bootstrap 요청도 정규분포 사용, 범위 밖 집계 시점은 제외', () => {
+    const result = runMonteCarlo(request({ method: 'bootstrap', checkpoints: [0, 30, 401] }));
+    expect(result.method).toBe('gaussian');
+    expect(result.checkpoints.map(c => c.day)).toEqual([30]);
+  });
+});
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SocketLike, StreamStatus, createPriceStream, parseBinanceTrade } from '../services/priceStream';
+
+/**
+ * 목(mock) 소켓으로 체결가 스트림의 전달 간격, 재연결 백오프, 종료 동작 검증
+ */
+class MockSocket implements SocketLike {
+  onopen: SocketLike['onopen'] = null;
+  onmessage: SocketLike['onmessage'] = null;
+  onclose: SocketLike['onclose'] = null;
+  onerror: SocketLike['onerror'] = null;
+  closed = false;
+
+  constructor(public url: string) {}
+
+  open() { this.onopen?.(new Event('open')); }
+  send(data: unknown) { this.onmessage?.({ data }); }
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    this.onclose?.(new Event('close') as CloseEvent);
+  }
+}
+
+const trade = (price: number) => JSON.stringify({ e: 'aggTrade', p: String(price) });
+
+const setup = () => {
+  const sockets: MockSocket[] = [];
+  const prices: number[] = [];
+  const statuses: StreamStatus[] = [];
+  const stream = createPriceStream({
+    url: 'ws://localhost:8765',
+    parse: parseBinanceTrade,
+    onPrice: p => prices.push(p),
+    onStatus: s => statuses.push(s),
+    socketFactory: url => {
+      const socket = new MockSocket(url);
+      sockets.push(socket);
+      return socket;
+    },
+    minIntervalMs: 1000,
+    initialBackoffMs: 1000,
+    maxBackoffMs: 4000,
+  });
+  return { stream, sockets, prices, statuses };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: Date.UTC(2025, 0, 1) });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('parseBinanceTrade', () => {
+  it('aggTrade 문자열/객체의 가격', () => {
+    expect(parseBinanceTrade(trade(65000.5))).toBe(65000.5);
+    expect(parseBinanceTrade({ p: '64000' })).toBe(64000);
+  });
+
+  it('가격이 없거나 잘못된 메시지는 null', () => {
+    expect(parseBinanceTrade('not json')).toBeNull();
+    expect(parseBinanceTrade({ result: null, id: 1 })).toBeNull();
+    expect(parseBinanceTrade({ p: '0' })).toBeNull();
+    expect(parseBinanceTrade(null)).toBeNull();
+  });
+});
+
+describe('createPriceStream', () => {
+  it('연결 후 체결가 전달, 최소 간격 내 체결은 마지막 가격만', () => {
+    const { sockets, prices, statuses } = setup();
+    expect(sockets[0].url).toBe('ws://localhost:8765');
+    sockets[0].open();
+    expect(statuses).toEqual(['connecting', 'open']);
+
+    sockets[0].send(trade(100));
+    vi.advanceTimersByTime(0);
+    expect(prices).toEqual([100]);
+
+    sockets[0].send(trade(101));
+    sockets[0].send('{"result":null}');
+    sockets[0].send(trade(102));
+    vi.advanceTimersByTime(999);
+    expect(prices).toEqual([100]);
+    vi.advanceTimersByTime(1);
+    expect(prices).toEqual([100, 102]);
+  });
+
+  it('연결이 끊기면 지수 백오프로 재연결, 연결되면 백오프 초기화', () => {
+    const { sockets, statuses } = setup();
+    sockets[0].close();
+    expect(statuses.at(-1)).toBe('reconnecting');
+    vi.advanceTimersByTime(999);
+    expect(sockets).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(sockets).toHaveLength(2);
+
+    sockets[1].close();
+    vi.advanceTimersByTime(1999);
+    expect(sockets).toHaveLength(2);
+    vi.advanceTimersByTime(1);
+    expect(sockets).toHaveLength(3);
+
+    // 최대 백오프 4초
+    sockets[2].close();
+    vi.advanceTimersByTime(4000);
+    sockets[3].close();
+    vi.advanceTimersByTime(4000);
+    expect(sockets).toHaveLength(5);
+
+    sockets[4].open();
+    sockets[4].close();
+    vi.advanceTimersByTime(1000);
+    expect(sockets).toHaveLength(6);
+  });
+
+  it('오류 발생 시 소켓을 닫고 재연결', () => {
+    const { sockets } = setup();
+    sockets[0].onerror?.(new Event('error'));
+    expect(sockets[0].closed).toBe(true);
+    vi.advanceTimersByTime(1000);
+    expect(sockets).toHaveLength(2);
+  });
+
+  it('stop 이후에는 재연결과 대기 중인 가격 전달을 하지 않음', () => {
+    const { stream, sockets, prices, statuses } = setup();
+    sockets[0].open();
+    sockets[0].send(trade(100));
+    vi.advanceTimersByTime(0);
+    sockets[0].send(trade(105));
+    stream.stop();
+    vi.advanceTimersByTime(10000);
+    expect(prices).toEqual([100]);
+    expect(sockets).toHaveLength(1);
+    expect(sockets[0].closed).toBe(true);
+    expect(statuses.at(-1)).toBe('closed');
+  });
+});
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PINNED_COEFFICIENTS } from '../constants';
+import { PriceData } from '../types';
+import { DEFAULT_WEIGHTS } from '../services/modelEngine';
+import { BTC_ASSET } from '../services/assets';
+import { FALLBACK_HALVING_SCHEDULE } from '../services/halving';
+import { backfillSnapshots, formatSnapshotDate, getBackfillTimestamps } from '../services/snapshotScheduler';
+import { SNAPSHOT_INTERVAL_MS } from '../services/snapshotStore';
+import { DataHealthReport } from '../services/dataQuality';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// process.env.TZ 변경은 Node에서 즉시 로컬 시간 계산에 반영됨
+const withTimeZone = (tz: string) => {
+  let previous: string | undefined;
+  beforeEach(() => {
+    previous = process.env.TZ;
+    process.env.TZ = tz;
+  });
+  afterEach(() => {
+    if (previous === undefined) delete process.env.TZ;
+    else process.env.TZ = previous;
+  });
+};
+
+const healthyReport = (overrides: Partial<DataHealthReport> = {}): DataHealthReport => ({
+  checkedAt: 0,
+  issues: [],
+  interpolatedDates: [],
+  suspectTimestamps: [],
+  tickerStale: false,
+  ...overrides,
+});
+
+const intradayAt = (timestamps: number[], price = 60000): PriceData[] =>
+  timestamps.map(t => ({ date: new Date(t).toISOString(), price }));
+
+const baseContext = {
+  asset: BTC_ASSET,
+  fngAt: () => 50,
+  mvrvAt: () => null,
+  coef: PINNED_COEFFICIENTS,
+  weights: DEFAULT_WEIGHTS,
+  halvings: FALLBACK_HALVING_SCHEDULE,
+};
+
+describe('getBackfillTimestamps', () => {
+  it('로그가 비어 있으면 현재 시각 하나', () => {
+    const now = Date.UTC(2025, 0, 1, 12);
+    expect(getBackfillTimestamps(null, now)).toEqual([now]);
+  });
+
+  it('마지막 스냅샷 이후 4시간 간격, now 이하만', () => {
+    const last = Date.UTC(2025, 0, 1, 0);
+    const now = last + 13 * HOUR_MS;
+    expect(getBackfillTimestamps(last, now)).toEqual([4, 8, 12].map(h => last + h * HOUR_MS));
+  });
+
+  it('간격이 다 차지 않았으면 빈 배열', () => {
+    const last = Date.UTC(2025, 0, 1, 0);
+    expect(getBackfillTimestamps(last, last + SNAPSHOT_INTERVAL_MS - 1)).toEqual([]);
+    expect(getBackfillTimestamps(last, last + SNAPSHOT_INTERVAL_MS)).toEqual([last + SNAPSHOT_INTERVAL_MS]);
+  });
+});
+
+describe('backfill across DST (America/New_York)', () => {
+  withTimeZone('America/New_York');
+
+  it('서머타임 시작일에도 절대 시간 4시간 간격 유지, 라벨은 로컬 시각', () => {
+    // 2025-03-08 20:00 EST = 2025-03-09 01:00Z, 같은 날 02:00에 EDT로 전환
+    const last = Date.UTC(2025, 2, 9, 1);
+    const now = last + 12 * HOUR_MS;
+    const slots = getBackfillTimestamps(last, now);
+
+    expect(slots.slice(1).map((t, i) => t - slots[i])).toEqual([SNAPSHOT_INTERVAL_MS, SNAPSHOT_INTERVAL_MS]);
+    expect(slots.map(t => formatSnapshotDate(new Date(t), new Date(now)))).toEqual(['3.9.0h', '3.9.5h', '3.9.9h']);
+  });
+
+  it('서머타임 종료일에는 로컬 라벨 간격이 5시간', () => {
+    // 2025-11-01 20:00 EDT = 2025-11-02 00:00Z, 11-02 02:00에 EST로 전환
+    const last = Date.UTC(2025, 10, 2, 0);
+    const slots = getBackfillTimestamps(last, last + 8 * HOUR_MS);
+    expect(slots.map(t => formatSnapshotDate(new Date(t), new Date(last)))).toEqual(['11.2.0h', '11.2.3h']);
+  });
+
+  it('backfillSnapshots가 DST 구간의 모든 슬롯을 생성', () => {
+    const last = Date.UTC(2025, 2, 9, 1);
+    const now = last + 12 * HOUR_MS;
+    const slots = getBackfillTimestamps(last, now);
+    const { snapshots } = backfillSnapshots({
+      ...baseContext,
+      lastTimestamp: last,
+      prices: { intraday: intradayAt(slots), history: [], currentPrice: 61000, now, health: healthyReport() },
+    });
+    expect(snapshots.map(s => s.timestamp)).toEqual(slots);
+    expect(snapshots.map(s => s.date)).toEqual(['3.9.0h', '3.9.5h', '3.9.9h']);
+  });
+});
+
+describe('formatSnapshotDate (Asia/Seoul)', () => {
+  withTimeZone('Asia/Seoul');
+
+  it('UTC 기준 전날 시각도 로컬(KST) 날짜로 표기', () => {
+    expect(formatSnapshotDate(new Date(Date.UTC(2025, 5, 30, 20)), new Date(Date.UTC(2025, 6, 1)))).toBe('7.1.5h');
+  });
+
+  it('올해가 아닌 시점은 연도 접두사', () => {
+    expect(formatSnapshotDate(new Date(Date.UTC(2024, 11, 31, 10)), new Date(Date.UTC(2025, 0, 2)))).toBe('24.12.31.19h');
+  });
+});
+
+describe('backfillSnapshots', () => {
+  const last = Date.UTC(2025, 0, 10, 0);
+  const now = last + 12 * HOUR_MS;
+  const slots = [4, 8, 12].map(h => last + h * HOUR_MS);
+
+  it('근접 5분봉이 있으면 플래그 없이 알림 평가 대상에 포함', () => {
+    const { snapshots, alertContexts } = backfillSnapshots({
+      ...baseContext,
+      lastTimestamp: last,
+      prices: { intraday: intradayAt(slots), history: [], currentPrice: 61000, now, health: healthyReport() },
+    });
+    expect(snapshots).toHaveLength(3);
+    expect(snapshots.every(s => s.flags === undefined && s.price === 60000)).toBe(true);
+    expect(alertContexts.map(c => c.timestamp)).toEqual(slots);
+  });
+
+  it('가격을 정할 수 없는 슬롯은 건너뜀', () => {
+    const { snapshots } = backfillSnapshots({
+      ...baseContext,
+      lastTimestamp: last,
+      prices: { intraday: intradayAt([slots[2]]), history: [], currentPrice: 61000, now, health: healthyReport() },
+    });
+    expect(snapshots.map(s => s.timestamp)).toEqual([slots[2]]);
+  });
+
+  it('일봉 종가 대체는 플래그만 기록, 갱신 안 된 현재가는 알림에서 제외', () => {
+    const { snapshots, alertContexts } = backfillSnapshots({
+      ...baseContext,
+      lastTimestamp: last,
+      prices: {
+        intraday: [],
+        history: [{ date: '2025-01-10', price: 59000 }],
+        currentPrice: 61000,
+        now,
+        health: healthyReport({ tickerStale: true }),
+      },
+    });
+    expect(snapshots.map(s => s.flags)).toEqual([['daily_close'], ['daily_close'], ['stale_ticker']]);
+    expect(alertContexts.map(c => c.timestamp)).toEqual(slots.slice(0, 2));
+  });
+});
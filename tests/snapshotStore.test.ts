@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MarketStatus, Snapshot } from '../types';
+import { SNAPSHOT_INTERVAL_MS, loadSnapshots, migrateSnapshot, saveSnapshots, selectExpired } from '../services/snapshotStore';
+
+/**
+ * 스냅샷 저장소의 스키마 이전과 보존 정책 검증.
+ * node에는 IndexedDB와 localStorage가 없으므로 idb 모듈은 메모리 Map, localStorage는 메모리 저장소로 대체합니다.
+ */
+const db = vi.hoisted(() => new Map<IDBValidKey, unknown>());
+
+vi.mock('../services/idb', () => ({
+  STORES: { SNAPSHOTS: 'snapshots' },
+  isIdbAvailable: () => true,
+  idbGetAll: async () => Array.from(db.values()),
+  idbPutMany: async (_store: string, entries: { key: IDBValidKey; value: unknown }[]) => { entries.forEach(e => db.set(e.key, e.value)); },
+  idbDeleteMany: async (_store: string, keys: IDBValidKey[]) => { keys.forEach(k => db.delete(k)); },
+}));
+
+const LEGACY_KEY = 'btc_compass_history';
+const NOW = new Date(2025, 4, 1, 12).getTime();
+
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+const snap = (timestamp: number, price = 60000): Snapshot => ({
+  id: timestamp, date: '', timestamp, status: MarketStatus.STABLE, oscillator: 0.1, fng: 55, mvrv: 2, price, fair: 55000,
+});
+
+// localStorage 시절(v1) 기록: 숫자가 문자열이거나 일부 필드가 빠진 경우 포함
+const LEGACY_LOG = [
+  { id: 1735704000000, date: '1.1.13h', timestamp: 1735704000000, status: 'SELL', oscillator: '0.45', fng: 80, mvrv: 3.1, price: 98000, fair: 62000 },
+  { id: 1735689600000, date: '1.1.9h', timestamp: '1735689600000', status: 'UNKNOWN', oscillator: 0.1, price: '95000', fair: 61000 },
+  { id: 1, date: 'broken', status: 'STABLE' },
+];
+
+beforeEach(() => {
+  db.clear();
+  vi.stubGlobal('localStorage', memoryStorage());
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('migrateSnapshot', () => {
+  it('이전 버전 레코드를 현재 스키마로 변환 (누락 값은 기본값)', () => {
+    expect(migrateSnapshot(LEGACY_LOG[1])).toEqual({
+      id: 1735689600000, date: '1.1.9h', timestamp: 1735689600000, status: MarketStatus.STABLE,
+      oscillator: 0.1, fng: 50, mvrv: 0, price: 95000, fair: 61000,
+    });
+    expect(migrateSnapshot({ ...LEGACY_LOG[0], flags: 'daily_close;bogus' })?.flags).toEqual(['daily_close']);
+  });
+
+  it('timestamp가 없거나 레코드가 아니면 복구 불가', () => {
+    expect(migrateSnapshot(LEGACY_LOG[2])).toBeNull();
+    expect(migrateSnapshot(null)).toBeNull();
+    expect(migrateSnapshot([LEGACY_LOG[0]])).toBeNull();
+  });
+});
+
+describe('loadSnapshots 이전', () => {
+  it('localStorage 로그를 IndexedDB(v2, BTC)로 옮기고 원본 키를 삭제', async () => {
+    localStorage.setItem(LEGACY_KEY, JSON.stringify(LEGACY_LOG));
+    const snapshots = await loadSnapshots();
+
+    expect(snapshots.map(s => s.timestamp)).toEqual([1735704000000, 1735689600000]);
+    expect(snapshots[0]).toMatchObject({ status: MarketStatus.SELL, oscillator: 0.45, price: 98000 });
+    expect(localStorage.getItem(LEGACY_KEY)).toBeNull();
+    expect(Array.from(db.keys())).toEqual([1735704000000, 1735689600000]);
+    Array.from(db.values()).forEach(record => expect(record).toMatchObject({ v: 2, asset: 'BTC' }));
+
+    // 두 번째 로드는 이전 없이 같은 결과
+    expect(await loadSnapshots()).toEqual(snapshots);
+  });
+
+  it('다른 자산을 불러올 때는 BTC 로그를 이전하지 않음', async () => {
+    localStorage.setItem(LEGACY_KEY, JSON.stringify(LEGACY_LOG));
+    expect(await loadSnapshots('ETH')).toEqual([]);
+    expect(localStorage.getItem(LEGACY_KEY)).not.toBeNull();
+  });
+
+  it('손상된 localStorage 로그는 원본을 남기고 빈 로그', async () => {
+    localStorage.setItem(LEGACY_KEY, '[{"timestamp":');
+    expect(await loadSnapshots()).toEqual([]);
+    expect(localStorage.getItem(LEGACY_KEY)).toBe('[{"timestamp":');
+  });
+
+  it('버전 없는 레코드(자산 필드 없음 = BTC)는 변환 후 다시 기록', async () => {
+    db.set(1735689600000, { ...LEGACY_LOG[1] });
+    db.set('ETH:1735689600000', { ...snap(1735689600000, 3500), v: 2, asset: 'ETH' });
+    const snapshots = await loadSnapshots();
+    expect(snapshots).toHaveLength(1);
+    expect(db.get(1735689600000)).toMatchObject({ v: 2, asset: 'BTC', price: 95000, fng: 50 });
+    expect((await loadSnapshots('ETH')).map(s => s.price)).toEqual([3500]);
+  });
+});
+
+describe('보존 정책', () => {
+  it('최근 30일은 모두 유지, 그 이전은 로컬 날짜별 마지막 스냅샷만 유지', () => {
+    const recent = Array.from({ length: 6 }, (_, i) => snap(NOW - i * SNAPSHOT_INTERVAL_MS));
+    const old = [4, 8, 12, 20].map(h => snap(new Date(2025, 2, 10, h).getTime()));
+    const single = snap(new Date(2025, 2, 5, 9).getTime());
+
+    const expired = selectExpired([...recent, ...old, single], NOW);
+    expect(expired.sort()).toEqual(old.slice(0, 3).map(s => s.timestamp).sort());
+  });
+
+  it('저장 시 만료분을 삭제하고 최신순 목록 반환', async () => {
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+    const morning = snap(new Date(2025, 2, 1, 8).getTime());
+    const noon = snap(new Date(2025, 2, 1, 12).getTime());
+    const kept = await saveSnapshots([], [morning, noon, snap(NOW)], 'ETH');
+    vi.useRealTimers();
+
+    expect(kept.map(s => s.timestamp)).toEqual([NOW, noon.timestamp]);
+    expect(Array.from(db.keys()).sort()).toEqual([`ETH:${NOW}`, `ETH:${noon.timestamp}`].sort());
+  });
+});
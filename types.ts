@@ -4,13 +4,113 @@ export interface PriceData {
   price: number;
 }
 
+/**
+ * 일간 공포·탐욕 지수 (alternative.me, 2018-02-01~)
+ */
+export interface FngData {
+  date: string;
+  value: number;
+}
+
+export type ProviderName =
+  | 'Binance'
+  | 'CoinGecko'
+  | 'Kraken'
+  | 'Coinbase'
+  | 'alternative.me'
+  | 'Frankfurter'
+  | 'ExchangeRate-API'
+  | 'Upbit'
+  | 'Bithumb'
+  | 'Fallback';
+
+/**
+ * 지원 법정화폐 (USD 1 기준 환율)
+ */
+export type FiatCurrency = 'KRW' | 'EUR' | 'JPY' | 'GBP';
+export type FxRates = Record<FiatCurrency, number>;
+
+/**
+ * 일간 환율 (영업일만 존재, 조회 시 직전 값으로 채움)
+ */
+export interface FxHistoryPoint {
+  date: string;
+  rates: Partial<FxRates>;
+}
+
+/**
+ * 각 데이터 조각을 실제로 제공한 소스
+ */
+export interface DataSources {
+  ticker: ProviderName;
+  history: ProviderName;
+  intraday: ProviderName;
+  fng: ProviderName;
+  fx: ProviderName;
+  krwSpot: ProviderName;
+}
+
+/**
+ * 외부 API 실패 종류: 연결 불가, HTTP 오류, 요청 한도 초과, 응답 형식 불일치
+ */
+export type FetchErrorKind = 'network' | 'http' | 'rate_limit' | 'schema';
+export type DataPiece = keyof DataSources | 'weekly' | 'fngHistory' | 'fxHistory';
+
+export interface SourceError {
+  piece: DataPiece;
+  provider: ProviderName | null; // null = 요청 전 실패 (오프라인 등)
+  kind: FetchErrorKind;
+  message: string;
+  status?: number;
+  retryAfter?: number;
+  fatal: boolean;                // 모든 제공자가 실패하여 대체값/캐시를 사용
+}
+
 export interface MarketData {
   currentPrice: number;
   fngValue: number;
   usdKrw: number;
+  fxRates: FxRates;
+  fxHistory: FxHistoryPoint[];
+  krwSpot: number | null;  // 국내 거래소 원화 현물가 (김치 프리미엄 계산용)
   lastUpdated: string;
   history: PriceData[];
-  dataSource: 'Binance' | 'CoinGecko' | 'Hybrid' | 'Fallback';
+  fngHistory: FngData[];
+  dataSource: 'Binance' | 'CoinGecko' | 'Kraken' | 'Coinbase' | 'Hybrid' | 'Fallback';
+  sources: DataSources;
+  stale: boolean;          // 네트워크 불가로 캐시된 시계열을 제공 중인지 여부
+  cachedAt: number | null; // 제공 중인 시계열의 마지막 동기화 시각 (ms)
+  errors: SourceError[];   // 이번 갱신에서 발생한 제공자 오류
+}
+
+/**
+ * 멱법칙 계수 (price = A * days^B)
+ */
+export interface ModelCoefficients {
+  aStd: number;
+  bStd: number;
+  aDecay: number;
+  bDecay: number;
+}
+
+export type ModelId = 'standard' | 'decaying' | 'cycle' | 'stockToFlow' | 'rainbow';
+
+export interface ModelBand {
+  fair: number;
+  upper: number;
+  lower: number;
+}
+
+export type ModelWeights = Partial<Record<ModelId, number>>;
+
+/**
+ * 이름이 있는 모델 가중치 조합. builtIn 앙상블은 수정/삭제 불가
+ */
+export interface ModelEnsemble {
+  id: string;
+  name: string;
+  weights: ModelWeights;
+  builtIn?: boolean;
 }
 
 export interface ModelValues {
@@ -20,6 +120,47 @@ export interface ModelValues {
   weighted: number;
   upper: number;
   lower: number;
+  components: Partial<Record<ModelId, ModelBand>>; // 자산에 정의된 개별 모델의 적정 가치와 자체 밴드
+}
+
+/**
+ * 스냅샷 가격의 출처 표시 (없으면 해당 시점 근처의 5분봉)
+ */
+export type SnapshotFlag = 'daily_close' | 'interpolated' | 'outlier' | 'stale_ticker';
+
+/**
+ * 4시간 간격 지표 스냅샷 (timestamp가 고유 키)
+ */
+export interface Snapshot {
+  id: number;
+  date: string;       // 생성 시점 표시용 라벨
+  timestamp: number;
+  status: MarketStatus;
+  oscillator: number;
+  fng: number;
+  mvrv: number;
+  price: number;
+  fair: number;
+  flags?: SnapshotFlag[];
+}
+
+export type InsightSeverity = 'info' | 'positive' | 'warning' | 'critical';
+export type TrendWindow = '1d' | '7d' | '30d';
+
+export interface DateInsight {
+  timestamp: number;
+  insight: string;
+  severity?: InsightSeverity;
+}
+
+/**
+ * 스냅샷 로그 분석 결과 (요약 + 시점별 코멘트)
+ */
+export interface AIAnalysis {
+  summary: string;
+  severity?: InsightSeverity;
+  trends?: Partial<Record<TrendWindow, number>>; // 기간별 종합 추세 점수 (최신 스냅샷 기준)
+  insights: DateInsight[];
 }
 
 export enum MarketStatus {